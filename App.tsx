@@ -1,168 +1,964 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { parseCSV, calculateMonthlyGrowth, formatCurrency } from './utils';
+import { parseCSV, parseCashFlowCSV, applyCashFlows, aggregatePortfolios, calculateMonthlyGrowth, calculateReturns, calculateRiskMetrics, filterByDateRange, annotationsFromNotes } from './utils';
 import { StockCharts } from './components/StockCharts';
-import { StockDataPoint, MonthlyGrowth } from './types';
-import { TrendingUp, DollarSign, Calendar, Upload } from 'lucide-react';
-import { RAW_CSV_DATA } from './constants';
+import { RiskPanel } from './components/RiskPanel';
+import { ReturnsHeatmap } from './components/ReturnsHeatmap';
+import { ImportReportDialog } from './components/ImportReportDialog';
+import { PortfolioSwitcher } from './components/PortfolioSwitcher';
+import { MergeDialog } from './components/MergeDialog';
+import { ReportSummary } from './components/ReportSummary';
+import { ChatBot } from './components/ChatBot';
+import { AnalystBrief } from './components/AnalystBrief';
+import { AlertCenter } from './components/AlertCenter';
+import { AttributionPanel } from './components/AttributionPanel';
+import { AllocationPanel } from './components/AllocationPanel';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { SettingsMenu } from './components/SettingsMenu';
+import { SettingsProvider, createSettingsValue } from './components/SettingsContext';
+import { serializeCSV } from './csvImport';
+import { parsePriceCSV, parseTransactionsCSV } from './ledger';
+import { calculateAllocationDrift, mergeHoldingsSnapshots, parseHoldingsCSV } from './allocation';
+import { calculateFxDecomposition, convertSeries, createFxConverter, fxCurrencies, mergeFxQuotes, parseFxCSV } from './fx';
+import { DEFAULT_TRADING_CALENDAR, analyzeTradingCalendar, parseHolidayCSV } from './tradingCalendar';
+import { StockDataPoint, MonthlyGrowth, ReturnMode, ImportOptions, Portfolio, ComparisonSeries, ChartRangeState, AnalystContext, ChartAnnotation, AnnotationDraft, AlertState, AlertRuleDraft, HoldingsLedger, AllocationTarget, FxQuote, DisplaySettings, TradingCalendar, HoldingsImport } from './types';
+import { TrendingUp, DollarSign, Calendar, Upload, ArrowLeftRight, RotateCcw, GitMerge, Undo2, FileText, Printer, X, Sparkles, PieChart, Coins, AlertTriangle } from 'lucide-react';
+import { storageService } from './services/storageService';
+import { createConfiguredProvider } from './services/providerRegistry';
+import { evaluateAlertRules, notifyAlert } from './services/alertRules';
+import { RAW_CSV_DATA, AGGREGATE_PORTFOLIO_ID, PORTFOLIO_COLORS, DEFAULT_CURRENCY, CURRENCY_OPTIONS, DEFAULT_DISPLAY_SETTINGS, DEFAULT_RISK_FREE_RATE } from './constants';
+
+const createPortfolio = (name: string, csvContent: string, importOptions: ImportOptions = {}): Portfolio => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  csvContent,
+  importOptions,
+  cashFlows: [],
+  annotations: []
+});
+
+// Snapshot taken before a merge so it can be undone
+interface MergeUndoEntry {
+  portfolioId: string;
+  csvContent: string;
+  importOptions: ImportOptions;
+}
+
+interface PendingImport {
+  fileName: string;
+  text: string;
+  options: ImportOptions;
+  // Replace the active portfolio's data, or add the file as a new portfolio
+  target: 'active' | 'new';
+}
+
+const SAMPLE_PORTFOLIO_ID = 'main';
+
+const createSamplePortfolios = (): Portfolio[] => [
+  { ...createPortfolio('Main Account', RAW_CSV_DATA), id: SAMPLE_PORTFOLIO_ID }
+];
+
+const DEFAULT_CHART_RANGE: ChartRangeState = { activeRange: 'ALL', dateRange: { start: '', end: '' } };
+
+const EMPTY_ALERT_STATE: AlertState = { rules: [], events: [] };
+
+// The range changes on every step of a Brush drag; it is saved once the drag settles
+const CHART_RANGE_SAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
-  const [csvContent, setCsvContent] = useState<string>(RAW_CSV_DATA);
+  const [portfolios, setPortfolios] = useState<Portfolio[]>(createSamplePortfolios);
+  const [activePortfolioId, setActivePortfolioId] = useState<string>(SAMPLE_PORTFOLIO_ID);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Bumped on reset so StockCharts remounts with the default range
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeUndoStack, setMergeUndoStack] = useState<MergeUndoEntry[]>([]);
+  // Printable report layout: same dashboard plus a period summary, without editing controls
+  const [isReportView, setIsReportView] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const llmProvider = useMemo(createConfiguredProvider, []);
   const [stockData, setStockData] = useState<StockDataPoint[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyGrowth[]>([]);
+  const [returnMode, setReturnMode] = useState<ReturnMode>('value');
+  const [chartRange, setChartRange] = useState<ChartRangeState>(DEFAULT_CHART_RANGE);
+  const [alertState, setAlertState] = useState<AlertState>(EMPTY_ALERT_STATE);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxQuote[]>([]);
+  const [riskFreeRate, setRiskFreeRate] = useState(DEFAULT_RISK_FREE_RATE);
+  // Imported exchange holidays; the bundled calendar when unset
+  const [customCalendar, setCustomCalendar] = useState<TradingCalendar | undefined>(undefined);
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const selectedRange = chartRange.dateRange;
+
+  // Every formatted amount below is in the base currency
+  const ui = useMemo(() => createSettingsValue(displaySettings, baseCurrency), [displaySettings, baseCurrency]);
+  const { t, palette, formatters } = ui;
+  const { formatCurrency, formatDisplayDate } = formatters;
+
+  // Restore the last session before the first render of the dashboard
+  useEffect(() => {
+    Promise.all([
+      storageService.loadWorkspace(),
+      storageService.loadChartRange(),
+      storageService.loadAlerts(),
+      storageService.loadSettings()
+    ]).then(([saved, savedRange, savedAlerts, savedSettings]) => {
+      if (saved && saved.portfolios.length > 0) {
+        setPortfolios(saved.portfolios);
+        setActivePortfolioId(
+          saved.portfolios.some(p => p.id === saved.activePortfolioId) || saved.activePortfolioId === AGGREGATE_PORTFOLIO_ID
+            ? saved.activePortfolioId
+            : saved.portfolios[0].id
+        );
+        setReturnMode(saved.returnMode);
+        setChartRange(savedRange ?? saved.chartRange ?? DEFAULT_CHART_RANGE);
+        setBaseCurrency(saved.baseCurrency ?? DEFAULT_CURRENCY);
+        setFxRates(saved.fxRates ?? []);
+        setRiskFreeRate(saved.riskFreeRate ?? DEFAULT_RISK_FREE_RATE);
+        setCustomCalendar(saved.tradingCalendar);
+      }
+      if (savedAlerts) setAlertState(savedAlerts);
+      if (savedSettings) setDisplaySettings({ ...DEFAULT_DISPLAY_SETTINGS, ...savedSettings });
+      setIsHydrated(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    storageService.saveWorkspace({
+      portfolios,
+      activePortfolioId,
+      returnMode,
+      baseCurrency,
+      fxRates,
+      tradingCalendar: customCalendar,
+      riskFreeRate
+    });
+  }, [isHydrated, portfolios, activePortfolioId, returnMode, baseCurrency, fxRates, customCalendar, riskFreeRate]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = window.setTimeout(() => storageService.saveChartRange(chartRange), CHART_RANGE_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isHydrated, chartRange]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    storageService.saveAlerts(alertState);
+  }, [isHydrated, alertState]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    storageService.saveSettings(displaySettings);
+  }, [isHydrated, displaySettings]);
+
+  useEffect(() => {
+    document.documentElement.lang = displaySettings.language;
+  }, [displaySettings.language]);
+
+  const isAggregate = activePortfolioId === AGGREGATE_PORTFOLIO_ID;
+  const activePortfolio = portfolios.find(p => p.id === activePortfolioId);
+
+  // Parse every portfolio once, in the currency it was recorded in
+  const localSeriesById = useMemo(() => {
+    const result: Record<string, StockDataPoint[]> = {};
+    portfolios.forEach(p => {
+      result[p.id] = applyCashFlows(parseCSV(p.csvContent, p.importOptions), p.cashFlows);
+    });
+    return result;
+  }, [portfolios]);
+
+  // The same series in the base currency; the aggregate and comparison views reuse these. A portfolio
+  // the FX file cannot convert stays in its own currency and is listed in a warning.
+  const { seriesById, unconverted } = useMemo(() => {
+    const result: Record<string, StockDataPoint[]> = {};
+    const missing: Portfolio[] = [];
+    portfolios.forEach(p => {
+      const converted = convertSeries(localSeriesById[p.id], p.currency ?? DEFAULT_CURRENCY, baseCurrency, fxRates);
+      if (!converted) missing.push(p);
+      result[p.id] = converted ?? localSeriesById[p.id];
+    });
+    return { seriesById: result, unconverted: missing };
+  }, [portfolios, localSeriesById, baseCurrency, fxRates]);
+
+  const activeCurrency = activePortfolio?.currency ?? DEFAULT_CURRENCY;
+  const currencyOptions = useMemo(
+    () => [...new Set([...CURRENCY_OPTIONS, ...portfolios.map(p => p.currency ?? DEFAULT_CURRENCY), ...fxCurrencies(fxRates)])],
+    [portfolios, fxRates]
+  );
+
+  const handleFxUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result;
+        if (typeof text === 'string') setFxRates(prev => mergeFxQuotes(prev, parseFxCSV(text)));
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const comparisonSeries = useMemo<ComparisonSeries[]>(() => portfolios.map((p, i) => ({
+    id: p.id,
+    name: p.name,
+    color: PORTFOLIO_COLORS[i % PORTFOLIO_COLORS.length],
+    data: seriesById[p.id]
+  })), [portfolios, seriesById]);
 
   // Initialize Data
   useEffect(() => {
-    const data = parseCSV(csvContent);
-    const monthly = calculateMonthlyGrowth(data);
+    const data = isAggregate
+      ? aggregatePortfolios(portfolios.map(p => seriesById[p.id]))
+      : seriesById[activePortfolioId] ?? [];
+    const monthly = calculateMonthlyGrowth(data, returnMode);
     setStockData(data);
     setMonthlyData(monthly);
-  }, [csvContent]);
+  }, [portfolios, seriesById, activePortfolioId, isAggregate, returnMode]);
+
+  // Check alert rules whenever a portfolio's data is loaded, imported, merged or given cash flows
+  useEffect(() => {
+    if (!isHydrated) return;
+    let aggregate: StockDataPoint[] | undefined;
+    const result = evaluateAlertRules(
+      alertState,
+      id => id === AGGREGATE_PORTFOLIO_ID
+        ? aggregate ??= aggregatePortfolios(portfolios.map(p => seriesById[p.id]))
+        : seriesById[id],
+      id => id === AGGREGATE_PORTFOLIO_ID ? t('app.allAccounts') : portfolios.find(p => p.id === id)?.name ?? t('app.portfolio'),
+      // A portfolio the FX file cannot convert is checked in its own currency
+      id => {
+        const portfolio = portfolios.find(p => p.id === id);
+        return portfolio && unconverted.includes(portfolio) ? portfolio.currency ?? DEFAULT_CURRENCY : baseCurrency;
+      },
+      (from, to) => createFxConverter(fxRates, from, to)
+    );
+    if (!result) return;
+    setAlertState(result.state);
+    result.fired.forEach(event => notifyAlert(event, t, formatters));
+  }, [isHydrated, alertState, portfolios, seriesById, unconverted, baseCurrency, fxRates, t, formatters]);
+
+  const handleAddAlertRule = (draft: AlertRuleDraft) => {
+    setAlertState(prev => ({
+      ...prev,
+      rules: [...prev.rules, {
+        ...draft,
+        // Value thresholds are typed in the currency shown at the time
+        currency: draft.kind === 'valueBelow' || draft.kind === 'valueAbove' ? baseCurrency : undefined,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        enabled: true,
+        createdAt: new Date().toISOString()
+      }]
+    }));
+  };
+
+  // A resumed rule starts over from the latest point instead of replaying the days it was paused
+  const handleToggleAlertRule = (id: string) => {
+    setAlertState(prev => ({
+      ...prev,
+      rules: prev.rules.map(r => r.id === id ? { ...r, enabled: !r.enabled, checkedThrough: undefined, isActive: undefined } : r)
+    }));
+  };
+
+  const handleDeleteAlertRule = (id: string) => {
+    setAlertState(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== id) }));
+  };
+
+  const acknowledgeAlerts = (ids?: string[]) => {
+    const acknowledgedAt = new Date().toISOString();
+    setAlertState(prev => ({
+      ...prev,
+      events: prev.events.map(e => !e.acknowledgedAt && (!ids || ids.includes(e.id)) ? { ...e, acknowledgedAt } : e)
+    }));
+  };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const updatePortfolio = (id: string, changes: Partial<Portfolio>) => {
+    setPortfolios(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const readCsvFile = (event: React.ChangeEvent<HTMLInputElement>, target: PendingImport['target']) => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
         const text = e.target?.result;
         if (typeof text === 'string') {
-          setCsvContent(text);
+          // Review the import report before the new data replaces the current dataset
+          setPendingImport({ fileName: file.name, text, options: {}, target });
+        }
+      };
+      reader.readAsText(file);
+    }
+    // Allow re-selecting the same file after a cancelled import
+    event.target.value = '';
+  };
+
+  // Uploading while the combined view is active adds a new account instead of overwriting one
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => readCsvFile(event, isAggregate ? 'new' : 'active');
+  const handleAddPortfolio = (event: React.ChangeEvent<HTMLInputElement>) => readCsvFile(event, 'new');
+
+  const confirmImport = () => {
+    if (!pendingImport) return;
+    if (pendingImport.target === 'new' || !activePortfolio) {
+      const portfolio = createPortfolio(pendingImport.fileName.replace(/\.csv$/i, ''), pendingImport.text, pendingImport.options);
+      setPortfolios(prev => [...prev, portfolio]);
+      setActivePortfolioId(portfolio.id);
+    } else {
+      updatePortfolio(activePortfolio.id, { csvContent: pendingImport.text, importOptions: pendingImport.options });
+    }
+    setPendingImport(null);
+  };
+
+  const handleDeletePortfolio = (id: string) => {
+    const remaining = portfolios.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    setPortfolios(remaining);
+    setActivePortfolioId(remaining[0].id);
+    setAlertState(prev => ({ ...prev, rules: prev.rules.filter(r => r.portfolioId !== id) }));
+  };
+
+  // Merged rows are written back as CSV so parseCSV stays the single source of truth
+  const handleApplyMerge = (merged: StockDataPoint[]) => {
+    if (!activePortfolio) return;
+    setMergeUndoStack(prev => [...prev, {
+      portfolioId: activePortfolio.id,
+      csvContent: activePortfolio.csvContent,
+      importOptions: activePortfolio.importOptions
+    }]);
+    updatePortfolio(activePortfolio.id, { csvContent: serializeCSV(merged), importOptions: {} });
+    setIsMergeOpen(false);
+  };
+
+  // Diff against the imported rows only, without separately uploaded cash flows
+  const mergeBase = useMemo(
+    () => activePortfolio ? parseCSV(activePortfolio.csvContent, activePortfolio.importOptions) : [],
+    [activePortfolio]
+  );
+
+  const lastMergeForActive = [...mergeUndoStack].reverse().find(entry => entry.portfolioId === activePortfolioId);
+
+  const handleUndoMerge = () => {
+    if (!lastMergeForActive) return;
+    updatePortfolio(lastMergeForActive.portfolioId, {
+      csvContent: lastMergeForActive.csvContent,
+      importOptions: lastMergeForActive.importOptions
+    });
+    setMergeUndoStack(prev => prev.filter(entry => entry !== lastMergeForActive));
+  };
+
+  const handleResetToSample = async () => {
+    if (!window.confirm(t('app.resetConfirm'))) return;
+    await storageService.clear();
+    setPortfolios(createSamplePortfolios());
+    setActivePortfolioId(SAMPLE_PORTFOLIO_ID);
+    setReturnMode('value');
+    setChartRange(DEFAULT_CHART_RANGE);
+    setMergeUndoStack([]);
+    setAlertState(EMPTY_ALERT_STATE);
+    setBaseCurrency(DEFAULT_CURRENCY);
+    setFxRates([]);
+    setRiskFreeRate(DEFAULT_RISK_FREE_RATE);
+    setCustomCalendar(undefined);
+    setDisplaySettings(DEFAULT_DISPLAY_SETTINGS);
+    setWorkspaceKey(k => k + 1);
+  };
+
+  const handleFlowUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && activePortfolio) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result;
+        if (typeof text === 'string') {
+          updatePortfolio(activePortfolio.id, { cashFlows: parseCashFlowCSV(text) });
+          setReturnMode('flowAdjusted');
         }
       };
       reader.readAsText(file);
     }
+    event.target.value = '';
+  };
+
+  // Transactions and prices are imported separately; either can be replaced without losing the other
+  const updateLedger = (changes: Partial<HoldingsLedger>) => {
+    if (!activePortfolio) return;
+    updatePortfolio(activePortfolio.id, {
+      ledger: { transactions: [], prices: [], ...activePortfolio.ledger, ...changes }
+    });
+  };
+
+  // Holdings snapshots are valued with the ledger's prices when a row only gives a quantity
+  const handleImportHoldings = (text: string): HoldingsImport | null => {
+    if (!activePortfolio) return null;
+    const result = parseHoldingsCSV(text, activePortfolio.ledger?.prices);
+    if (result.snapshots.length > 0) {
+      updatePortfolio(activePortfolio.id, { holdings: mergeHoldingsSnapshots(activePortfolio.holdings ?? [], result.snapshots) });
+    }
+    return result;
+  };
+
+  const allocationTargets = activePortfolio?.allocationTargets ?? [];
+
+  const handleAddAllocationTarget = (target: Omit<AllocationTarget, 'id'>) => {
+    if (!activePortfolio) return;
+    updatePortfolio(activePortfolio.id, {
+      allocationTargets: [...allocationTargets, { ...target, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` }]
+    });
   };
 
+  const handleDeleteAllocationTarget = (id: string) => {
+    if (!activePortfolio) return;
+    updatePortfolio(activePortfolio.id, { allocationTargets: allocationTargets.filter(t => t.id !== id) });
+  };
+
+  // Targets checked against the latest holdings snapshot, for the KPI cards
+  const allocationDrift = useMemo(() => {
+    const snapshots = !isAggregate ? activePortfolio?.holdings : undefined;
+    const targets = activePortfolio?.allocationTargets;
+    if (!snapshots || snapshots.length === 0 || !targets || targets.length === 0) return null;
+    const latest = snapshots[snapshots.length - 1];
+    const drift = calculateAllocationDrift(latest, targets);
+    return { date: latest.date, drift, outside: drift.filter(d => d.isOutsideBand) };
+  }, [activePortfolio, isAggregate]);
+
   // Calculate Key Metrics
   const metrics = useMemo(() => {
-    if (stockData.length === 0) return null;
-    const current = stockData[stockData.length - 1].value;
-    const previous = stockData[0].value;
-    const diff = current - previous;
-    const percent = ((diff / previous) * 100).toFixed(2);
+    const returns = calculateReturns(stockData);
+    if (!returns) return null;
+    const isFlowAdjusted = returnMode === 'flowAdjusted';
+    const current = returns.endValue;
+    const diff = isFlowAdjusted ? returns.investmentGain : returns.valueChange;
+    const percent = (isFlowAdjusted ? returns.twrPercent : returns.simpleReturnPercent).toFixed(2);
     const maxVal = Math.max(...stockData.map(d => d.value));
     
-    return { current, diff, percent, maxVal };
-  }, [stockData]);
+    return { current, diff, percent, maxVal, returns };
+  }, [stockData, returnMode]);
+
+  const rangeData = useMemo(() => filterByDateRange(stockData, selectedRange), [stockData, selectedRange]);
+
+  // Saved annotations plus the events in the dataset's note column
+  const editableAnnotations = activePortfolio && !isAggregate ? activePortfolio.annotations : undefined;
+  const annotations = useMemo(
+    () => [...(editableAnnotations ?? []), ...annotationsFromNotes(stockData)],
+    [editableAnnotations, stockData]
+  );
+
+  const addAnnotation = (draft: AnnotationDraft, source: ChartAnnotation['source']) => {
+    const annotation: ChartAnnotation = {
+      ...draft,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      source,
+      createdAt: new Date().toISOString()
+    };
+    if (activePortfolio) updatePortfolio(activePortfolio.id, { annotations: [...activePortfolio.annotations, annotation] });
+    return annotation.id;
+  };
+
+  const handleUpdateAnnotation = (id: string, draft: AnnotationDraft) => {
+    if (!activePortfolio) return;
+    updatePortfolio(activePortfolio.id, {
+      annotations: activePortfolio.annotations.map(a => a.id === id ? { ...a, ...draft } : a)
+    });
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    if (!activePortfolio) return;
+    updatePortfolio(activePortfolio.id, { annotations: activePortfolio.annotations.filter(a => a.id !== id) });
+  };
+
+  const portfolioName = isAggregate ? t('app.allAccounts') : activePortfolio?.name ?? t('app.portfolio');
+
+  // Local-market versus currency return, for a single portfolio shown in another currency
+  const convertedPortfolio = !isAggregate && activePortfolio && activeCurrency !== baseCurrency && !unconverted.includes(activePortfolio)
+    ? activePortfolio
+    : null;
+  const fxSplit = useMemo(() => {
+    if (!convertedPortfolio) return null;
+    const local = localSeriesById[convertedPortfolio.id];
+    const converted = seriesById[convertedPortfolio.id];
+    return {
+      full: calculateFxDecomposition(local, converted, activeCurrency, baseCurrency, returnMode),
+      range: calculateFxDecomposition(
+        filterByDateRange(local, selectedRange),
+        filterByDateRange(converted, selectedRange),
+        activeCurrency,
+        baseCurrency,
+        returnMode
+      )
+    };
+  }, [convertedPortfolio, localSeriesById, seriesById, activeCurrency, baseCurrency, returnMode, selectedRange]);
+
+  // Ledgers are kept in the dataset's own currency, so attribution works on the unconverted series
+  const localSeries = convertedPortfolio ? localSeriesById[convertedPortfolio.id] : stockData;
+  const localMonthly = useMemo(
+    () => convertedPortfolio ? calculateMonthlyGrowth(localSeries, returnMode) : monthlyData,
+    [convertedPortfolio, localSeries, returnMode, monthlyData]
+  );
+
+  // Checked on the unconverted series, where a stale index is still an exact repeat
+  const tradingCalendar = customCalendar ?? DEFAULT_TRADING_CALENDAR;
+  const calendarReport = useMemo(
+    () => analyzeTradingCalendar(localSeries, tradingCalendar),
+    [localSeries, tradingCalendar]
+  );
+
+  const handleImportHolidays = (text: string, fileName: string) => {
+    const holidays = parseHolidayCSV(text);
+    if (holidays.length === 0) return;
+    setCustomCalendar({ name: fileName.replace(/\.[^.]+$/, ''), holidays });
+  };
+
+  // The analyst sees exactly what the charts show: same portfolio, window and return mode
+  const analystContext = useMemo<AnalystContext | null>(() => {
+    if (rangeData.length === 0) return null;
+    return {
+      portfolioName,
+      returnMode,
+      dateRange: selectedRange,
+      data: rangeData,
+      series: stockData,
+      risk: calculateRiskMetrics(rangeData, riskFreeRate),
+      annotations,
+      currency: baseCurrency,
+      fx: fxSplit?.range ?? null,
+      weekStart: displaySettings.weekStart
+    };
+  }, [portfolioName, returnMode, selectedRange, rangeData, stockData, riskFreeRate, annotations, baseCurrency, fxSplit, displaySettings.weekStart]);
 
   const currentMonthMetric = useMemo(() => {
      if (monthlyData.length === 0) return null;
      return monthlyData[monthlyData.length - 1];
   }, [monthlyData]);
 
+  if (!isHydrated) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center bg-zinc-950 text-zinc-500 text-sm">
+        {t('app.loading')}
+      </div>
+    );
+  }
+
   return (
-    <div className="flex h-screen w-full overflow-hidden bg-zinc-950 text-zinc-200">
+    <SettingsProvider value={ui}>
+      <div className="flex h-screen w-full overflow-hidden bg-zinc-950 text-zinc-200 print:h-auto print:overflow-visible">
       
-      {/* Main Content Area */}
-      <main className="flex-1 flex flex-col h-full overflow-hidden relative">
+        {/* Main Content Area */}
+        <main className="flex-1 flex flex-col h-full overflow-hidden relative print:h-auto print:overflow-visible">
         
-        {/* Header */}
-        <header className="px-8 py-6 flex justify-between items-center border-b border-zinc-800/50 bg-zinc-950/50 backdrop-blur-sm z-10">
-            <div>
-                <h1 className="text-2xl font-bold text-white tracking-tight flex items-center gap-2">
-                    <TrendingUp className="text-rose-500" />
-                    StockVision
-                </h1>
-                <p className="text-zinc-500 text-sm mt-1">Portfolio Performance Analytics</p>
-            </div>
+          {/* Header */}
+          <header className="px-8 py-6 flex justify-between items-center border-b border-zinc-800/50 bg-zinc-950/50 backdrop-blur-sm z-10">
+              <div>
+                  <h1 className="text-2xl font-bold text-white tracking-tight flex items-center gap-2">
+                      <TrendingUp className={palette.upText} />
+                      StockVision
+                  </h1>
+                  <p className="text-zinc-500 text-sm mt-1">
+                      {t('app.tagline')}
+                      <span className="text-zinc-600"> · {portfolioName}</span>
+                  </p>
+              </div>
             
-            <div className="flex items-center gap-3">
-                <label className="flex items-center gap-2 px-4 py-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer">
-                    <Upload size={18} />
-                    <span className="hidden sm:inline">Upload CSV</span>
-                    <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
-                </label>
-            </div>
-        </header>
+              {isReportView ? (
+                  <div className="flex items-center gap-3 no-print">
+                      <button
+                          onClick={() => window.print()}
+                          className={`flex items-center gap-2 px-4 py-2 rounded-full text-white transition-all ${palette.accentButton}`}
+                      >
+                          <Printer size={18} />
+                          <span className="hidden sm:inline">{t('app.print')}</span>
+                      </button>
+                      <button
+                          onClick={() => setIsReportView(false)}
+                          title={t('app.backToDashboard')}
+                          className="p-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                      >
+                          <X size={18} />
+                      </button>
+                  </div>
+              ) : (
+                  <div className="flex items-center gap-3 no-print">
+                      <PortfolioSwitcher
+                          portfolios={portfolios}
+                          activeId={activePortfolioId}
+                          onSelect={setActivePortfolioId}
+                          onAdd={handleAddPortfolio}
+                          onRename={(id, name) => updatePortfolio(id, { name })}
+                          onDelete={handleDeletePortfolio}
+                          currencyOptions={currencyOptions}
+                          onCurrencyChange={(id, currency) => updatePortfolio(id, { currency })}
+                      />
+                      <div className="flex items-center gap-1 bg-zinc-900 pl-3 pr-1 py-1 rounded-full border border-zinc-800 text-xs">
+                          <Coins size={14} className="text-zinc-500" />
+                          <select
+                              value={baseCurrency}
+                              onChange={(e) => setBaseCurrency(e.target.value)}
+                              title={t('app.baseCurrencyTitle')}
+                              className="bg-transparent text-zinc-200 pl-1 pr-1 py-1 focus:outline-none cursor-pointer"
+                          >
+                              {currencyOptions.map(c => <option key={c} value={c} className="bg-zinc-900">{c}</option>)}
+                          </select>
+                          <label
+                              className="px-2 py-1 rounded-full text-zinc-500 hover:text-white hover:bg-zinc-800 transition-all cursor-pointer"
+                              title={t('app.fxTitle')}
+                          >
+                              FX{fxRates.length > 0 ? ` · ${fxCurrencies(fxRates).length}` : ''}
+                              <input type="file" accept=".csv" onChange={handleFxUpload} className="hidden" />
+                          </label>
+                      </div>
+                      <div className="flex items-center bg-zinc-900 p-1 rounded-full border border-zinc-800 text-xs">
+                          {([['value', 'app.value'], ['flowAdjusted', 'app.flowAdjusted']] as const).map(([mode, label]) => (
+                              <button
+                                  key={mode}
+                                  onClick={() => setReturnMode(mode)}
+                                  className={`px-3 py-1.5 rounded-full font-medium transition-all whitespace-nowrap ${
+                                      returnMode === mode ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
+                                  }`}
+                              >
+                                  {t(label)}
+                              </button>
+                          ))}
+                      </div>
+                      {!isAggregate && (
+                          <label className="flex items-center gap-2 px-4 py-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer">
+                              <ArrowLeftRight size={18} />
+                              <span className="hidden sm:inline">{t('app.cashFlows')}</span>
+                              <input type="file" accept=".csv" onChange={handleFlowUpload} className="hidden" />
+                          </label>
+                      )}
+                      {!isAggregate && (
+                          <button
+                              onClick={() => setIsMergeOpen(true)}
+                              title={t('app.mergeTitle')}
+                              className="flex items-center gap-2 px-4 py-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                          >
+                              <GitMerge size={18} />
+                              <span className="hidden sm:inline">{t('app.merge')}</span>
+                          </button>
+                      )}
+                      {lastMergeForActive && (
+                          <button
+                              onClick={handleUndoMerge}
+                              title={t('app.undoMerge')}
+                              className="p-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                          >
+                              <Undo2 size={18} />
+                          </button>
+                      )}
+                      <AlertCenter
+                          rules={alertState.rules}
+                          events={alertState.events}
+                          targets={[
+                              ...portfolios.map(p => ({ id: p.id, name: p.name })),
+                              ...(portfolios.length > 1 ? [{ id: AGGREGATE_PORTFOLIO_ID, name: t('app.allAccounts') }] : [])
+                          ]}
+                          defaultTargetId={activePortfolioId}
+                          onAddRule={handleAddAlertRule}
+                          onToggleRule={handleToggleAlertRule}
+                          onDeleteRule={handleDeleteAlertRule}
+                          onAcknowledge={(id) => acknowledgeAlerts([id])}
+                          onAcknowledgeAll={() => acknowledgeAlerts()}
+                          onClearHistory={() => setAlertState(prev => ({ ...prev, events: [] }))}
+                      />
+                      <SettingsMenu onChange={setDisplaySettings} />
+                      <button
+                          onClick={handleResetToSample}
+                          title={t('app.reset')}
+                          className="p-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                      >
+                          <RotateCcw size={18} />
+                      </button>
+                      <label className="flex items-center gap-2 px-4 py-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer">
+                          <Upload size={18} />
+                          <span className="hidden sm:inline">{t('app.upload')}</span>
+                          <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+                      </label>
+                      <button
+                          onClick={() => setIsReportView(true)}
+                          title={t('app.report')}
+                          className="p-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+                      >
+                          <FileText size={18} />
+                      </button>
+                      <button
+                          onClick={() => setIsChatOpen(open => !open)}
+                          title={t(isChatOpen ? 'app.closeAnalyst' : 'app.askAnalyst')}
+                          className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
+                              isChatOpen
+                                  ? 'border-indigo-500/50 bg-indigo-600 text-white'
+                                  : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700'
+                          }`}
+                      >
+                          <Sparkles size={18} />
+                          <span className="hidden sm:inline">{t('app.analyst')}</span>
+                      </button>
+                  </div>
+              )}
+          </header>
 
-        {/* Scrollable Content */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth">
-          <div className="max-w-7xl mx-auto space-y-8">
+          {/* Scrollable Content */}
+          <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth print:overflow-visible">
+            <div className="max-w-7xl mx-auto space-y-8">
+
+              {unconverted.length > 0 && (
+                  <div className="flex items-start gap-2 px-4 py-3 rounded-xl border border-amber-500/30 bg-amber-500/5 text-sm text-amber-300/90 no-print">
+                      <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                      <span>
+                          {t('app.unconverted', {
+                              names: unconverted.map(p => `${p.name} (${p.currency ?? DEFAULT_CURRENCY})`).join(', '),
+                              currency: baseCurrency
+                          })}
+                      </span>
+                  </div>
+              )}
+
+              {isReportView && (
+                  <ReportSummary
+                      portfolioName={portfolioName}
+                      data={rangeData}
+                      returnMode={returnMode}
+                      riskFreeRate={riskFreeRate}
+                  />
+              )}
             
-            {/* KPI Cards - Updated Grid Layout and Colors */}
-            {metrics && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {/* Net Value Card - Split into two equal columns */}
-                    <div className="bg-zinc-900/50 rounded-xl border border-zinc-800 md:col-span-2 relative overflow-hidden grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-zinc-800">
+              {/* KPI Cards - Updated Grid Layout and Colors */}
+              {metrics && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 print-break-avoid">
+                      {/* Net Value Card - Split into two equal columns */}
+                      <div className="bg-zinc-900/50 rounded-xl border border-zinc-800 md:col-span-2 relative overflow-hidden grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-zinc-800">
                         
-                        {/* Left Column: Net Value */}
-                        <div className="p-6 relative z-10 flex flex-col justify-center">
-                            <div className="flex items-center gap-3 text-zinc-400 mb-3">
-                                <div className="p-2 bg-rose-500/10 rounded-lg text-rose-500">
-                                    <DollarSign size={20} />
-                                </div>
-                                <span className="text-sm font-medium">Net Value</span>
-                            </div>
-                            <div className="text-4xl lg:text-5xl font-bold text-white tracking-tight">
-                                {formatCurrency(metrics.current)}
-                            </div>
-                        </div>
-
-                        {/* Right Column: Current Month Growth */}
-                        {currentMonthMetric && (
-                             <div className="p-6 relative z-10 flex flex-col justify-center">
-                                <div className="flex items-center gap-3 text-zinc-400 mb-3">
-                                    <div className={`p-2 rounded-lg ${currentMonthMetric.growth >= 0 ? 'bg-rose-500/10 text-rose-500' : 'bg-emerald-500/10 text-emerald-500'}`}>
-                                        <TrendingUp size={20} />
-                                    </div>
-                                    <span className="text-sm font-medium">Current Month Growth</span>
-                                </div>
-                                <div className={`text-4xl lg:text-5xl font-bold tracking-tight flex flex-wrap items-baseline gap-x-3 gap-y-1 ${currentMonthMetric.growth >= 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
-                                    <span>
-                                        {currentMonthMetric.growth >= 0 ? '+' : ''}
-                                        {formatCurrency(currentMonthMetric.growth)}
-                                    </span>
-                                    <span className="text-lg lg:text-xl font-medium text-zinc-500">
-                                        ({currentMonthMetric.growthPercent.toFixed(2)}%)
-                                    </span>
-                                </div>
-                            </div>
-                        )}
-
-                        {/* Decorative background element */}
-                        <div className="absolute top-0 right-0 h-full w-full bg-gradient-to-l from-rose-500/5 via-transparent to-transparent pointer-events-none" />
-                    </div>
-
-                    {/* Total Return */}
-                    <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
-                         <div className="flex items-center gap-3 text-zinc-400 mb-2">
-                            <div className="p-2 bg-blue-500/10 rounded-lg text-blue-500">
-                                <TrendingUp size={20} />
-                            </div>
-                            <span className="text-sm font-medium">Total Return</span>
-                        </div>
-                         {/* Swapped Colors: Rose for Positive, Emerald for Negative */}
-                         <div className={`text-3xl font-semibold tracking-tight ${metrics.diff >= 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
-                            {metrics.diff >= 0 ? '+' : ''}{metrics.percent}%
-                            <span className="text-sm text-zinc-500 ml-2 font-normal">
-                                ({metrics.diff >= 0 ? '+' : ''}{formatCurrency(metrics.diff)})
-                            </span>
-                        </div>
-                    </div>
-
-                    {/* All Time High */}
-                    <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
-                        <div className="flex items-center gap-3 text-zinc-400 mb-2">
-                             <div className="p-2 bg-purple-500/10 rounded-lg text-purple-500">
-                                <Calendar size={20} />
-                            </div>
-                            <span className="text-sm font-medium">All Time High</span>
-                        </div>
-                        <div className="text-3xl font-semibold text-white tracking-tight">
-                             {formatCurrency(metrics.maxVal)}
-                        </div>
-                    </div>
-                </div>
-            )}
-
-            {/* Charts Section */}
-            <div className="w-full">
-                 <StockCharts data={stockData} monthlyData={monthlyData} />
-            </div>
+                          {/* Left Column: Net Value */}
+                          <div className="p-6 relative z-10 flex flex-col justify-center">
+                              <div className="flex items-center gap-3 text-zinc-400 mb-3">
+                                  <div className={`p-2 rounded-lg ${palette.upSoft}`}>
+                                      <DollarSign size={20} />
+                                  </div>
+                                  <span className="text-sm font-medium">{t('app.netValue')}</span>
+                              </div>
+                              <div className="text-4xl lg:text-5xl font-bold text-white tracking-tight">
+                                  {formatCurrency(metrics.current)}
+                              </div>
+                          </div>
+
+                          {/* Right Column: Current Month Growth */}
+                          {currentMonthMetric && (
+                               <div className="p-6 relative z-10 flex flex-col justify-center">
+                                  <div className="flex items-center gap-3 text-zinc-400 mb-3">
+                                      <div className={`p-2 rounded-lg ${currentMonthMetric.growth >= 0 ? palette.upSoft : palette.downSoft}`}>
+                                          <TrendingUp size={20} />
+                                      </div>
+                                      <span className="text-sm font-medium">{t('app.currentMonth')}</span>
+                                  </div>
+                                  <div className={`text-4xl lg:text-5xl font-bold tracking-tight flex flex-wrap items-baseline gap-x-3 gap-y-1 ${currentMonthMetric.growth >= 0 ? palette.upText : palette.downText}`}>
+                                      <span>
+                                          {currentMonthMetric.growth >= 0 ? '+' : ''}
+                                          {formatCurrency(currentMonthMetric.growth)}
+                                      </span>
+                                      <span className="text-lg lg:text-xl font-medium text-zinc-500">
+                                          ({currentMonthMetric.growthPercent.toFixed(2)}%)
+                                      </span>
+                                  </div>
+                              </div>
+                          )}
 
+                          {/* Decorative background element */}
+                          <div className={`absolute top-0 right-0 h-full w-full bg-gradient-to-l ${palette.accentGlow} via-transparent to-transparent pointer-events-none`} />
+                      </div>
+
+                      {/* Total Return */}
+                      <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
+                           <div className="flex items-center gap-3 text-zinc-400 mb-2">
+                              <div className="p-2 bg-blue-500/10 rounded-lg text-blue-500">
+                                  <TrendingUp size={20} />
+                              </div>
+                              <span className="text-sm font-medium">
+                                  {t(returnMode === 'flowAdjusted' ? 'app.totalReturnTwr' : 'app.totalReturn')}
+                              </span>
+                          </div>
+                           <div className={`text-3xl font-semibold tracking-tight ${metrics.diff >= 0 ? palette.upText : palette.downText}`}>
+                              {metrics.diff >= 0 ? '+' : ''}{metrics.percent}%
+                              <span className="text-sm text-zinc-500 ml-2 font-normal">
+                                  ({metrics.diff >= 0 ? '+' : ''}{formatCurrency(metrics.diff)})
+                              </span>
+                          </div>
+                          {returnMode === 'flowAdjusted' && (
+                              <div className="text-xs text-zinc-500 mt-2 flex gap-4">
+                                  <span>
+                                      {t('app.xirr', { value: metrics.returns.mwrPercent !== null ? `${metrics.returns.mwrPercent.toFixed(2)}%` : '-' })}
+                                  </span>
+                                  <span>{t('app.netFlows', { value: formatCurrency(metrics.returns.netFlows) })}</span>
+                              </div>
+                          )}
+                          {fxSplit?.full && (
+                              <div className="text-xs text-zinc-500 mt-2 flex gap-4" title={t('app.fxSplitTitle', { local: fxSplit.full.localCurrency, base: fxSplit.full.baseCurrency })}>
+                                  <span>
+                                      {t('app.localMarket')} <span className={fxSplit.full.localPercent >= 0 ? palette.upText : palette.downText}>
+                                          {fxSplit.full.localPercent >= 0 ? '+' : ''}{fxSplit.full.localPercent.toFixed(2)}%
+                                      </span>
+                                  </span>
+                                  <span>
+                                      {t('app.fx')} <span className={fxSplit.full.fxPercent >= 0 ? palette.upText : palette.downText}>
+                                          {fxSplit.full.fxPercent >= 0 ? '+' : ''}{fxSplit.full.fxPercent.toFixed(2)}%
+                                      </span>
+                                  </span>
+                              </div>
+                          )}
+                      </div>
+
+                      {/* All Time High */}
+                      <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800">
+                          <div className="flex items-center gap-3 text-zinc-400 mb-2">
+                               <div className="p-2 bg-purple-500/10 rounded-lg text-purple-500">
+                                  <Calendar size={20} />
+                              </div>
+                              <span className="text-sm font-medium">{t('app.allTimeHigh')}</span>
+                          </div>
+                          <div className="text-3xl font-semibold text-white tracking-tight">
+                               {formatCurrency(metrics.maxVal)}
+                          </div>
+                      </div>
+
+                      {/* Allocation drift against the target bands */}
+                      {allocationDrift && (
+                          <div className="bg-zinc-900/50 p-6 rounded-xl border border-zinc-800 md:col-span-2">
+                              <div className="flex items-center gap-3 text-zinc-400 mb-3">
+                                  <div className={`p-2 rounded-lg ${allocationDrift.outside.length > 0 ? 'bg-amber-500/10 text-amber-400' : 'bg-sky-500/10 text-sky-400'}`}>
+                                      <PieChart size={20} />
+                                  </div>
+                                  <span className="text-sm font-medium">{t('app.allocationDrift')}</span>
+                                  <span className="text-xs text-zinc-500 font-mono">{formatDisplayDate(allocationDrift.date)}</span>
+                              </div>
+                              {allocationDrift.outside.length === 0 ? (
+                                  <div className="text-sm text-zinc-300">
+                                      {t('app.withinBands', { count: allocationDrift.drift.length })}
+                                  </div>
+                              ) : (
+                                  <div className="flex flex-wrap gap-2">
+                                      {allocationDrift.outside.map(d => (
+                                          <span key={d.target.id} className="px-2.5 py-1 rounded-full bg-amber-500/10 text-amber-300 text-xs font-mono">
+                                              {t('app.driftChip', {
+                                                  key: d.target.key,
+                                                  actual: d.actual.toFixed(1),
+                                                  target: d.target.target,
+                                                  drift: `${d.drift >= 0 ? '+' : ''}${d.drift.toFixed(1)}`
+                                              })}
+                                          </span>
+                                      ))}
+                                  </div>
+                              )}
+                          </div>
+                      )}
+                  </div>
+              )}
+
+              {stockData.length > 0 && (
+                  <AnalystBrief
+                      provider={llmProvider}
+                      portfolioName={portfolioName}
+                      series={stockData}
+                      returnMode={returnMode}
+                  />
+              )}
+
+              {/* Charts Section */}
+              <div className="w-full">
+                   <StockCharts
+                      data={stockData}
+                      returnMode={returnMode}
+                      key={workspaceKey}
+                      initialRangeState={chartRange}
+                      onRangeChange={setChartRange}
+                      comparisonSeries={comparisonSeries.length > 1 ? comparisonSeries : undefined}
+                      annotations={annotations}
+                      onAddAnnotation={editableAnnotations ? (draft) => addAnnotation(draft, 'user') : undefined}
+                      onUpdateAnnotation={editableAnnotations ? handleUpdateAnnotation : undefined}
+                      onDeleteAnnotation={editableAnnotations ? handleDeleteAnnotation : undefined}
+                      gaps={calendarReport.gaps}
+                   />
+              </div>
+
+              {/* What the portfolio holds, for portfolios with holdings snapshots */}
+              {activePortfolio && !isAggregate && (!isReportView || activePortfolio.holdings) && (
+                  <AllocationPanel
+                      snapshots={activePortfolio.holdings}
+                      targets={allocationTargets}
+                      onImport={handleImportHoldings}
+                      onClear={() => updatePortfolio(activePortfolio.id, { holdings: undefined })}
+                      onAddTarget={handleAddAllocationTarget}
+                      onDeleteTarget={handleDeleteAllocationTarget}
+                      currency={activeCurrency}
+                  />
+              )}
+
+              {/* Risk Analytics for the selected chart window */}
+              <RiskPanel data={rangeData} riskFreeRate={riskFreeRate} onRiskFreeRateChange={setRiskFreeRate} />
+
+              {/* Calendar of monthly returns over the full history */}
+              <ReturnsHeatmap data={stockData} returnMode={returnMode} />
+
+              {/* Per-holding contributions, for portfolios with a transactions ledger */}
+              {activePortfolio && !isAggregate && (!isReportView || activePortfolio.ledger) && (
+                  <AttributionPanel
+                      data={localSeries}
+                      monthly={localMonthly}
+                      returnMode={returnMode}
+                      ledger={activePortfolio.ledger}
+                      currency={activeCurrency}
+                      onImportTransactions={(text) => updateLedger({ transactions: parseTransactionsCSV(text) })}
+                      onImportPrices={(text) => updateLedger({ prices: parsePriceCSV(text) })}
+                      onClear={() => updatePortfolio(activePortfolio.id, { ledger: undefined })}
+                  />
+              )}
+
+              {/* Missing trading days, rows on closed days and stale index values */}
+              {!isReportView && stockData.length > 0 && (
+                  <DataQualityPanel
+                      report={calendarReport}
+                      calendar={tradingCalendar}
+                      defaultCalendarName={customCalendar ? DEFAULT_TRADING_CALENDAR.name : undefined}
+                      onImportHolidays={handleImportHolidays}
+                      onResetCalendar={() => setCustomCalendar(undefined)}
+                  />
+              )}
+
+            </div>
           </div>
-        </div>
-      </main>
-    </div>
+        </main>
+
+        {/* Analyst chat follows the active portfolio and chart window */}
+        <ChatBot
+          provider={llmProvider}
+          context={analystContext}
+          historyKey={activePortfolioId}
+          isOpen={isChatOpen && !isReportView}
+          onClose={() => setIsChatOpen(false)}
+          onPinInsight={editableAnnotations ? (pin) => addAnnotation(pin, 'analyst') : undefined}
+          annotations={annotations}
+        />
+
+        {isMergeOpen && activePortfolio && (
+          <MergeDialog
+            portfolioName={activePortfolio.name}
+            existing={mergeBase}
+            currency={activeCurrency}
+            onApply={handleApplyMerge}
+            onCancel={() => setIsMergeOpen(false)}
+          />
+        )}
+
+        {pendingImport && (
+          <ImportReportDialog
+            fileName={pendingImport.fileName}
+            csvText={pendingImport.text}
+            options={pendingImport.options}
+            onOptionsChange={(options) => setPendingImport(prev => prev && { ...prev, options })}
+            confirmLabel={pendingImport.target === 'new' ? t('app.addPortfolio') : activePortfolio ? t('app.replaceNamed', { name: activePortfolio.name }) : undefined}
+            onConfirm={confirmImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+      </div>
+    </SettingsProvider>
   );
 };
 
@@ -0,0 +1,186 @@
+import {
+  AllocationDimension,
+  AllocationDrift,
+  AllocationSlice,
+  AllocationTarget,
+  ConcentrationMetrics,
+  HoldingRecord,
+  HoldingsImport,
+  HoldingsSnapshot,
+  ImportIssue,
+  PriceQuote,
+  RejectedRow
+} from './types';
+import {
+  COLUMN_ALIASES,
+  detectDateFormat,
+  detectDecimalSeparator,
+  detectDelimiter,
+  findAliasColumn,
+  formatCanonicalDate,
+  normalizeCSVText,
+  parseDateString,
+  parseLocaleNumber,
+  splitDelimitedLine
+} from './csvImport';
+import { LEDGER_ALIASES } from './ledger';
+
+const HOLDING_ALIASES = {
+  sector: ['sector', 'industry', '產業', '類股'],
+  assetClass: ['asset class', 'asset_class', 'assetclass', 'class', 'asset type', '資產類別']
+};
+
+export const UNCLASSIFIED = 'Unclassified';
+export const OTHER_SLICE = 'Other';
+
+const latestQuote = (prices: PriceQuote[], symbol: string, date: Date) => {
+  let close: number | undefined;
+  prices.forEach(q => {
+    if (q.symbol === symbol && q.dateObj.getTime() <= date.getTime()) close = q.close;
+  });
+  return close;
+};
+
+// date,symbol,value (or quantity with a price column), plus optional sector and asset class.
+// Rows with only a quantity are valued from `prices` (e.g. the ledger's price file). Rows that
+// cannot be read are returned with a reason, like the dataset import report.
+export const parseHoldingsCSV = (text: string, prices: PriceQuote[] = []): HoldingsImport => {
+  const lines = normalizeCSVText(text).split('\n');
+  if (lines.filter(l => l.trim() !== '').length < 2) {
+    return { snapshots: [], rejected: [], warnings: [{ code: 'tooFewLines' }] };
+  }
+  const delimiter = detectDelimiter(lines.filter(l => l.trim() !== ''));
+  const headers = splitDelimitedLine(lines[0], delimiter);
+  const rows = lines.slice(1).map(line => splitDelimitedLine(line, delimiter));
+
+  const dateCol = findAliasColumn(headers, COLUMN_ALIASES.date) ?? 0;
+  const symbolCol = findAliasColumn(headers, LEDGER_ALIASES.symbol);
+  const valueCol = findAliasColumn(headers, COLUMN_ALIASES.value);
+  const quantityCol = findAliasColumn(headers, LEDGER_ALIASES.quantity);
+  const priceCol = findAliasColumn(headers, LEDGER_ALIASES.price);
+  const sectorCol = findAliasColumn(headers, HOLDING_ALIASES.sector);
+  const assetClassCol = findAliasColumn(headers, HOLDING_ALIASES.assetClass);
+  if (symbolCol === null) {
+    return { snapshots: [], rejected: [], warnings: [{ code: 'noSymbolColumn', params: { header: headers.join(delimiter) } }] };
+  }
+  if (valueCol === null && quantityCol === null) {
+    return { snapshots: [], rejected: [], warnings: [{ code: 'noValueColumn' }] };
+  }
+
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const numberCols = [valueCol, quantityCol, priceCol].filter((c): c is number => c !== null);
+  const decimalSeparator = detectDecimalSeparator(rows.flatMap(r => numberCols.map(c => r[c] ?? '')));
+  const numberAt = (fields: string[], col: number | null) => col === null ? undefined : parseLocaleNumber(fields[col], decimalSeparator);
+  const textAt = (fields: string[], col: number | null) => (col === null ? '' : fields[col] ?? '').trim() || UNCLASSIFIED;
+
+  const rejected: RejectedRow[] = [];
+  const byDate = new Map<string, HoldingsSnapshot>();
+  rows.forEach((fields, i) => {
+    const raw = lines[i + 1];
+    if (raw.trim() === '') return;
+    const reject = (reason: ImportIssue) => rejected.push({ line: i + 2, raw, reason });
+
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    if (!dateObj) return reject({ code: 'badDate', params: { text: fields[dateCol] ?? '' } });
+    const symbol = (fields[symbolCol] ?? '').trim().toUpperCase();
+    if (!symbol) return reject({ code: 'missingSymbol' });
+
+    const quantity = numberAt(fields, quantityCol);
+    const price = numberAt(fields, priceCol) ?? (quantity !== undefined ? latestQuote(prices, symbol, dateObj) : undefined);
+    const value = numberAt(fields, valueCol) ?? (quantity !== undefined && price !== undefined ? quantity * price : undefined);
+    if (value === undefined) {
+      return reject(quantity !== undefined ? { code: 'noPrice', params: { symbol } } : { code: 'missingValue' });
+    }
+
+    const date = formatCanonicalDate(dateObj);
+    if (!byDate.has(date)) byDate.set(date, { date, dateObj, holdings: [], total: 0 });
+    const snapshot = byDate.get(date)!;
+    snapshot.holdings.push({ symbol, quantity, value, sector: textAt(fields, sectorCol), assetClass: textAt(fields, assetClassCol) });
+    snapshot.total += value;
+  });
+
+  return {
+    snapshots: [...byDate.values()].sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime()),
+    rejected,
+    warnings: []
+  };
+};
+
+// A re-imported date replaces the stored snapshot for it; other dates are kept
+export const mergeHoldingsSnapshots = (existing: HoldingsSnapshot[], incoming: HoldingsSnapshot[]): HoldingsSnapshot[] => {
+  const incomingDates = new Set(incoming.map(s => s.date));
+  return [...existing.filter(s => !incomingDates.has(s.date)), ...incoming]
+    .sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+const dimensionKey = (holding: HoldingRecord, dimension: AllocationDimension) =>
+  dimension === 'symbol' ? holding.symbol : dimension === 'sector' ? holding.sector : holding.assetClass;
+
+// Weights by symbol, sector or asset class, largest first
+export const allocationBreakdown = (snapshot: HoldingsSnapshot, dimension: AllocationDimension): AllocationSlice[] => {
+  const values = new Map<string, number>();
+  snapshot.holdings.forEach(h => {
+    const key = dimensionKey(h, dimension);
+    values.set(key, (values.get(key) ?? 0) + h.value);
+  });
+  return [...values.entries()]
+    .map(([key, value]) => ({ key, value, weight: snapshot.total !== 0 ? (value / snapshot.total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value);
+};
+
+// Keeps the `max - 1` largest slices and sums the rest into "Other"
+export const groupSmallSlices = (slices: AllocationSlice[], max: number): AllocationSlice[] => {
+  if (slices.length <= max) return slices;
+  const rest = slices.slice(max - 1);
+  return [
+    ...slices.slice(0, max - 1),
+    { key: OTHER_SLICE, value: rest.reduce((acc, s) => acc + s.value, 0), weight: rest.reduce((acc, s) => acc + s.weight, 0) }
+  ];
+};
+
+export const calculateConcentration = (snapshot: HoldingsSnapshot): ConcentrationMetrics => {
+  const slices = allocationBreakdown(snapshot, 'symbol');
+  const topWeight = (n: number) => slices.slice(0, n).reduce((acc, s) => acc + s.weight, 0);
+  const herfindahl = slices.reduce((acc, s) => acc + s.weight * s.weight, 0);
+  return {
+    holdings: slices.length,
+    top1: topWeight(1),
+    top5: topWeight(5),
+    top10: topWeight(10),
+    herfindahl,
+    effectiveHoldings: herfindahl > 0 ? 10000 / herfindahl : 0
+  };
+};
+
+// Weight of each key in every snapshot, for a stacked chart. Keys are the largest slices of the
+// latest snapshot; anything else (including keys that were sold out of) lands in "Other".
+export const allocationHistory = (snapshots: HoldingsSnapshot[], dimension: AllocationDimension, maxKeys: number) => {
+  if (snapshots.length === 0) return { keys: [] as string[], rows: [] as Record<string, string | number>[] };
+  const latest = allocationBreakdown(snapshots[snapshots.length - 1], dimension);
+  const keys = groupSmallSlices(latest, maxKeys).map(s => s.key).filter(k => k !== OTHER_SLICE);
+
+  let hasOther = false;
+  const rows = snapshots.map(snapshot => {
+    const row: Record<string, string | number> = { date: snapshot.date };
+    keys.forEach(k => { row[k] = 0; });
+    let other = 0;
+    allocationBreakdown(snapshot, dimension).forEach(slice => {
+      if (keys.includes(slice.key)) row[slice.key] = slice.weight;
+      else other += slice.weight;
+    });
+    if (other > 0) hasOther = true;
+    row[OTHER_SLICE] = other;
+    return row;
+  });
+  return { keys: hasOther ? [...keys, OTHER_SLICE] : keys, rows };
+};
+
+export const calculateAllocationDrift = (snapshot: HoldingsSnapshot, targets: AllocationTarget[]): AllocationDrift[] => {
+  const breakdowns: Partial<Record<AllocationDimension, AllocationSlice[]>> = {};
+  return targets.map(target => {
+    const slices = breakdowns[target.dimension] ??= allocationBreakdown(snapshot, target.dimension);
+    const actual = slices.find(s => s.key === target.key)?.weight ?? 0;
+    const drift = actual - target.target;
+    return { target, actual, drift, isOutsideBand: Math.abs(drift) > target.band };
+  });
+};
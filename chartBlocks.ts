@@ -0,0 +1,116 @@
+import { ChartBlockSpec, StockDataPoint, ReturnMode } from './types';
+import { parseDateString } from './csvImport';
+import { rebaseSeries, calculateDrawdownSeries } from './utils';
+
+// Fence language that marks a chart block in a reply
+export const CHART_BLOCK_LANGUAGE = 'chart';
+
+const METRICS: ChartBlockSpec['metric'][] = ['value', 'return', 'drawdown'];
+const SERIES: ChartBlockSpec['series'][] = ['portfolio', 'index', 'both'];
+
+export interface ChartBlockRow {
+  date: string;
+  portfolio?: number;
+  index?: number;
+}
+
+export interface ChartBlockData {
+  rows: ChartBlockRow[];
+  // Portfolio values are dollars and index values are points for the 'value' metric, otherwise both are percent
+  metric: ChartBlockSpec['metric'];
+  hasPortfolio: boolean;
+  hasIndex: boolean;
+}
+
+type Result<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const readDate = (raw: unknown, key: string): Result<Date | undefined> => {
+  if (raw === undefined || raw === null || raw === '') return { ok: true, value: undefined };
+  const date = typeof raw === 'string' ? parseDateString(raw, 'YMD') : null;
+  return date ? { ok: true, value: date } : { ok: false, error: `"${key}" is not a YYYY/M/D date` };
+};
+
+// Validate the JSON body of a chart block; the model only picks what to show, never the numbers
+export const parseChartBlock = (source: string): Result<ChartBlockSpec> => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return { ok: false, error: 'the chart spec is not valid JSON' };
+  }
+  if (!raw || typeof raw !== 'object') return { ok: false, error: 'the chart spec must be an object' };
+
+  const metric = (raw.metric ?? 'value') as ChartBlockSpec['metric'];
+  const series = (raw.series ?? 'portfolio') as ChartBlockSpec['series'];
+  if (!METRICS.includes(metric)) return { ok: false, error: `"metric" must be one of ${METRICS.join(', ')}` };
+  if (!SERIES.includes(series)) return { ok: false, error: `"series" must be one of ${SERIES.join(', ')}` };
+
+  for (const key of ['start', 'end']) {
+    const date = readDate(raw[key], key);
+    if (!date.ok) return date;
+  }
+
+  return {
+    ok: true,
+    value: {
+      metric,
+      series,
+      start: typeof raw.start === 'string' ? raw.start : undefined,
+      end: typeof raw.end === 'string' ? raw.end : undefined,
+      title: typeof raw.title === 'string' ? raw.title : undefined
+    }
+  };
+};
+
+export const buildChartBlockData = (
+  spec: ChartBlockSpec,
+  series: StockDataPoint[],
+  returnMode: ReturnMode = 'value'
+): Result<ChartBlockData> => {
+  const start = readDate(spec.start, 'start');
+  const end = readDate(spec.end, 'end');
+  if (!start.ok) return start;
+  if (!end.ok) return end;
+
+  const inRange = (d: StockDataPoint) =>
+    (!start.value || d.dateObj >= start.value) && (!end.value || d.dateObj <= end.value);
+  const points = series.filter(inRange);
+  if (points.length < 2) return { ok: false, error: 'fewer than two trading days in that range' };
+
+  const wantPortfolio = spec.series !== 'index';
+  const wantIndex = spec.series !== 'portfolio' && points.some(d => d.index !== undefined);
+  if (!wantPortfolio && !wantIndex) return { ok: false, error: 'there is no market index data in that range' };
+
+  let rows: ChartBlockRow[];
+  if (spec.metric === 'return') {
+    // Rebased to the first day of the range, like the dashboard's "Rebased %" mode
+    rows = rebaseSeries(points, returnMode === 'flowAdjusted').map(p => ({
+      date: p.date,
+      portfolio: p.portfolioReturn,
+      index: p.indexReturn
+    }));
+  } else if (spec.metric === 'drawdown') {
+    // Peaks come from the full history so the numbers match the underwater chart
+    rows = calculateDrawdownSeries(series).filter(inRange).map(p => ({
+      date: p.date,
+      portfolio: p.drawdown,
+      index: p.indexDrawdown
+    }));
+  } else {
+    rows = points.map(p => ({ date: p.date, portfolio: p.value, index: p.index }));
+  }
+
+  return {
+    ok: true,
+    value: {
+      rows: rows.map(row => ({
+        date: row.date,
+        portfolio: wantPortfolio ? row.portfolio : undefined,
+        index: wantIndex ? row.index : undefined
+      })),
+      metric: spec.metric,
+      hasPortfolio: wantPortfolio,
+      hasIndex: wantIndex
+    }
+  };
+};
@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, BellRing, Check, CheckCheck, Plus, Trash2 } from 'lucide-react';
+import { AlertEvent, AlertPeriod, AlertRule, AlertRuleDraft, AlertRuleKind } from '../types';
+import { ALERT_PERIODS, describeEvent, describeRule, notificationsSupported } from '../services/alertRules';
+import { TranslationKey } from '../i18n';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface AlertCenterProps {
+  rules: AlertRule[];
+  // Newest first
+  events: AlertEvent[];
+  // Portfolios a rule can watch, including the combined view when there is one
+  targets: { id: string; name: string }[];
+  // Preselected in the new-rule form
+  defaultTargetId: string;
+  onAddRule: (draft: AlertRuleDraft) => void;
+  onToggleRule: (id: string) => void;
+  onDeleteRule: (id: string) => void;
+  onAcknowledge: (id: string) => void;
+  onAcknowledgeAll: () => void;
+  onClearHistory: () => void;
+}
+
+const KIND_OPTIONS: { kind: AlertRuleKind; label: TranslationKey; unit: string; placeholder: string }[] = [
+  { kind: 'valueBelow', label: 'alerts.valueBelow', unit: 'currency', placeholder: '30000000' },
+  { kind: 'valueAbove', label: 'alerts.valueAbove', unit: 'currency', placeholder: '40000000' },
+  { kind: 'dailyDrop', label: 'alerts.dailyDrop', unit: '%', placeholder: '3' },
+  { kind: 'drawdown', label: 'alerts.drawdown', unit: '%', placeholder: '10' },
+  { kind: 'underperformIndex', label: 'alerts.underperform', unit: '%', placeholder: '5' }
+];
+
+const RuleForm: React.FC<{
+  targets: AlertCenterProps['targets'];
+  defaultTargetId: string;
+  onSave: (draft: AlertRuleDraft) => void;
+  onCancel: () => void;
+}> = ({ targets, defaultTargetId, onSave, onCancel }) => {
+  const { t } = useSettings();
+  const { currencySymbol } = useFormatters();
+  const [portfolioId, setPortfolioId] = useState(defaultTargetId);
+  const [kind, setKind] = useState<AlertRuleKind>('dailyDrop');
+  const [threshold, setThreshold] = useState('');
+  const [period, setPeriod] = useState<AlertPeriod>('1M');
+
+  const option = KIND_OPTIONS.find(o => o.kind === kind)!;
+  // Percent thresholds are entered as positive magnitudes; "-3" reads the same as "3"
+  const parsed = Math.abs(parseFloat(threshold));
+  const canSave = !isNaN(parsed) && parsed > 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({ portfolioId, kind, threshold: parsed, period: kind === 'underperformIndex' ? period : undefined });
+  };
+
+  const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500 [color-scheme:dark]';
+
+  return (
+    <div className="space-y-2 text-xs p-3 rounded-lg bg-zinc-800/50 border border-zinc-700">
+      {targets.length > 1 && (
+        <select value={portfolioId} onChange={(e) => setPortfolioId(e.target.value)} className={`w-full ${inputClass}`}>
+          {targets.map(target => <option key={target.id} value={target.id}>{target.name}</option>)}
+        </select>
+      )}
+      <div className="flex items-center gap-2">
+        <select value={kind} onChange={(e) => setKind(e.target.value as AlertRuleKind)} className={`flex-1 min-w-0 ${inputClass}`}>
+          {KIND_OPTIONS.map(o => <option key={o.kind} value={o.kind}>{t(o.label)}</option>)}
+        </select>
+        <input
+          type="number"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={option.placeholder}
+          className={`w-28 text-right font-mono ${inputClass}`}
+          autoFocus
+        />
+        <span className="text-zinc-500 min-w-3">{option.unit === 'currency' ? currencySymbol() : option.unit}</span>
+      </div>
+      {kind === 'underperformIndex' && (
+        <div className="flex items-center gap-2 text-zinc-400">
+          <span>{t('alerts.overLast')}</span>
+          <select value={period} onChange={(e) => setPeriod(e.target.value as AlertPeriod)} className={inputClass}>
+            {ALERT_PERIODS.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-2 py-1 text-zinc-400 hover:text-white">{t('common.cancel')}</button>
+        <button onClick={handleSave} disabled={!canSave} className="px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50">
+          {t('alerts.addRule')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const AlertCenter: React.FC<AlertCenterProps> = ({
+  rules,
+  events,
+  targets,
+  defaultTargetId,
+  onAddRule,
+  onToggleRule,
+  onDeleteRule,
+  onAcknowledge,
+  onAcknowledgeAll,
+  onClearHistory
+}) => {
+  const { t } = useSettings();
+  const formatters = useFormatters();
+  const { formatDisplayDate } = formatters;
+  const [isOpen, setIsOpen] = useState(false);
+  const [tab, setTab] = useState<'history' | 'rules'>('history');
+  const [isAdding, setIsAdding] = useState(false);
+  const [permission, setPermission] = useState(() => notificationsSupported() ? Notification.permission : 'denied');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const unacknowledged = events.filter(e => !e.acknowledgedAt).length;
+  const targetName = (id: string) => targets.find(target => target.id === id)?.name ?? t('alerts.deletedPortfolio');
+
+  const handleEnableNotifications = async () => {
+    try {
+      setPermission(await Notification.requestPermission());
+    } catch (error) {
+      console.error('Notification permission request failed', error);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title={t('alerts.title')}
+        className={`relative p-2 rounded-full border transition-all ${
+          unacknowledged > 0
+            ? 'border-amber-500/40 bg-amber-500/10 text-amber-300'
+            : 'border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700'
+        }`}
+      >
+        {unacknowledged > 0 ? <BellRing size={18} /> : <Bell size={18} />}
+        {unacknowledged > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-zinc-950 text-[10px] font-bold flex items-center justify-center">
+            {unacknowledged > 99 ? '99+' : unacknowledged}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl z-30 text-sm flex flex-col max-h-[70vh]">
+          <div className="flex items-center gap-1 p-2 border-b border-zinc-800">
+            {(['history', 'rules'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  tab === option ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {option === 'history'
+                  ? `${t('alerts.history')}${unacknowledged > 0 ? ` (${unacknowledged})` : ''}`
+                  : t('alerts.rules', { count: rules.length })}
+              </button>
+            ))}
+            {tab === 'history' && unacknowledged > 0 && (
+              <button onClick={onAcknowledgeAll} title={t('alerts.acknowledgeAll')} className="ml-auto p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800">
+                <CheckCheck size={14} />
+              </button>
+            )}
+            {tab === 'rules' && (
+              <button
+                onClick={() => setIsAdding(true)}
+                disabled={isAdding}
+                title={t('alerts.addRule')}
+                className="ml-auto p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+              >
+                <Plus size={14} />
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {tab === 'history' && (
+              <>
+                {events.length === 0 && (
+                  <p className="text-xs text-zinc-600 p-2">
+                    {t('alerts.noEvents')}
+                  </p>
+                )}
+                {events.map(event => (
+                  <div
+                    key={event.id}
+                    className={`group flex items-start gap-2 px-2 py-1.5 rounded-lg ${event.acknowledgedAt ? 'opacity-60' : 'bg-amber-500/5'}`}
+                  >
+                    <span className={`mt-1.5 w-1.5 h-1.5 rounded-full shrink-0 ${event.acknowledgedAt ? 'bg-zinc-600' : 'bg-amber-400'}`}></span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 text-[11px] text-zinc-500">
+                        <span className="font-mono">{formatDisplayDate(event.date)}</span>
+                        <span className="truncate">{event.portfolioName}</span>
+                      </div>
+                      <div className="text-xs text-zinc-200 break-words">{describeEvent(event, t, formatters)}</div>
+                    </div>
+                    {!event.acknowledgedAt && (
+                      <button
+                        onClick={() => onAcknowledge(event.id)}
+                        title={t('alerts.acknowledge')}
+                        className="p-1 text-zinc-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <Check size={12} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+
+            {tab === 'rules' && (
+              <>
+                {isAdding && (
+                  <RuleForm
+                    targets={targets}
+                    defaultTargetId={defaultTargetId}
+                    onSave={(draft) => {
+                      onAddRule(draft);
+                      setIsAdding(false);
+                    }}
+                    onCancel={() => setIsAdding(false)}
+                  />
+                )}
+                {rules.length === 0 && !isAdding && (
+                  <p className="text-xs text-zinc-600 p-2">
+                    {t('alerts.noRules')}
+                  </p>
+                )}
+                {rules.map(rule => (
+                  <div key={rule.id} className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-zinc-800/50">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onToggleRule(rule.id)}
+                      title={t(rule.enabled ? 'alerts.pause' : 'alerts.resume')}
+                      className="accent-amber-500"
+                    />
+                    <div className={`flex-1 min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                      <div className="text-xs text-zinc-200">{describeRule(rule, t, formatters)}</div>
+                      <div className="text-[11px] text-zinc-500 truncate">{targetName(rule.portfolioId)}</div>
+                    </div>
+                    <button
+                      onClick={() => onDeleteRule(rule.id)}
+                      title={t('alerts.deleteRule')}
+                      className="p-1 text-zinc-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-zinc-800 text-[11px] text-zinc-500">
+            {permission === 'granted' && <span>{t('alerts.notificationsOn')}</span>}
+            {permission === 'denied' && <span>{t('alerts.notificationsUnavailable')}</span>}
+            {permission === 'default' && (
+              <button onClick={handleEnableNotifications} className="text-indigo-400 hover:text-indigo-300">
+                {t('alerts.enableNotifications')}
+              </button>
+            )}
+            {tab === 'history' && events.length > 0 && (
+              <button onClick={onClearHistory} className="hover:text-white">{t('alerts.clearHistory')}</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
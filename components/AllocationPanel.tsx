@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, Cell, Pie, PieChart, ResponsiveContainer, Tooltip, Treemap, XAxis, YAxis } from 'recharts';
+import { AlertTriangle, Layers, Plus, Trash2, X } from 'lucide-react';
+import { AllocationDimension, AllocationTarget, HoldingsImport, HoldingsSnapshot } from '../types';
+import {
+  OTHER_SLICE,
+  allocationBreakdown,
+  allocationHistory,
+  calculateAllocationDrift,
+  calculateConcentration,
+  groupSmallSlices
+} from '../allocation';
+import { describeImportIssue } from '../csvImport';
+import { ALLOCATION_COLORS } from '../constants';
+import { TranslationKey } from '../i18n';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface AllocationPanelProps {
+  // Oldest first; unset until a holdings file has been imported
+  snapshots?: HoldingsSnapshot[];
+  targets: AllocationTarget[];
+  // Returns what was read, so skipped rows can be shown next to the button
+  onImport: (text: string) => HoldingsImport | null;
+  onClear: () => void;
+  onAddTarget: (target: Omit<AllocationTarget, 'id'>) => void;
+  onDeleteTarget: (id: string) => void;
+  // Holdings are valued in the dataset's own currency
+  currency: string;
+}
+
+const DIMENSION_OPTIONS: [AllocationDimension, TranslationKey][] = [
+  ['symbol', 'allocation.symbol'],
+  ['sector', 'allocation.sector'],
+  ['assetClass', 'allocation.assetClass']
+];
+
+// Slices shown before the rest is grouped into "Other"
+const MAX_SLICES = ALLOCATION_COLORS.length;
+// Skipped rows listed after an import before the rest is counted
+const MAX_ISSUES_SHOWN = 5;
+
+const sliceColor = (key: string, index: number) =>
+  key === OTHER_SLICE ? ALLOCATION_COLORS[ALLOCATION_COLORS.length - 1] : ALLOCATION_COLORS[index % (ALLOCATION_COLORS.length - 1)];
+
+const SliceTooltip = ({ active, payload, currency }: any) => {
+  const { formatCurrency } = useFormatters();
+  if (!active || !payload || payload.length === 0) return null;
+  const slice = payload[0].payload;
+  return (
+    <div className="bg-zinc-900 border border-zinc-700 p-3 rounded shadow-lg text-sm">
+      <p className="text-zinc-300 mb-1">{slice.key}</p>
+      <p className="font-mono text-white">{slice.weight.toFixed(2)}%</p>
+      <p className="font-mono text-zinc-500 text-xs">{formatCurrency(slice.value, currency)}</p>
+    </div>
+  );
+};
+
+const HistoryTooltip = ({ active, payload, label }: any) => {
+  const { formatDisplayDate } = useFormatters();
+  if (!active || !payload || payload.length === 0) return null;
+  return (
+    <div className="bg-zinc-900 border border-zinc-700 p-3 rounded shadow-lg text-sm">
+      <p className="text-zinc-400 mb-2 border-b border-zinc-800 pb-1">{formatDisplayDate(label)}</p>
+      {[...payload].reverse().map((entry: any) => (
+        <div key={entry.dataKey} className="flex items-center gap-2 text-xs">
+          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
+          <span className="text-zinc-300">{entry.name}:</span>
+          <span className="font-mono text-white">{entry.value.toFixed(1)}%</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Treemap tile; recharts passes the layout box plus the slice's own fields (`key` itself is
+// swallowed by React, hence the `name` copy). Depth 0 is the root box behind the tiles.
+const TreemapTile = ({ x, y, width, height, index, depth, name, weight }: any) => {
+  if (depth === 0 || width <= 0 || height <= 0) return null;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={sliceColor(name, index)} fillOpacity={0.85} stroke="#18181b" strokeWidth={2} />
+      {width > 50 && height > 28 && (
+        <>
+          <text x={x + 6} y={y + 16} fill="#fff" fontSize={11}>{name}</text>
+          <text x={x + 6} y={y + 30} fill="#e4e4e7" fontSize={10} fontFamily="monospace">{weight.toFixed(1)}%</text>
+        </>
+      )}
+    </g>
+  );
+};
+
+const TargetForm: React.FC<{
+  keys: string[];
+  onSave: (target: { key: string; target: number; band: number }) => void;
+  onCancel: () => void;
+}> = ({ keys, onSave, onCancel }) => {
+  const { t } = useSettings();
+  const [key, setKey] = useState(keys[0] ?? '');
+  const [target, setTarget] = useState('');
+  const [band, setBand] = useState('5');
+
+  const parsedTarget = parseFloat(target);
+  const parsedBand = parseFloat(band);
+  const canSave = key.trim() !== '' && !isNaN(parsedTarget) && parsedTarget >= 0 && parsedTarget <= 100 && !isNaN(parsedBand) && parsedBand >= 0;
+
+  const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500 [color-scheme:dark]';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs p-2 rounded-lg bg-zinc-800/50 border border-zinc-700">
+      <input list="allocation-target-keys" value={key} onChange={(e) => setKey(e.target.value)} className={`flex-1 min-w-[96px] ${inputClass}`} />
+      <datalist id="allocation-target-keys">
+        {keys.map(k => <option key={k} value={k} />)}
+      </datalist>
+      <input type="number" value={target} onChange={(e) => setTarget(e.target.value)} placeholder={t('allocation.targetPlaceholder')} className={`w-20 text-right font-mono ${inputClass}`} autoFocus />
+      <span className="text-zinc-500">% ±</span>
+      <input type="number" value={band} onChange={(e) => setBand(e.target.value)} className={`w-14 text-right font-mono ${inputClass}`} />
+      <span className="text-zinc-500">{t('allocation.pts')}</span>
+      <button onClick={onCancel} className="px-2 py-1 text-zinc-400 hover:text-white">{t('common.cancel')}</button>
+      <button
+        onClick={() => canSave && onSave({ key: key.trim(), target: parsedTarget, band: parsedBand })}
+        disabled={!canSave}
+        className="px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+      >
+        {t('allocation.addTarget')}
+      </button>
+    </div>
+  );
+};
+
+export const AllocationPanel: React.FC<AllocationPanelProps> = ({ snapshots, targets, onImport, onClear, onAddTarget, onDeleteTarget, currency }) => {
+  const { t } = useSettings();
+  const { formatCurrency, formatDisplayDate } = useFormatters();
+  const [dimension, setDimension] = useState<AllocationDimension>('symbol');
+  const [chartType, setChartType] = useState<'donut' | 'treemap'>('donut');
+  const [isAddingTarget, setIsAddingTarget] = useState(false);
+  // Last import with problems; cleared on dismiss or a clean import
+  const [importIssues, setImportIssues] = useState<HoldingsImport | null>(null);
+
+  const latest = snapshots && snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+  const allSlices = useMemo(() => latest ? allocationBreakdown(latest, dimension) : [], [latest, dimension]);
+  const slices = useMemo(() => groupSmallSlices(allSlices, MAX_SLICES), [allSlices]);
+  const concentration = useMemo(() => latest ? calculateConcentration(latest) : null, [latest]);
+  const history = useMemo(() => allocationHistory(snapshots ?? [], dimension, MAX_SLICES), [snapshots, dimension]);
+  const dimensionTargets = useMemo(() => targets.filter(target => target.dimension === dimension), [targets, dimension]);
+  const drift = useMemo(() => latest ? calculateAllocationDrift(latest, dimensionTargets) : [], [latest, dimensionTargets]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result;
+        if (typeof text !== 'string') return;
+        const result = onImport(text);
+        setImportIssues(result && (result.snapshots.length === 0 || result.rejected.length > 0) ? result : null);
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const toggleClass = (isActive: boolean) => `px-3 py-1 text-xs font-medium rounded-md transition-all ${
+    isActive ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+  }`;
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm print-break-avoid">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-sky-500 rounded-full"></span>
+          {t('allocation.title')}
+          {latest && <span className="text-zinc-500 font-normal ml-2 text-sm font-mono">{formatDisplayDate(latest.date)}</span>}
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 self-start md:self-auto no-print">
+          {latest && (
+            <>
+              <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg">
+                {DIMENSION_OPTIONS.map(([option, label]) => (
+                  <button key={option} onClick={() => setDimension(option)} className={toggleClass(dimension === option)}>{t(label)}</button>
+                ))}
+              </div>
+              <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg">
+                {(['donut', 'treemap'] as const).map(option => (
+                  <button key={option} onClick={() => setChartType(option)} className={toggleClass(chartType === option)}>
+                    {t(option === 'donut' ? 'allocation.donut' : 'allocation.treemap')}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          <label
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-xs text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer"
+            title={t('allocation.holdingsTitle')}
+          >
+            <Layers size={14} />
+            {t('allocation.holdings')}
+            <input type="file" accept=".csv" onChange={handleFile} className="hidden" />
+          </label>
+          {snapshots && (
+            <button onClick={onClear} title={t('allocation.remove')} className="p-1.5 rounded-lg text-zinc-500 hover:text-rose-400 hover:bg-zinc-800">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {importIssues && (
+        <div className={`mb-4 rounded-lg border p-3 text-xs ${
+          importIssues.snapshots.length === 0 ? 'border-rose-500/30 bg-rose-500/5' : 'border-amber-500/30 bg-amber-500/5'
+        }`}>
+          <div className="flex items-start justify-between gap-2">
+            <p className={`flex items-center gap-2 ${importIssues.snapshots.length === 0 ? 'text-rose-300' : 'text-amber-300'}`}>
+              <AlertTriangle size={14} className="shrink-0" />
+              {importIssues.snapshots.length === 0
+                ? t('allocation.importFailed')
+                : t('allocation.importSkipped', { count: importIssues.rejected.length, snapshots: importIssues.snapshots.length })}
+            </p>
+            <button onClick={() => setImportIssues(null)} title={t('common.dismiss')} className="text-zinc-500 hover:text-white">
+              <X size={14} />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-zinc-400">
+            {importIssues.warnings.map((warning, i) => <li key={i}>{describeImportIssue(warning, t)}</li>)}
+            {importIssues.rejected.slice(0, MAX_ISSUES_SHOWN).map(row => (
+              <li key={row.line} className="font-mono">
+                {t('import.line')} {row.line}: <span className="text-zinc-300">{describeImportIssue(row.reason, t)}</span>
+              </li>
+            ))}
+            {importIssues.rejected.length > MAX_ISSUES_SHOWN && (
+              <li>{t('import.more', { count: importIssues.rejected.length - MAX_ISSUES_SHOWN })}</li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {!latest || !concentration ? (
+        <p className="text-sm text-zinc-500">
+          {t('allocation.empty')}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="h-[240px]">
+              <ResponsiveContainer width="100%" height="100%">
+                {chartType === 'donut' ? (
+                  <PieChart>
+                    <Pie data={slices} dataKey="value" nameKey="key" innerRadius="55%" outerRadius="85%" paddingAngle={1} stroke="#18181b" isAnimationActive={false}>
+                      {slices.map((slice, i) => <Cell key={slice.key} fill={sliceColor(slice.key, i)} />)}
+                    </Pie>
+                    <Tooltip content={<SliceTooltip currency={currency} />} />
+                  </PieChart>
+                ) : (
+                  <Treemap data={slices.map(slice => ({ ...slice, name: slice.key }))} dataKey="value" nameKey="key" aspectRatio={4 / 3} content={<TreemapTile />} isAnimationActive={false}>
+                    <Tooltip content={<SliceTooltip currency={currency} />} />
+                  </Treemap>
+                )}
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-4">
+              <ul className="space-y-1 text-xs">
+                {slices.map((slice, i) => {
+                  const sliceDrift = drift.find(d => d.target.key === slice.key);
+                  return (
+                    <li key={slice.key} className="flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: sliceColor(slice.key, i) }}></span>
+                      <span className="text-zinc-300 truncate flex-1">{slice.key}</span>
+                      {sliceDrift && (
+                        <span className={`font-mono ${sliceDrift.isOutsideBand ? 'text-amber-400' : 'text-zinc-500'}`}>
+                          {t('allocation.target', { value: sliceDrift.target.target })}
+                        </span>
+                      )}
+                      <span className="font-mono text-white w-14 text-right">{slice.weight.toFixed(1)}%</span>
+                      <span className="font-mono text-zinc-500 w-28 text-right hidden sm:inline">{formatCurrency(slice.value, currency)}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                {([
+                  ['allocation.top1', `${concentration.top1.toFixed(1)}%`],
+                  ['allocation.top5', `${concentration.top5.toFixed(1)}%`],
+                  ['allocation.hhi', concentration.herfindahl.toFixed(0)],
+                  ['allocation.effectiveN', concentration.effectiveHoldings.toFixed(1)]
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="bg-zinc-800/40 rounded-lg px-3 py-2" title={label === 'allocation.hhi' ? t('allocation.hhiTitle') : undefined}>
+                    <div className="text-zinc-500">{t(label)}</div>
+                    <div className="font-mono text-white text-sm">{value}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Target bands for the selected dimension */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-zinc-400">{t('allocation.targets')}</h3>
+              <button
+                onClick={() => setIsAddingTarget(true)}
+                disabled={isAddingTarget}
+                title={t('allocation.addTarget')}
+                className="p-1 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50 no-print"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+            {isAddingTarget && (
+              <TargetForm
+                keys={allSlices.map(s => s.key).filter(k => !dimensionTargets.some(target => target.key === k))}
+                onSave={(target) => {
+                  onAddTarget({ ...target, dimension });
+                  setIsAddingTarget(false);
+                }}
+                onCancel={() => setIsAddingTarget(false)}
+              />
+            )}
+            {drift.length === 0 && !isAddingTarget && (
+              <p className="text-xs text-zinc-600">{t('allocation.noTargets')}</p>
+            )}
+            <ul className="space-y-1 text-xs mt-1">
+              {drift.map(d => (
+                <li key={d.target.id} className="group flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-zinc-800/50">
+                  {d.isOutsideBand
+                    ? <AlertTriangle size={12} className="text-amber-400 shrink-0" />
+                    : <span className="w-3 h-3 shrink-0"></span>}
+                  <span className="text-zinc-300 flex-1 truncate">{d.target.key}</span>
+                  <span className="font-mono text-zinc-500">{d.target.target}% ± {d.target.band}</span>
+                  <span className={`font-mono w-16 text-right ${d.isOutsideBand ? 'text-amber-400' : 'text-zinc-300'}`}>
+                    {d.actual.toFixed(1)}%
+                  </span>
+                  <span className={`font-mono w-16 text-right ${d.isOutsideBand ? 'text-amber-400' : 'text-zinc-500'}`}>
+                    {d.drift >= 0 ? '+' : ''}{d.drift.toFixed(1)}
+                  </span>
+                  <button
+                    onClick={() => onDeleteTarget(d.target.id)}
+                    title={t('allocation.deleteTarget')}
+                    className="p-1 text-zinc-500 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity no-print"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {history.rows.length > 1 && (
+            <div>
+              <h3 className="text-sm font-medium text-zinc-400 mb-2">{t('allocation.overTime')}</h3>
+              <div className="w-full h-[180px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={history.rows} margin={{ top: 5, right: 0, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#27272a" />
+                    <XAxis dataKey="date" tickFormatter={formatDisplayDate} tick={{ fill: '#71717a', fontSize: 11 }} tickLine={false} axisLine={false} minTickGap={40} />
+                    <YAxis
+                      domain={[0, 100]}
+                      tick={{ fill: '#71717a', fontSize: 12 }}
+                      tickFormatter={(val) => `${val}%`}
+                      tickLine={false}
+                      axisLine={false}
+                      width={60}
+                    />
+                    <Tooltip content={<HistoryTooltip />} cursor={{ stroke: '#3f3f46', strokeWidth: 1 }} />
+                    {history.keys.map((key, i) => (
+                      <Area
+                        key={key}
+                        type="monotone"
+                        dataKey={key}
+                        name={key}
+                        stackId="allocation"
+                        stroke={sliceColor(key, i)}
+                        fill={sliceColor(key, i)}
+                        fillOpacity={0.6}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, RotateCw, Sparkles } from 'lucide-react';
+import { AnalystBrief as Brief, ReturnMode, StockDataPoint } from '../types';
+import { calculateRiskMetrics } from '../utils';
+import { LLMProvider } from '../services/llmProvider';
+import { LLMError, classifyLLMError } from '../services/llmErrors';
+import { isLiveProvider } from '../services/providerRegistry';
+import { computeBriefFacts, generateBrief, hashDataset, templateBrief } from '../services/analystBrief';
+import { storageService } from '../services/storageService';
+import { MarkdownMessage } from './MarkdownMessage';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface AnalystBriefProps {
+  provider: LLMProvider;
+  portfolioName: string;
+  // Full history; the brief is about its latest month, independent of the chart window
+  series: StockDataPoint[];
+  returnMode: ReturnMode;
+}
+
+export const AnalystBrief: React.FC<AnalystBriefProps> = ({ provider, portfolioName, series, returnMode }) => {
+  const { t } = useSettings();
+  const formatters = useFormatters();
+  const [brief, setBrief] = useState<Brief | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<LLMError | null>(null);
+  // Bumped by "regenerate"; skips the cache for that run
+  const [regenerateVersion, setRegenerateVersion] = useState(0);
+  const forceRef = useRef(false);
+
+  const facts = useMemo(() => computeBriefFacts(series, returnMode), [series, returnMode]);
+  const datasetHash = useMemo(
+    () => hashDataset(series, returnMode, provider.label, formatters.format.locale, formatters.format.currency),
+    [series, returnMode, provider.label, formatters.format]
+  );
+  const canGenerate = isLiveProvider(provider);
+
+  // Only a new dataset (or an explicit regenerate) produces a new brief; cached ones are reused
+  useEffect(() => {
+    if (!facts) {
+      setBrief(null);
+      return;
+    }
+    const template: Brief = {
+      datasetHash,
+      text: templateBrief(facts, portfolioName, t, formatters),
+      source: 'template',
+      generatedAt: new Date().toISOString()
+    };
+    setError(null);
+    if (!canGenerate) {
+      setBrief(template);
+      return;
+    }
+
+    const force = forceRef.current;
+    forceRef.current = false;
+    const controller = new AbortController();
+    let cancelled = false;
+
+    (async () => {
+      const cached = force ? null : await storageService.loadBrief(datasetHash);
+      if (cancelled) return;
+      if (cached) {
+        setBrief(cached);
+        return;
+      }
+      // Show the figures right away while the model writes
+      setBrief(template);
+      setIsGenerating(true);
+      try {
+        const context = {
+          portfolioName,
+          returnMode,
+          dateRange: { start: '', end: '' },
+          data: series,
+          series,
+          risk: calculateRiskMetrics(series),
+          currency: formatters.format.currency
+        };
+        const text = await generateBrief(provider, context, facts, controller.signal);
+        if (cancelled) return;
+        const generated: Brief = { datasetHash, text, source: 'llm', model: provider.label, generatedAt: new Date().toISOString() };
+        setBrief(generated);
+        storageService.saveBrief(generated);
+      } catch (err) {
+        const llmError = classifyLLMError(err);
+        if (!cancelled && llmError.kind !== 'aborted') {
+          console.error('Analyst brief failed', llmError);
+          setError(llmError);
+        }
+      } finally {
+        if (!cancelled) setIsGenerating(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+      setIsGenerating(false);
+    };
+  }, [datasetHash, facts, portfolioName, canGenerate, provider, regenerateVersion, t, formatters]);
+
+  const handleRegenerate = () => {
+    forceRef.current = true;
+    setRegenerateVersion(v => v + 1);
+  };
+
+  if (!brief) return null;
+
+  const sourceLabel = brief.source === 'llm'
+    ? t('brief.writtenBy', { model: brief.model ?? t('brief.theAnalyst') })
+    : canGenerate ? t('brief.fromData') : t('brief.noModel');
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm print-break-avoid">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-indigo-500 rounded-full"></span>
+          {t('brief.title')} <span className="text-zinc-500 font-normal ml-2 text-sm font-mono">{facts && formatters.formatDisplayDate(facts.asOf)}</span>
+        </h2>
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <Sparkles size={14} className={isGenerating ? 'text-indigo-400 animate-pulse' : 'text-zinc-600'} />
+          <span className="hidden sm:inline">{isGenerating ? t('brief.writing') : sourceLabel}</span>
+          {canGenerate && (
+            <button
+              onClick={handleRegenerate}
+              disabled={isGenerating}
+              title={t('brief.regenerate')}
+              className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50 no-print"
+            >
+              <RotateCw size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="text-sm text-zinc-300 leading-relaxed">
+        <MarkdownMessage text={brief.text} />
+      </div>
+      {error && (
+        <div className="mt-3 flex items-start gap-2 text-xs text-amber-300/90 no-print">
+          <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+          <span>{t('brief.fallback', { message: t(`llmError.${error.kind}` as const) })}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { AnnotationDraft } from '../types';
+import { formatCanonicalDate, parseDateString } from '../csvImport';
+import { formatDateForInput, parseInputDate } from '../utils';
+import { useSettings } from './SettingsContext';
+
+interface AnnotationFormProps {
+  initial?: AnnotationDraft;
+  // Used when there is no initial annotation, e.g. the last day of the view
+  defaultDate: Date;
+  // Show the longer note field
+  withText?: boolean;
+  submitLabel: string;
+  onSave: (draft: AnnotationDraft) => void;
+  onCancel: () => void;
+}
+
+export const AnnotationForm: React.FC<AnnotationFormProps> = ({ initial, defaultDate, withText = false, submitLabel, onSave, onCancel }) => {
+  const { t } = useSettings();
+  const initialDate = formatDateForInput((initial && parseDateString(initial.date, 'YMD')) || defaultDate);
+  const [span, setSpan] = useState<AnnotationDraft['span']>(initial?.span ?? 'day');
+  const [day, setDay] = useState(initialDate);
+  const [month, setMonth] = useState(initialDate.slice(0, 7));
+  const [label, setLabel] = useState(initial?.label ?? '');
+  const [text, setText] = useState(initial?.text ?? '');
+
+  const anchor = span === 'day' ? parseInputDate(day) : parseInputDate(`${month}-01`);
+  const canSave = label.trim() !== '' && !!anchor && !isNaN(anchor.getTime());
+
+  const handleSave = () => {
+    if (!canSave || !anchor) return;
+    onSave({
+      date: formatCanonicalDate(anchor),
+      span,
+      label: label.trim(),
+      text: withText ? text.trim() || undefined : initial?.text
+    });
+  };
+
+  const inputClass = 'bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500 [color-scheme:dark]';
+
+  return (
+    <div className="space-y-2 text-xs">
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        placeholder={t('events.labelPlaceholder')}
+        className={`w-full ${inputClass}`}
+        autoFocus
+      />
+      <div className="flex items-center gap-2">
+        <select value={span} onChange={(e) => setSpan(e.target.value as AnnotationDraft['span'])} className={inputClass}>
+          <option value="day">{t('events.day')}</option>
+          <option value="month">{t('events.month')}</option>
+        </select>
+        {span === 'day'
+          ? <input type="date" value={day} onChange={(e) => setDay(e.target.value)} className={`flex-1 min-w-0 ${inputClass}`} />
+          : <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={`flex-1 min-w-0 ${inputClass}`} />}
+      </div>
+      {withText && (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('events.notePlaceholder')}
+          rows={2}
+          className={`w-full resize-none ${inputClass}`}
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-2 py-1 text-zinc-400 hover:text-white">{t('common.cancel')}</button>
+        <button onClick={handleSave} disabled={!canSave} className="px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50">
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { AnnotationDraft, ChartAnnotation, Formatters } from '../types';
+import { parseDateString } from '../csvImport';
+import { TranslationKey } from '../i18n';
+import { AnnotationForm } from './AnnotationForm';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface AnnotationPanelProps {
+  annotations: ChartAnnotation[];
+  // Anchor for new annotations, e.g. the last day of the chart window
+  defaultDate: Date;
+  // Omit to show the list read-only (e.g. the combined view)
+  onAdd?: (draft: AnnotationDraft) => void;
+  onUpdate?: (id: string, draft: AnnotationDraft) => void;
+  onDelete?: (id: string) => void;
+}
+
+const SOURCE_BADGES: Partial<Record<ChartAnnotation['source'], TranslationKey>> = {
+  analyst: 'events.sourceAnalyst',
+  csv: 'events.sourceCsv'
+};
+
+const sortTime = (annotation: ChartAnnotation) => parseDateString(annotation.date, 'YMD')?.getTime() ?? 0;
+
+const formatWhen = (annotation: ChartAnnotation, { formatDisplayDate, formatMonthYear }: Formatters) => {
+  if (annotation.span === 'day') return formatDisplayDate(annotation.date);
+  const date = parseDateString(annotation.date, 'YMD');
+  return date ? formatMonthYear(date, 'short') : annotation.date;
+};
+
+export const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ annotations, defaultDate, onAdd, onUpdate, onDelete }) => {
+  const { t } = useSettings();
+  const formatters = useFormatters();
+  // Id being edited, or 'new'
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const sorted = [...annotations].sort((a, b) => sortTime(b) - sortTime(a));
+
+  return (
+    <div className="flex flex-col h-full min-h-0 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium text-zinc-400 uppercase tracking-wider">{t('events.title')}</span>
+        {onAdd && (
+          <button
+            onClick={() => setEditingId('new')}
+            disabled={editingId === 'new'}
+            title={t('events.add')}
+            className="p-1 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 disabled:opacity-50"
+          >
+            <Plus size={14} />
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && onAdd && (
+        <div className="mb-2 p-2 rounded-lg bg-zinc-800/50 border border-zinc-700">
+          <AnnotationForm
+            defaultDate={defaultDate}
+            withText
+            submitLabel={t('common.add')}
+            onSave={(draft) => {
+              onAdd(draft);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto space-y-1 pr-1">
+        {sorted.length === 0 && editingId !== 'new' && (
+          <li className="text-xs text-zinc-600 py-2">
+            {t('events.empty')}
+          </li>
+        )}
+        {sorted.map(annotation => editingId === annotation.id && onUpdate ? (
+          <li key={annotation.id} className="p-2 rounded-lg bg-zinc-800/50 border border-zinc-700">
+            <AnnotationForm
+              initial={annotation}
+              defaultDate={defaultDate}
+              withText
+              submitLabel={t('common.save')}
+              onSave={(draft) => {
+                onUpdate(annotation.id, draft);
+                setEditingId(null);
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          </li>
+        ) : (
+          <li key={annotation.id} className="group px-2 py-1.5 rounded-lg hover:bg-zinc-800/50" title={annotation.text}>
+            <div className="flex items-center gap-2">
+              <span className="text-[11px] font-mono text-zinc-500 shrink-0">{formatWhen(annotation, formatters)}</span>
+              {SOURCE_BADGES[annotation.source] && (
+                <span className="text-[10px] px-1.5 rounded bg-violet-500/10 text-violet-300 shrink-0">{t(SOURCE_BADGES[annotation.source]!)}</span>
+              )}
+              {annotation.source !== 'csv' && (onUpdate || onDelete) && (
+                <div className="ml-auto flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  {onUpdate && (
+                    <button onClick={() => setEditingId(annotation.id)} title={t('common.edit')} className="p-1 text-zinc-500 hover:text-white">
+                      <Pencil size={12} />
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button onClick={() => onDelete(annotation.id)} title={t('common.delete')} className="p-1 text-zinc-500 hover:text-rose-400">
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="text-zinc-200 text-xs mt-0.5 break-words">{annotation.label}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, LineChart, Trash2 } from 'lucide-react';
+import { HoldingsLedger, MonthlyGrowth, ReturnMode, StockDataPoint } from '../types';
+import { buildPositionSeries, calculateMonthlyAttribution } from '../ledger';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface AttributionPanelProps {
+  // Full history of the portfolio
+  data: StockDataPoint[];
+  monthly: MonthlyGrowth[];
+  returnMode: ReturnMode;
+  ledger?: HoldingsLedger;
+  // Ledger amounts and prices are in the dataset's own currency, so the panel works in it too
+  currency: string;
+  onImportTransactions: (text: string) => void;
+  onImportPrices: (text: string) => void;
+  onClear: () => void;
+}
+
+// Symbols beyond this many are summed into one "Other" column
+const MAX_SYMBOL_COLUMNS = 6;
+const MAX_MONTHS = 12;
+
+type Unit = 'percent' | 'currency';
+
+const readFile = (event: React.ChangeEvent<HTMLInputElement>, onText: (text: string) => void) => {
+  const file = event.target.files?.[0];
+  if (file) {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result;
+      if (typeof text === 'string') onText(text);
+    };
+    reader.readAsText(file);
+  }
+  event.target.value = '';
+};
+
+
+export const AttributionPanel: React.FC<AttributionPanelProps> = ({
+  data,
+  monthly,
+  returnMode,
+  ledger,
+  currency,
+  onImportTransactions,
+  onImportPrices,
+  onClear
+}) => {
+  const { t, tone } = useSettings();
+  const { currencySymbol, formatCurrency, formatDisplayDate } = useFormatters();
+  const [unit, setUnit] = useState<Unit>('percent');
+  const hasLedger = !!ledger && ledger.transactions.length > 0;
+
+  const attribution = useMemo(
+    () => hasLedger && ledger ? calculateMonthlyAttribution(ledger, data, monthly).slice(-MAX_MONTHS).reverse() : [],
+    [hasLedger, ledger, data, monthly]
+  );
+
+  // Biggest movers over the months shown get their own column
+  const symbols = useMemo(() => {
+    const totals = new Map<string, number>();
+    attribution.forEach(month => month.contributions.forEach(c => {
+      totals.set(c.symbol, (totals.get(c.symbol) ?? 0) + Math.abs(c.contribution));
+    }));
+    return [...totals.entries()].sort((a, b) => b[1] - a[1]).map(([symbol]) => symbol);
+  }, [attribution]);
+  const shownSymbols = symbols.slice(0, MAX_SYMBOL_COLUMNS);
+  const hasOther = symbols.length > MAX_SYMBOL_COLUMNS;
+
+  // How much of the reported value the reconstructed holdings account for on the last day
+  const coverage = useMemo(() => {
+    if (!hasLedger || !ledger || data.length === 0) return null;
+    const last = data[data.length - 1];
+    const [snapshot] = buildPositionSeries(ledger, [last]);
+    return { date: last.date, holdings: snapshot.value, reported: last.value, count: snapshot.positions.length };
+  }, [hasLedger, ledger, data]);
+
+  const formatAmount = (val: number) => formatCurrency(val, currency);
+  const formatSignedCurrency = (val: number) => `${val >= 0 ? '+' : '-'}${formatCurrency(Math.abs(val), currency)}`;
+  const format = (val: number, percent: number) => unit === 'percent'
+    ? `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`
+    : formatSignedCurrency(val);
+
+  const fileButtonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-xs text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer';
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm print-break-avoid">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-sky-500 rounded-full"></span>
+          {t('attribution.title')}
+          <span className="text-zinc-500 font-normal ml-2 text-sm">
+            {t(returnMode === 'flowAdjusted' ? 'attribution.vsTwr' : 'attribution.vsValue')}
+          </span>
+        </h2>
+        <div className="flex items-center gap-2 self-start md:self-auto no-print">
+          {attribution.length > 0 && (
+            <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg">
+              {([['percent', '%'], ['currency', currencySymbol(currency)]] as const).map(([option, label]) => (
+                <button
+                  key={option}
+                  onClick={() => setUnit(option)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                    unit === option ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          <label className={fileButtonClass} title={t('attribution.transactionsTitle')}>
+            <FileSpreadsheet size={14} />
+            {t('attribution.transactions')}
+            <input type="file" accept=".csv" onChange={(e) => readFile(e, onImportTransactions)} className="hidden" />
+          </label>
+          <label className={fileButtonClass} title={t('attribution.pricesTitle')}>
+            <LineChart size={14} />
+            {t('attribution.prices')}
+            <input type="file" accept=".csv" onChange={(e) => readFile(e, onImportPrices)} className="hidden" />
+          </label>
+          {ledger && (
+            <button onClick={onClear} title={t('attribution.remove')} className="p-1.5 rounded-lg text-zinc-500 hover:text-rose-400 hover:bg-zinc-800">
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!hasLedger ? (
+        <p className="text-sm text-zinc-500">
+          {t('attribution.empty')}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-zinc-500 uppercase tracking-wider border-b border-zinc-800">
+                  <th className="py-2 pr-3 text-left font-medium">{t('attribution.month')}</th>
+                  {shownSymbols.map(symbol => <th key={symbol} className="py-2 px-2 text-right font-medium">{symbol}</th>)}
+                  {hasOther && <th className="py-2 px-2 text-right font-medium">{t('attribution.other')}</th>}
+                  <th className="py-2 px-2 text-right font-medium" title={t('attribution.cashOtherTitle')}>{t('attribution.cashOther')}</th>
+                  <th className="py-2 pl-2 text-right font-medium">{t('attribution.total')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attribution.map(month => {
+                  const bySymbol = new Map(month.contributions.map(c => [c.symbol, c]));
+                  const other = month.contributions.filter(c => !shownSymbols.includes(c.symbol));
+                  const otherValue = other.reduce((acc, c) => acc + c.contribution, 0);
+                  const otherPercent = other.reduce((acc, c) => acc + c.contributionPercent, 0);
+                  return (
+                    <tr key={month.month} className="border-b border-zinc-800/50">
+                      <td className="py-2 pr-3 text-zinc-400">{month.month}</td>
+                      {shownSymbols.map(symbol => {
+                        const c = bySymbol.get(symbol);
+                        return (
+                          <td
+                            key={symbol}
+                            className={`py-2 px-2 text-right ${c ? tone(c.contribution) : 'text-zinc-700'}`}
+                            title={c ? t('attribution.cellTitle', { start: formatAmount(c.startValue), end: formatAmount(c.endValue), net: formatSignedCurrency(c.netPurchases), income: formatSignedCurrency(c.income) }) : undefined}
+                          >
+                            {c ? format(c.contribution, c.contributionPercent) : '-'}
+                          </td>
+                        );
+                      })}
+                      {hasOther && (
+                        <td className={`py-2 px-2 text-right ${tone(otherValue)}`}>{other.length > 0 ? format(otherValue, otherPercent) : '-'}</td>
+                      )}
+                      <td className={`py-2 px-2 text-right ${tone(month.unexplained)}`}>{format(month.unexplained, month.unexplainedPercent)}</td>
+                      <td className={`py-2 pl-2 text-right font-semibold ${tone(month.growth)}`}>{format(month.growth, month.growthPercent)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {coverage && (
+            <p className="text-xs text-zinc-500 mt-3">
+              {t('attribution.coverage', {
+                count: coverage.count,
+                holdings: formatAmount(coverage.holdings),
+                date: formatDisplayDate(coverage.date),
+                reported: formatAmount(coverage.reported),
+                currency
+              })}
+              {ledger && ledger.prices.length === 0 && t('attribution.noPrices')}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
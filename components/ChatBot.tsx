@@ -1,38 +1,177 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Sparkles, X } from 'lucide-react';
-import { ChatMessage } from '../types';
-import { geminiService } from '../services/geminiService';
-import { Chat, GenerateContentResponse } from '@google/genai';
+import { AlertTriangle, FileJson, FileText, MessageSquarePlus, Pencil, Pin, RotateCw, Send, Sparkles, Square, Trash2, Wrench, X } from 'lucide-react';
+import { AnalystContext, AnnotationDraft, ChartAnnotation, ChatMessage, ChatThreadStore, ToolCallRecord } from '../types';
+import { AnalystChatSession, LLMProvider } from '../services/llmProvider';
+import { LLMError, MAX_RETRIES, classifyLLMError, retryDelayMs, sleep } from '../services/llmErrors';
+import { storageService } from '../services/storageService';
+import { ThreadExportFormat, createThread, deriveThreadTitle, exportThread } from '../services/chatThreads';
+import { AnnotationForm } from './AnnotationForm';
+import { MarkdownMessage } from './MarkdownMessage';
+import { InlineChart } from './InlineChart';
+import { CHART_BLOCK_LANGUAGE } from '../chartBlocks';
+import { SettingsContextValue, useSettings } from './SettingsContext';
+
+// Stored in English; shown in the UI language by its id
+const WELCOME_MESSAGE: ChatMessage = {
+  id: '1',
+  role: 'model',
+  text: 'Hello! I analyzed your portfolio data. Ask me about trends, growth, or specific dates.'
+};
+
+// Wait for range dragging to settle before rebuilding the session
+const CONTEXT_DEBOUNCE_MS = 400;
+const MAX_PIN_LABEL_LENGTH = 40;
+
+const createThreadStore = (): ChatThreadStore => {
+  const thread = createThread([WELCOME_MESSAGE]);
+  return { threads: [thread], activeThreadId: thread.id };
+};
+
+const describeView = (context: AnalystContext, { t, formatters }: SettingsContextValue) => {
+  const first = formatters.formatDisplayDate(context.data[0].date);
+  const last = formatters.formatDisplayDate(context.data[context.data.length - 1].date);
+  return `${context.portfolioName} · ${first} – ${last}${context.returnMode === 'flowAdjusted' ? ` · ${t('chat.flowAdjusted')}` : ''}`;
+};
+
+const formatToolArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, val]) => `${key}=${val}`).join(', ');
+
+const ToolCallList: React.FC<{ calls: ToolCallRecord[] }> = ({ calls }) => (
+  <ul className="mt-3 pt-2 border-t border-zinc-700/60 space-y-1">
+    {calls.map((call, i) => (
+      <li key={i} className={`flex items-start gap-1.5 text-xs font-mono ${call.isError ? 'text-amber-400/90' : 'text-zinc-500'}`}>
+        <Wrench size={12} className="mt-0.5 shrink-0" />
+        <span>
+          {call.name}({formatToolArgs(call.args)}) → {call.summary}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+// First line of a reply without markdown syntax, as a chart label
+const summarizeForLabel = (text: string) => {
+  const line = text.split('\n').map(l => l.replace(/[#>*_`~|]/g, '').trim()).find(Boolean) ?? '';
+  return line.length > MAX_PIN_LABEL_LENGTH ? `${line.slice(0, MAX_PIN_LABEL_LENGTH - 1)}…` : line;
+};
 
 interface ChatBotProps {
-  stockContext: any;
-  monthlyContext: any;
+  provider: LLMProvider;
+  // Current dashboard view; null while there is no data to analyze
+  context: AnalystContext | null;
+  // Storage key for the conversation (e.g. the portfolio id); omit to keep it in memory only
+  historyKey?: string;
   isOpen: boolean;
   onClose: () => void;
+  // Adds an answer to the dashboard as a chart annotation and returns its id; omit to disable pinning
+  onPinInsight?: (pin: AnnotationDraft) => string;
+  // Current annotations, to tell which replies are still pinned
+  annotations?: ChartAnnotation[];
 }
 
-export const ChatBot: React.FC<ChatBotProps> = ({ stockContext, monthlyContext, isOpen, onClose }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', role: 'model', text: 'Hello! I analyzed your portfolio data. Ask me about trends, growth, or specific dates.' }
-  ]);
+export const ChatBot: React.FC<ChatBotProps> = ({ provider, context, historyKey, isOpen, onClose, onPinInsight, annotations = [] }) => {
+  const ui = useSettings();
+  const { t } = ui;
+  const [threadStore, setThreadStore] = useState<ChatThreadStore>(createThreadStore);
+  // Messages of the active thread; mirrored into threadStore as they change
+  const [messages, setMessages] = useState<ChatMessage[]>(() => threadStore.threads[0].messages);
+  const [pinningId, setPinningId] = useState<string | null>(null);
+  const [historyLoadedFor, setHistoryLoadedFor] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<AnalystChatSession | null>(null);
+  const [sessionError, setSessionError] = useState<LLMError | null>(null);
+  // Bumped to force a fresh session: "new conversation" and retrying a failed setup
+  const [sessionVersion, setSessionVersion] = useState(0);
+  // Shown in the pending reply while waiting to retry a transient failure
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Latest messages for building session history without re-running the effect on every keystroke
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // What the current session was built from
+  const sessionSourceRef = useRef<{ provider: LLMProvider; context: AnalystContext; historyKey?: string; threadId: string } | null>(null);
+  const { activeThreadId } = threadStore;
+  const activeThread = threadStore.threads.find(t => t.id === activeThreadId);
+
+  // Restore the saved threads for this key, then keep them in sync
+  useEffect(() => {
+    if (!historyKey) return;
+    let cancelled = false;
+    setHistoryLoadedFor(null);
+    storageService.loadChatThreads(historyKey).then(saved => {
+      if (cancelled) return;
+      const store = saved && saved.threads.length > 0 ? saved : createThreadStore();
+      const active = store.threads.find(t => t.id === store.activeThreadId) ?? store.threads[0];
+      setThreadStore({ ...store, activeThreadId: active.id });
+      setMessages(active.messages.length > 0 ? active.messages : [WELCOME_MESSAGE]);
+      setPinningId(null);
+      setHistoryLoadedFor(historyKey);
+    });
+    return () => { cancelled = true; };
+  }, [historyKey]);
+
+  // Mirror the active conversation into its thread
+  useEffect(() => {
+    setThreadStore(prev => {
+      const thread = prev.threads.find(t => t.id === prev.activeThreadId);
+      if (!thread || thread.messages === messages) return prev;
+      const updated = {
+        ...thread,
+        messages,
+        title: thread.hasCustomTitle ? thread.title : deriveThreadTitle(messages),
+        updatedAt: new Date().toISOString()
+      };
+      return { ...prev, threads: prev.threads.map(t => t.id === thread.id ? updated : t) };
+    });
+  }, [messages]);
 
+  // Rebuild the session whenever the view changes, carrying the conversation over as history.
+  // Waits for an in-flight reply and for the stored history so neither is left out.
   useEffect(() => {
-    const initChat = async () => {
+    if (!context || context.data.length === 0) {
+      setChatSession(null);
+      return;
+    }
+    if (isLoading || (historyKey && historyLoadedFor !== historyKey)) return;
+    const source = sessionSourceRef.current;
+    if (source && source.provider === provider && source.context === context && source.historyKey === historyKey &&
+        source.threadId === activeThreadId) return;
+
+    // Never answer from the previous view while the new session is pending
+    setChatSession(null);
+    setSessionError(null);
+    let cancelled = false;
+    const timer = setTimeout(async () => {
       try {
-        const chat = await geminiService.createChatSession(stockContext, monthlyContext);
+        const chat = await provider.createChatSession(context, messagesRef.current);
+        if (cancelled) return;
+        sessionSourceRef.current = { provider, context, historyKey, threadId: activeThreadId };
         setChatSession(chat);
+        if (source && source.historyKey === historyKey && source.threadId === activeThreadId &&
+            describeView(source.context, ui) !== describeView(context, ui)) {
+          setMessages(prev => [...prev, { id: Date.now().toString(), role: 'system', text: t('chat.nowLooking', { view: describeView(context, ui) }) }]);
+        }
       } catch (error) {
         console.error("Failed to init chat", error);
+        if (!cancelled) setSessionError(classifyLLMError(error));
       }
+    }, CONTEXT_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
-    if (stockContext.length > 0) {
-      initChat();
-    }
-  }, [stockContext, monthlyContext]);
+  }, [provider, context, historyKey, activeThreadId, historyLoadedFor, isLoading, sessionVersion]);
+
+  // Stop any reply still streaming when the panel goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    // Skip saves until the stored history has been loaded, so it isn't overwritten
+    if (!historyKey || historyLoadedFor !== historyKey || isLoading) return;
+    storageService.saveChatThreads(historyKey, threadStore);
+  }, [historyKey, historyLoadedFor, threadStore, isLoading]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -42,59 +181,201 @@ export const ChatBot: React.FC<ChatBotProps> = ({ stockContext, monthlyContext,
     scrollToBottom();
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || !chatSession) return;
+  const updateMessage = (id: string, changes: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+  };
 
-    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  // Stream a reply into `botMsgId`. Transient failures are retried with backoff on a fresh session,
+  // built from `history` (the conversation before this question), as long as nothing has streamed yet.
+  const runReply = async (session: AnalystChatSession, text: string, botMsgId: string, history: ChatMessage[]) => {
+    const sessionContext = sessionSourceRef.current?.context;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
 
+    let failed = false;
     try {
-      const result = await chatSession.sendMessageStream({ message: input });
-      
-      const botMsgId = (Date.now() + 1).toString();
-      setMessages(prev => [...prev, { id: botMsgId, role: 'model', text: '' }]);
-
-      let fullText = '';
-      for await (const chunk of result) {
-        const c = chunk as GenerateContentResponse;
-        if (c.text) {
-            fullText += c.text;
-            setMessages(prev => prev.map(msg => 
-                msg.id === botMsgId ? { ...msg, text: fullText } : msg
-            ));
+      for (let attempt = 0; ; attempt++) {
+        let hasOutput = false;
+        try {
+          await session.sendMessage(text, reply => {
+            hasOutput = true;
+            setRetryNotice(null);
+            updateMessage(botMsgId, { text: reply.text, toolCalls: reply.toolCalls });
+          }, controller.signal);
+          return;
+        } catch (err) {
+          const error = classifyLLMError(err);
+          if (error.kind === 'aborted') {
+            updateMessage(botMsgId, { isStopped: true });
+            failed = true;
+            return;
+          }
+          if (error.isTransient && !hasOutput && attempt < MAX_RETRIES && sessionContext) {
+            const delay = retryDelayMs(attempt);
+            setRetryNotice(t('chat.retrying', { message: t(`llmError.${error.kind}` as const), seconds: delay / 1000 }));
+            await sleep(delay, controller.signal);
+            session = await provider.createChatSession(sessionContext, history);
+            continue;
+          }
+          throw error;
         }
       }
-    } catch (error) {
+    } catch (err) {
+      const error = classifyLLMError(err);
       console.error('Chat error:', error);
-      setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: "I'm having trouble connecting right now." }]);
+      failed = true;
+      // Keep whatever streamed before the failure, and any tool calls that ran
+      updateMessage(botMsgId, error.kind === 'aborted' ? { isStopped: true } : { error: error.kind });
     } finally {
+      abortRef.current = null;
+      setRetryNotice(null);
       setIsLoading(false);
+      // The provider's session may hold a half-finished turn; rebuild it from the visible conversation
+      if (failed) sessionSourceRef.current = null;
     }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || !chatSession || isLoading) return;
+
+    const history = messagesRef.current;
+    const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: input };
+    const botMsgId = (Date.now() + 1).toString();
+    setMessages(prev => [...prev, userMsg, { id: botMsgId, role: 'model', text: '' }]);
+    setInput('');
+    runReply(chatSession, userMsg.text, botMsgId, history);
+  };
+
+  // Ask the failed question again in place of the error reply
+  const handleRetry = (failedId: string) => {
+    if (!chatSession || isLoading) return;
+    const current = messagesRef.current;
+    const failedIndex = current.findIndex(m => m.id === failedId);
+    const question = current.slice(0, failedIndex).reverse().find(m => m.role === 'user');
+    if (!question) return;
+
+    const botMsgId = Date.now().toString();
+    setMessages(prev => prev.map(msg => msg.id === failedId ? { id: botMsgId, role: 'model', text: '' } : msg));
+    runReply(chatSession, question.text, botMsgId, current.slice(0, current.indexOf(question)));
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const openThread = (store: ChatThreadStore, messages: ChatMessage[]) => {
+    setThreadStore(store);
+    setMessages(messages);
+    setPinningId(null);
+  };
+
+  // Starts a new thread; the current one stays in the list
+  const handleNewConversation = () => {
+    abortRef.current?.abort();
+    const thread = createThread([WELCOME_MESSAGE]);
+    openThread({ threads: [thread, ...threadStore.threads], activeThreadId: thread.id }, thread.messages);
+  };
+
+  const handleSelectThread = (id: string) => {
+    const thread = threadStore.threads.find(t => t.id === id);
+    if (!thread || isLoading) return;
+    openThread({ ...threadStore, activeThreadId: id }, thread.messages);
+  };
+
+  const handleRenameThread = () => {
+    if (!activeThread) return;
+    const title = window.prompt(t('chat.rename'), activeThread.title)?.trim();
+    if (!title) return;
+    setThreadStore(prev => ({
+      ...prev,
+      threads: prev.threads.map(t => t.id === activeThread.id ? { ...t, title, hasCustomTitle: true } : t)
+    }));
+  };
+
+  const handleDeleteThread = () => {
+    if (!activeThread || isLoading || !window.confirm(t('chat.deleteConfirm', { title: activeThread.title }))) return;
+    const remaining = threadStore.threads.filter(t => t.id !== activeThread.id);
+    if (remaining.length === 0) {
+      const store = createThreadStore();
+      openThread(store, store.threads[0].messages);
+      return;
+    }
+    const next = [...remaining].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    openThread({ threads: remaining, activeThreadId: next.id }, next.messages);
+  };
+
+  const handleExportThread = (format: ThreadExportFormat) => {
+    if (activeThread) exportThread(activeThread, context?.portfolioName ?? t('app.portfolio'), format);
+  };
+
+  const handlePin = (messageId: string, pin: AnnotationDraft) => {
+    if (!onPinInsight) return;
+    updateMessage(messageId, { pinnedAnnotationId: onPinInsight(pin) });
+    setPinningId(null);
+  };
+
+  const isPinned = (msg: ChatMessage) => !!msg.pinnedAnnotationId && annotations.some(a => a.id === msg.pinnedAnnotationId);
+  const canPin = (msg: ChatMessage) =>
+    !!onPinInsight && !!context && msg.role === 'model' && msg.id !== WELCOME_MESSAGE.id && !!msg.text && !msg.error &&
+    !(isLoading && msg.id === messages[messages.length - 1].id);
+
   if (!isOpen) return null;
 
   return (
-    <div className="fixed md:relative inset-0 md:inset-auto z-50 md:z-auto w-full md:w-[400px] h-full md:h-full bg-zinc-950 md:bg-zinc-900/30 md:border-l border-zinc-800 flex flex-col shadow-2xl">
+    <div className="fixed md:relative inset-0 md:inset-auto z-50 md:z-auto w-full md:w-[400px] h-full md:h-full bg-zinc-950 md:bg-zinc-900/30 md:border-l border-zinc-800 flex flex-col shadow-2xl no-print">
       <div className="p-4 border-b border-zinc-800 flex items-center justify-between bg-zinc-900/80 backdrop-blur-md">
         <div className="flex items-center gap-2">
           <div className="p-2 bg-indigo-500/10 rounded-lg">
              <Sparkles size={18} className="text-indigo-400" />
           </div>
-          <div>
-            <h3 className="font-medium text-white">Gemini Analyst</h3>
-            <p className="text-xs text-zinc-500">Powered by gemini-3-pro</p>
+          <div className="min-w-0">
+            <h3 className="font-medium text-white">{t('chat.title')}</h3>
+            <p className="text-xs text-zinc-500 truncate">
+              {context && context.data.length > 0 ? describeView(context, ui) : t('chat.poweredBy', { provider: provider.label })}
+            </p>
           </div>
         </div>
-        <button onClick={onClose} className="md:hidden p-2 text-zinc-400 hover:text-white">
-          <X size={20} />
+        <div className="flex items-center">
+          <button onClick={handleNewConversation} title={t('chat.newConversation')} className="p-2 text-zinc-400 hover:text-white">
+            <MessageSquarePlus size={18} />
+          </button>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 py-2 border-b border-zinc-800 flex items-center gap-1 bg-zinc-900/60">
+        <select
+          value={activeThreadId}
+          onChange={(e) => handleSelectThread(e.target.value)}
+          disabled={isLoading}
+          title={t('chat.conversations')}
+          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+        >
+          {[...threadStore.threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).map(thread => (
+            <option key={thread.id} value={thread.id}>{thread.title}</option>
+          ))}
+        </select>
+        <button onClick={handleRenameThread} title={t('chat.rename')} className="p-1.5 text-zinc-500 hover:text-white">
+          <Pencil size={14} />
+        </button>
+        <button onClick={() => handleExportThread('markdown')} title={t('chat.exportMarkdown')} className="p-1.5 text-zinc-500 hover:text-white">
+          <FileText size={14} />
+        </button>
+        <button onClick={() => handleExportThread('json')} title={t('chat.exportJson')} className="p-1.5 text-zinc-500 hover:text-white">
+          <FileJson size={14} />
+        </button>
+        <button onClick={handleDeleteThread} disabled={isLoading} title={t('chat.delete')} className="p-1.5 text-zinc-500 hover:text-rose-400 disabled:opacity-50">
+          <Trash2 size={14} />
         </button>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((msg) => (
+        {messages.map((msg) => msg.role === 'system' ? (
+          <div key={msg.id} className="text-center text-xs text-zinc-500">
+            <span className="inline-block px-3 py-1 rounded-full bg-zinc-900 border border-zinc-800">{msg.text}</span>
+          </div>
+        ) : (
           <div
             key={msg.id}
             className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -103,10 +384,70 @@ export const ChatBot: React.FC<ChatBotProps> = ({ stockContext, monthlyContext,
               className={`max-w-[85%] rounded-2xl p-4 text-sm leading-relaxed ${
                 msg.role === 'user'
                   ? 'bg-indigo-600 text-white rounded-br-sm'
-                  : 'bg-zinc-800 text-zinc-200 rounded-bl-sm border border-zinc-700'
+                  : `bg-zinc-800 text-zinc-200 rounded-bl-sm border ${msg.error ? 'border-amber-500/40' : 'border-zinc-700'}`
               }`}
             >
-              {msg.text ? msg.text : <span className="animate-pulse">Analyzing...</span>}
+              {msg.text
+                ? msg.role === 'user'
+                  ? <span className="whitespace-pre-wrap">{msg.text}</span>
+                  : (
+                    <MarkdownMessage
+                      text={msg.id === WELCOME_MESSAGE.id ? t('chat.welcome') : msg.text}
+                      renderFence={(language, code, closed) => language === CHART_BLOCK_LANGUAGE && context ? (
+                        <InlineChart
+                          source={code}
+                          // Only the reply being streamed can still close its fence
+                          pending={!closed && isLoading && msg.id === messages[messages.length - 1].id}
+                          series={context.series}
+                          returnMode={context.returnMode}
+                        />
+                      ) : null}
+                    />
+                  )
+                : !msg.error && !msg.isStopped && (
+                    <span className="animate-pulse">{retryNotice && isLoading ? retryNotice : t('chat.analyzing')}</span>
+                  )}
+              {msg.toolCalls && msg.toolCalls.length > 0 && <ToolCallList calls={msg.toolCalls} />}
+              {msg.isStopped && <div className="mt-2 text-xs text-zinc-500 italic">{t('chat.stopped')}</div>}
+              {canPin(msg) && context && (pinningId === msg.id ? (
+                <div className="mt-3 pt-2 border-t border-zinc-700/60">
+                  <AnnotationForm
+                    initial={{ date: context.data[context.data.length - 1].date, span: 'day', label: summarizeForLabel(msg.text), text: msg.text }}
+                    defaultDate={context.data[context.data.length - 1].dateObj}
+                    submitLabel={t('chat.pin')}
+                    onSave={(pin) => handlePin(msg.id, pin)}
+                    onCancel={() => setPinningId(null)}
+                  />
+                </div>
+              ) : isPinned(msg) ? (
+                <div className="mt-2 flex items-center gap-1 text-xs text-indigo-300/80">
+                  <Pin size={12} /> {t('chat.pinned')}
+                </div>
+              ) : (
+                <button
+                  onClick={() => setPinningId(msg.id)}
+                  className="mt-2 flex items-center gap-1 text-xs text-zinc-500 hover:text-white"
+                >
+                  <Pin size={12} /> {t('chat.pin')}
+                </button>
+              ))}
+              {msg.error && (
+                <div className={`flex items-start gap-2 text-xs text-amber-300/90 ${msg.text ? 'mt-3 pt-2 border-t border-zinc-700/60' : ''}`}>
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <div>
+                    <p>{t(`llmError.${msg.error}` as const)}</p>
+                    {msg.error !== 'missingApiKey' && (
+                      <button
+                        onClick={() => handleRetry(msg.id)}
+                        disabled={isLoading || !chatSession}
+                        className="mt-1.5 flex items-center gap-1 text-zinc-300 hover:text-white disabled:opacity-50"
+                      >
+                        <RotateCw size={12} /> {t('chat.retry')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -114,23 +455,42 @@ export const ChatBot: React.FC<ChatBotProps> = ({ stockContext, monthlyContext,
       </div>
 
       <div className="p-4 bg-zinc-900 border-t border-zinc-800">
+        {sessionError && (
+          <div className="mb-3 flex items-start gap-2 text-xs text-amber-300/90 bg-amber-500/5 border border-amber-500/20 rounded-lg px-3 py-2">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            <div className="flex-1">{t(`llmError.${sessionError.kind}` as const)}</div>
+            <button onClick={() => setSessionVersion(v => v + 1)} className="text-zinc-300 hover:text-white shrink-0">
+              {t('chat.tryAgain')}
+            </button>
+          </div>
+        )}
         <div className="relative flex items-center">
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask about your portfolio..."
+            placeholder={chatSession ? t('chat.placeholder') : sessionError ? t('chat.unavailable') : t('chat.updating')}
             className="w-full bg-zinc-950 border border-zinc-800 text-white rounded-full py-3 pl-4 pr-12 focus:outline-none focus:border-indigo-500 transition-colors placeholder-zinc-600"
             disabled={isLoading}
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="absolute right-2 p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-          >
-            <Send size={16} />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              title={t('chat.stop')}
+              className="absolute right-2 p-2 bg-zinc-700 text-white rounded-full hover:bg-zinc-600 transition-all"
+            >
+              <Square size={16} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim() || !chatSession}
+              className="absolute right-2 p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              <Send size={16} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,138 @@
+import React from 'react';
+import { AlertTriangle, CalendarDays, RotateCcw } from 'lucide-react';
+import { CalendarReport, TradingCalendar } from '../types';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface DataQualityPanelProps {
+  report: CalendarReport;
+  calendar: TradingCalendar;
+  // Set when an imported holiday file replaced the bundled calendar
+  defaultCalendarName?: string;
+  onImportHolidays: (text: string, fileName: string) => void;
+  onResetCalendar: () => void;
+}
+
+// Items listed per column before the rest is counted
+const MAX_ITEMS = 8;
+
+const IssueList: React.FC<{ title: string; summary: string; items: React.ReactNode[] }> = ({ title, summary, items }) => {
+  const { t } = useSettings();
+  return (
+    <div className="bg-zinc-950/40 rounded-lg border border-zinc-800 p-4">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-sm font-medium text-zinc-400">{title}</h3>
+        <span className={`text-xs font-mono ${items.length > 0 ? 'text-amber-400' : 'text-zinc-500'}`}>{summary}</span>
+      </div>
+      {items.length === 0 ? (
+        <p className="text-xs text-zinc-600">{t('quality.none')}</p>
+      ) : (
+        <ul className="space-y-1 text-xs font-mono text-zinc-300">
+          {items.slice(0, MAX_ITEMS).map((item, i) => <li key={i}>{item}</li>)}
+          {items.length > MAX_ITEMS && (
+            <li className="text-zinc-500 font-sans">{t('quality.more', { count: items.length - MAX_ITEMS })}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({
+  report,
+  calendar,
+  defaultCalendarName,
+  onImportHolidays,
+  onResetCalendar
+}) => {
+  const { t } = useSettings();
+  const { formatDisplayDate, formatNumber } = useFormatters();
+  const isClean = report.gaps.length === 0 && report.nonTradingRows.length === 0 && report.staleIndex.length === 0;
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result;
+        if (typeof text === 'string') onImportHolidays(text, file.name);
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const gapItems = report.gaps.map(gap => {
+    const first = formatDisplayDate(gap.missing[0]);
+    return gap.missing.length === 1
+      ? first
+      : t('quality.gapRange', { start: first, end: formatDisplayDate(gap.missing[gap.missing.length - 1]), days: gap.missing.length });
+  });
+  const nonTradingItems = report.nonTradingRows.map(row => (
+    <>
+      {formatDisplayDate(row.date)}{' '}
+      <span className="text-zinc-500 font-sans">
+        · {row.reason === 'weekend' ? t('quality.weekend') : row.holiday || t('quality.holiday')}
+      </span>
+    </>
+  ));
+  const staleItems = report.staleIndex.map(run => t('quality.staleRun', {
+    start: formatDisplayDate(run.start),
+    end: formatDisplayDate(run.end),
+    value: formatNumber(run.value),
+    repeats: run.repeats
+  }));
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm print-break-avoid">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-4 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-sky-500 rounded-full"></span>
+          {t('quality.title')}
+          <span className="text-zinc-500 font-normal ml-2 text-sm">
+            {t('quality.calendar', { name: calendar.name, count: calendar.holidays.length })}
+          </span>
+        </h2>
+        <div className="flex items-center gap-2 self-start md:self-auto no-print">
+          <label
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-zinc-800 bg-zinc-900 text-xs text-zinc-400 hover:text-white hover:border-zinc-700 transition-all cursor-pointer"
+            title={t('quality.holidaysTitle')}
+          >
+            <CalendarDays size={14} />
+            {t('quality.holidays')}
+            <input type="file" accept=".csv,.txt" onChange={handleFile} className="hidden" />
+          </label>
+          {defaultCalendarName && (
+            <button
+              onClick={onResetCalendar}
+              title={t('quality.resetCalendar', { name: defaultCalendarName })}
+              className="p-1.5 rounded-lg text-zinc-500 hover:text-white hover:bg-zinc-800"
+            >
+              <RotateCcw size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {report.uncoveredYears.length > 0 && (
+        <p className="flex items-center gap-2 text-xs text-amber-400/90 mb-4">
+          <AlertTriangle size={14} className="shrink-0" />
+          {t('quality.uncovered', { name: calendar.name, years: report.uncoveredYears.join(', ') })}
+        </p>
+      )}
+
+      {isClean ? (
+        <p className="text-sm text-zinc-500">{t('quality.clean')}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <IssueList
+            title={t('quality.missing')}
+            summary={t('quality.missingSummary', { days: report.missingDays, gaps: report.gaps.length })}
+            items={gapItems}
+          />
+          <IssueList title={t('quality.nonTrading')} summary={String(report.nonTradingRows.length)} items={nonTradingItems} />
+          <IssueList title={t('quality.stale')} summary={String(report.staleIndex.length)} items={staleItems} />
+        </div>
+      )}
+    </div>
+  );
+};
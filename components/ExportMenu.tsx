@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { DataExportFormat, ImageExportFormat, exportChartImage } from '../services/exportService';
+import { useSettings } from './SettingsContext';
+
+interface ExportMenuProps {
+  // File name without extension
+  baseName: string;
+  onExportData?: (format: DataExportFormat) => void;
+  // Element holding the recharts chart to snapshot
+  chartRef?: React.RefObject<HTMLDivElement>;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ baseName, onExportData, chartRef }) => {
+  const { t } = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleImage = async (format: ImageExportFormat) => {
+    setIsOpen(false);
+    if (!chartRef?.current) return;
+    try {
+      await exportChartImage(chartRef.current, baseName, format);
+    } catch (error) {
+      console.error('Chart export failed', error);
+    }
+  };
+
+  const handleData = (format: DataExportFormat) => {
+    setIsOpen(false);
+    onExportData?.(format);
+  };
+
+  const itemClass = 'w-full text-left px-3 py-1.5 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white rounded-md';
+
+  return (
+    <div ref={menuRef} className="relative no-print">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title={t('export.title')}
+        className="p-1.5 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 transition-all"
+      >
+        <Download size={16} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-36 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-1 z-30">
+          {onExportData && (
+            <>
+              <button onClick={() => handleData('csv')} className={itemClass}>{t('export.csv')}</button>
+              <button onClick={() => handleData('json')} className={itemClass}>{t('export.json')}</button>
+            </>
+          )}
+          {chartRef && (
+            <>
+              <button onClick={() => handleImage('png')} className={itemClass}>{t('export.png')}</button>
+              <button onClick={() => handleImage('svg')} className={itemClass}>{t('export.svg')}</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, FileWarning, X } from 'lucide-react';
+import { DateFormat, DuplicateDatePolicy, ImportOptions } from '../types';
+import { describeImportIssue, importCSV } from '../csvImport';
+import { TranslationKey } from '../i18n';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface ImportReportDialogProps {
+  fileName: string;
+  csvText: string;
+  options: ImportOptions;
+  onOptionsChange: (options: ImportOptions) => void;
+  confirmLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, TranslationKey> = { ',': 'import.comma', ';': 'import.semicolon', '\t': 'import.tab', '|': 'import.pipe' };
+
+const MAX_REJECTED_SHOWN = 50;
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({
+  fileName,
+  csvText,
+  options,
+  onOptionsChange,
+  confirmLabel,
+  onConfirm,
+  onCancel
+}) => {
+  // Re-run the import whenever an option changes so the report always matches what Apply will load
+  const { t, palette } = useSettings();
+  const { formatDisplayDate } = useFormatters();
+  const { data, report } = useMemo(() => importCSV(csvText, options), [csvText, options]);
+
+  const selectClass = 'bg-zinc-950 border border-zinc-800 rounded-md px-2 py-1 text-zinc-200 text-xs focus:outline-none focus:border-zinc-600';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-5 border-b border-zinc-800 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-medium text-white">{t('import.title')}</h3>
+            <p className="text-xs text-zinc-500 font-mono mt-1">{fileName}</p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-zinc-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5 text-sm">
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-zinc-950/60 rounded-lg border border-zinc-800 p-3">
+              <div className="text-zinc-500 text-xs uppercase tracking-wider">{t('import.rowsRead')}</div>
+              <div className="text-xl font-semibold text-white font-mono">{report.rowsRead}</div>
+            </div>
+            <div className="bg-zinc-950/60 rounded-lg border border-zinc-800 p-3">
+              <div className="text-zinc-500 text-xs uppercase tracking-wider">{t('import.accepted')}</div>
+              <div className="text-xl font-semibold text-white font-mono">{report.rowsAccepted}</div>
+            </div>
+            <div className="bg-zinc-950/60 rounded-lg border border-zinc-800 p-3">
+              <div className="text-zinc-500 text-xs uppercase tracking-wider">{t('import.rejected')}</div>
+              <div className={`text-xl font-semibold font-mono ${report.rejected.length > 0 ? 'text-amber-400' : 'text-white'}`}>
+                {report.rejected.length}
+              </div>
+            </div>
+          </div>
+
+          {/* Detected format and options */}
+          <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-xs text-zinc-400">
+            <div>{t('import.delimiter')}: <span className="text-zinc-200">{DELIMITER_LABELS[report.delimiter] ? t(DELIMITER_LABELS[report.delimiter]) : report.delimiter}</span></div>
+            <div>{t('import.headerRow')}: <span className="text-zinc-200">{t(report.hasHeader ? 'import.yes' : 'import.no')}</span></div>
+            <div>
+              {t('import.columns')}: <span className="text-zinc-200 font-mono">
+                date #{report.columns.date + 1}, value #{report.columns.value + 1}
+                {report.columns.index !== null && `, index #${report.columns.index + 1}`}
+                {report.columns.flow !== null && `, flow #${report.columns.flow + 1}`}
+                {report.columns.note !== null && `, note #${report.columns.note + 1}`}
+              </span>
+            </div>
+            <div>{t('import.decimalSeparator')}: <span className="text-zinc-200 font-mono">{report.decimalSeparator}</span></div>
+            <label className="flex items-center gap-2">
+              {t('import.dateFormat')}
+              <select
+                value={options.dateFormat ?? 'auto'}
+                onChange={(e) => onOptionsChange({ ...options, dateFormat: e.target.value as DateFormat })}
+                className={selectClass}
+              >
+                <option value="auto">{t('import.auto', { format: report.dateFormat })}</option>
+                <option value="YMD">{t('import.ymd')}</option>
+                <option value="MDY">{t('import.mdy')}</option>
+                <option value="DMY">{t('import.dmy')}</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t('import.duplicates')}
+              <select
+                value={options.duplicatePolicy ?? 'last'}
+                onChange={(e) => onOptionsChange({ ...options, duplicatePolicy: e.target.value as DuplicateDatePolicy })}
+                className={selectClass}
+              >
+                <option value="last">{t('import.keepLast')}</option>
+                <option value="first">{t('import.keepFirst')}</option>
+                <option value="average">{t('import.average')}</option>
+              </select>
+            </label>
+          </div>
+
+          {/* Warnings */}
+          {report.warnings.length > 0 && (
+            <div className="space-y-2">
+              {report.warnings.map((warning, i) => (
+                <div key={i} className="flex items-start gap-2 text-amber-300/90 bg-amber-500/5 border border-amber-500/20 rounded-lg px-3 py-2 text-xs">
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <span>{describeImportIssue(warning, t)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Rejected rows */}
+          {report.rejected.length > 0 && (
+            <div>
+              <h4 className="text-zinc-400 text-xs uppercase tracking-wider mb-2 flex items-center gap-2">
+                <FileWarning size={14} /> {t('import.rejectedRows')}
+              </h4>
+              <table className="w-full text-left text-xs border-collapse">
+                <thead>
+                  <tr className="border-b border-zinc-800 text-zinc-500">
+                    <th className="py-2 pr-3 font-medium">{t('import.line')}</th>
+                    <th className="py-2 pr-3 font-medium">{t('import.content')}</th>
+                    <th className="py-2 font-medium">{t('import.reason')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rejected.slice(0, MAX_REJECTED_SHOWN).map(row => (
+                    <tr key={row.line} className="border-b border-zinc-800/50">
+                      <td className="py-1.5 pr-3 font-mono text-zinc-400">{row.line}</td>
+                      <td className="py-1.5 pr-3 font-mono text-zinc-300 truncate max-w-[220px]">{row.raw}</td>
+                      <td className="py-1.5 text-amber-300/90">{describeImportIssue(row.reason, t)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.rejected.length > MAX_REJECTED_SHOWN && (
+                <p className="text-zinc-500 text-xs mt-2">{t('import.more', { count: report.rejected.length - MAX_REJECTED_SHOWN })}</p>
+              )}
+            </div>
+          )}
+
+          {report.warnings.length === 0 && report.rejected.length === 0 && (
+            <div className="flex items-center gap-2 text-zinc-400 text-xs">
+              <CheckCircle2 size={14} className="text-emerald-400" /> {t('import.noIssues')}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between gap-3">
+          <span className="text-xs text-zinc-500">
+            {data.length > 0 ? `${formatDisplayDate(data[0].date)} – ${formatDisplayDate(data[data.length - 1].date)}` : t('import.noRows')}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-full border border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700 text-sm transition-all"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={data.length === 0}
+              className={`px-4 py-2 rounded-full text-white disabled:opacity-50 disabled:cursor-not-allowed text-sm transition-all ${palette.accentButton}`}
+            >
+              {confirmLabel ?? t('import.replace')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { ChartBlockSpec, ReturnMode, StockDataPoint } from '../types';
+import { buildChartBlockData, parseChartBlock } from '../chartBlocks';
+import { TranslationKey } from '../i18n';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface InlineChartProps {
+  // JSON body of the ```chart block
+  source: string;
+  // Still streaming; the JSON may be incomplete
+  pending?: boolean;
+  series: StockDataPoint[];
+  returnMode?: ReturnMode;
+}
+
+const METRIC_LABELS: Record<ChartBlockSpec['metric'], TranslationKey> = {
+  value: 'inline.value',
+  return: 'inline.return',
+  drawdown: 'inline.drawdown'
+};
+
+const formatPercent = (val: number) => `${val >= 0 && val !== 0 ? '+' : ''}${val.toFixed(2)}%`;
+
+// Small chart drawn from the real series for a chart block in an analyst reply
+export const InlineChart: React.FC<InlineChartProps> = ({ source, pending, series, returnMode }) => {
+  const { t } = useSettings();
+  const { formatCompactCurrency, formatCurrency, formatDisplayDate, formatNumber } = useFormatters();
+  const result = useMemo(() => {
+    if (pending) return null;
+    const spec = parseChartBlock(source);
+    if (!spec.ok) return spec;
+    const data = buildChartBlockData(spec.value, series, returnMode);
+    return data.ok ? { ok: true as const, spec: spec.value, data: data.value } : data;
+  }, [source, pending, series, returnMode]);
+
+  if (!result) {
+    return (
+      <div className="h-[140px] flex items-center justify-center gap-2 rounded-lg bg-zinc-900/60 border border-zinc-700 text-xs text-zinc-500 animate-pulse">
+        <LineChartIcon size={14} /> {t('inline.drawing')}
+      </div>
+    );
+  }
+
+  if (!result.ok) {
+    return (
+      <div className="rounded-lg bg-zinc-900/60 border border-zinc-700 px-3 py-2 text-xs text-zinc-500">
+        {t('inline.failed', { error: result.error })}
+      </div>
+    );
+  }
+
+  const { spec, data } = result;
+  const isValue = data.metric === 'value';
+  // Dollars and index points don't share a scale, so the index gets its own axis
+  const dualAxis = isValue && data.hasPortfolio && data.hasIndex;
+  const first = data.rows[0].date;
+  const last = data.rows[data.rows.length - 1].date;
+
+  const formatEntry = (value: number, dataKey: string) =>
+    !isValue ? formatPercent(value)
+      : dataKey === 'index' ? formatNumber(value)
+      : formatCurrency(value);
+
+  return (
+    <div className="rounded-lg bg-zinc-900/60 border border-zinc-700 p-3">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <span className="text-xs font-medium text-zinc-300 truncate">{spec.title || t(METRIC_LABELS[data.metric])}</span>
+        <span className="text-[10px] text-zinc-500 font-mono shrink-0">{formatDisplayDate(first)} – {formatDisplayDate(last)}</span>
+      </div>
+      <div className="h-[140px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data.rows} margin={{ top: 4, right: dualAxis ? 0 : 4, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#27272a" />
+            <XAxis dataKey="date" hide />
+            <YAxis
+              yAxisId="left"
+              width={44}
+              stroke="#52525b"
+              tick={{ fontSize: 10 }}
+              domain={['auto', 'auto']}
+              tickFormatter={(val) => isValue ? (data.hasPortfolio ? formatCompactCurrency(val) : formatNumber(val, 0)) : `${val.toFixed(0)}%`}
+            />
+            {dualAxis && (
+              <YAxis
+                yAxisId="right"
+                orientation="right"
+                width={44}
+                stroke="#52525b"
+                tick={{ fontSize: 10 }}
+                domain={['auto', 'auto']}
+                tickFormatter={(val) => formatNumber(val, 0)}
+              />
+            )}
+            <Tooltip
+              contentStyle={{ backgroundColor: '#18181b', border: '1px solid #3f3f46', borderRadius: 4, fontSize: 12 }}
+              labelStyle={{ color: '#a1a1aa' }}
+              labelFormatter={(label) => formatDisplayDate(String(label))}
+              formatter={(value: number, name: string, item: any) => [formatEntry(value, item.dataKey), name]}
+            />
+            {data.hasPortfolio && (
+              <Line yAxisId="left" type="monotone" dataKey="portfolio" name={t('charts.portfolio')} stroke="#f43f5e" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            )}
+            {data.hasIndex && (
+              <Line
+                yAxisId={dualAxis ? 'right' : 'left'}
+                type="monotone"
+                dataKey="index"
+                name={t('charts.index')}
+                stroke="#0ea5e9"
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
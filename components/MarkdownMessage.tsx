@@ -0,0 +1,224 @@
+import React from 'react';
+
+// Renders the subset of markdown the analyst produces: headings, paragraphs, lists, tables,
+// quotes, code and inline emphasis. Everything becomes React elements (no HTML injection),
+// so model output can't add markup, scripts or non-http links.
+
+type Align = 'left' | 'center' | 'right' | undefined;
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; language: string; code: string; closed: boolean }
+  | { type: 'table'; header: string[]; align: Align[]; rows: string[][] }
+  | { type: 'rule' };
+
+interface MarkdownMessageProps {
+  text: string;
+  // Render fenced blocks of a given language (e.g. charts); return null to fall back to a code block
+  renderFence?: (language: string, code: string, closed: boolean) => React.ReactNode | null;
+}
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const isBlockStart = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) ||
+  (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+export const parseMarkdown = (text: string): Block[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) body.push(lines[i++]);
+      // An unclosed fence is still streaming
+      const closed = i < lines.length;
+      i++;
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), code: body.join('\n'), closed });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align: Align[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : undefined
+      );
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') rows.push(splitRow(lines[i++]));
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (current) {
+          items.push(current[2]);
+        } else if (lines[i].trim() !== '' && /^\s+/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push((lines[i++].match(QUOTE) as RegExpMatchArray)[1]);
+      blocks.push({ type: 'quote', text: quoted.join(' ') });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() !== '' && !isBlockStart(lines[i], lines[i + 1])) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+};
+
+const INLINE = /(`[^`]+`)|(\*\*[^*]+?\*\*|__[^_]+?__)|(~~[^~]+?~~)|(\[[^\]]+\]\([^)\s]+\))|(\*[^*\s][^*]*?\*|\b_[^_\s][^_]*?_\b)/;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+export const renderInline = (text: string, keyPrefix = ''): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let n = 0;
+
+  while (rest) {
+    const match = rest.match(INLINE);
+    if (!match || match.index === undefined) {
+      nodes.push(rest);
+      break;
+    }
+    if (match.index > 0) nodes.push(rest.slice(0, match.index));
+    const token = match[0];
+    const key = `${keyPrefix}${n++}`;
+
+    if (match[1]) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-zinc-900 text-rose-300 font-mono text-[0.85em]">{token.slice(1, -1)}</code>);
+    } else if (match[2]) {
+      nodes.push(<strong key={key} className="font-semibold text-white">{renderInline(token.slice(2, -2), `${key}-`)}</strong>);
+    } else if (match[3]) {
+      nodes.push(<del key={key}>{renderInline(token.slice(2, -2), `${key}-`)}</del>);
+    } else if (match[4]) {
+      const [, label, url] = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/) as RegExpMatchArray;
+      nodes.push(isSafeUrl(url)
+        ? <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline hover:text-indigo-200">{label}</a>
+        : label);
+    } else {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), `${key}-`)}</em>);
+    }
+    rest = rest.slice(match.index + token.length);
+  }
+
+  return nodes;
+};
+
+const alignClass = (align: Align) => align === 'right' ? 'text-right' : align === 'center' ? 'text-center' : 'text-left';
+
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text, renderFence }) => {
+  const blocks = parseMarkdown(text);
+
+  return (
+    <div className="space-y-2">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading':
+            return <p key={i} className={`font-semibold text-white ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>{renderInline(block.text)}</p>;
+          case 'paragraph':
+            return <p key={i}>{renderInline(block.text)}</p>;
+          case 'rule':
+            return <hr key={i} className="border-zinc-700" />;
+          case 'quote':
+            return <blockquote key={i} className="border-l-2 border-zinc-600 pl-3 text-zinc-400">{renderInline(block.text)}</blockquote>;
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={i} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+              </ListTag>
+            );
+          }
+          case 'table':
+            return (
+              <div key={i} className="overflow-x-auto">
+                <table className="w-full text-xs border-collapse">
+                  <thead>
+                    <tr className="border-b border-zinc-600 text-zinc-400">
+                      {block.header.map((cell, j) => (
+                        <th key={j} className={`py-1 pr-3 font-medium ${alignClass(block.align[j])}`}>{renderInline(cell)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {block.rows.map((row, r) => (
+                      <tr key={r} className="border-b border-zinc-700/50">
+                        {block.header.map((_, j) => (
+                          <td key={j} className={`py-1 pr-3 font-mono ${alignClass(block.align[j])}`}>{renderInline(row[j] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          case 'code': {
+            const custom = renderFence?.(block.language, block.code, block.closed);
+            if (custom) return <React.Fragment key={i}>{custom}</React.Fragment>;
+            return (
+              <pre key={i} className="bg-zinc-950 border border-zinc-700 rounded-lg p-3 overflow-x-auto text-xs font-mono text-zinc-300">
+                <code>{block.code}</code>
+              </pre>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge, Upload, X } from 'lucide-react';
+import { StockDataPoint, SeriesChange } from '../types';
+import { importCSV, diffSeries, mergeSeries, describeImportIssue } from '../csvImport';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface MergeDialogProps {
+  portfolioName: string;
+  existing: StockDataPoint[];
+  // Currency the dataset is recorded in; merges work on the unconverted rows
+  currency: string;
+  onApply: (merged: StockDataPoint[]) => void;
+  onCancel: () => void;
+}
+
+const ChangeRow: React.FC<{ change: SeriesChange; currency: string; children?: React.ReactNode }> = ({ change, currency, children }) => {
+  const { formatCurrency, formatDisplayDate, formatNumber } = useFormatters();
+  const formatIndex = (val: number | undefined) => val === undefined ? '-' : formatNumber(val);
+  return (
+    <tr className="border-b border-zinc-800/50">
+      <td className="py-1.5 pr-3 font-mono text-zinc-300">{formatDisplayDate(change.date)}</td>
+      <td className="py-1.5 pr-3 font-mono text-right text-zinc-500">
+        {formatCurrency(change.before.value, currency)} / {formatIndex(change.before.index)}
+      </td>
+      <td className="py-1.5 pr-3 font-mono text-right text-white">
+        {formatCurrency(change.after.value, currency)} / {formatIndex(change.after.index)}
+      </td>
+      <td className="py-1.5 text-right">{children}</td>
+    </tr>
+  );
+};
+
+export const MergeDialog: React.FC<MergeDialogProps> = ({ portfolioName, existing, currency, onApply, onCancel }) => {
+  const { t } = useSettings();
+  const { formatCurrency, formatDisplayDate } = useFormatters();
+  const [text, setText] = useState('');
+  const [acceptedConflicts, setAcceptedConflicts] = useState<Set<string>>(new Set());
+
+  const { data: incoming, report } = useMemo(() => importCSV(text), [text]);
+  const diff = useMemo(() => diffSeries(existing, incoming), [existing, incoming]);
+
+  // New batch: default to taking the incoming value for every conflict
+  useEffect(() => {
+    setAcceptedConflicts(new Set(diff.conflicts.map(c => c.date)));
+  }, [diff]);
+
+  const toggleConflict = (date: string) => {
+    setAcceptedConflicts(prev => {
+      const next = new Set(prev);
+      if (next.has(date)) next.delete(date);
+      else next.add(date);
+      return next;
+    });
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const result = e.target?.result;
+        if (typeof result === 'string') setText(result);
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const hasChanges = diff.added.length > 0 || diff.changed.length > 0 || acceptedConflicts.size > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="p-5 border-b border-zinc-800 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-medium text-white flex items-center gap-2">
+              <GitMerge size={18} className="text-indigo-400" /> {t('merge.title')}
+            </h3>
+            <p className="text-xs text-zinc-500 mt-1">{t('merge.into', { name: portfolioName })}</p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-zinc-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5 text-sm">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-zinc-400 text-xs">{t('merge.paste')}</span>
+              <label className="flex items-center gap-1.5 text-xs text-zinc-400 hover:text-white cursor-pointer">
+                <Upload size={14} /> {t('merge.loadFile')}
+                <input type="file" accept=".csv" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={5}
+              placeholder={'2025/12/9,"36,901,224",28410.5'}
+              className="w-full bg-zinc-950 border border-zinc-800 rounded-lg p-3 font-mono text-xs text-zinc-200 focus:outline-none focus:border-indigo-500 placeholder-zinc-700"
+            />
+          </div>
+
+          {text.trim() !== '' && (
+            <>
+              <div className="grid grid-cols-4 gap-3 text-center">
+                {[
+                  [t('merge.added'), diff.added.length, 'text-rose-400'],
+                  [t('merge.changed'), diff.changed.length, 'text-sky-400'],
+                  [t('merge.conflicts'), diff.conflicts.length, diff.conflicts.length > 0 ? 'text-amber-400' : 'text-white'],
+                  [t('merge.unchanged'), diff.unchanged, 'text-zinc-400']
+                ].map(([label, count, color]) => (
+                  <div key={label as string} className="bg-zinc-950/60 rounded-lg border border-zinc-800 p-3">
+                    <div className="text-zinc-500 text-xs uppercase tracking-wider">{label}</div>
+                    <div className={`text-xl font-semibold font-mono ${color}`}>{count}</div>
+                  </div>
+                ))}
+              </div>
+
+              {report.rejected.length > 0 && (
+                <div className="flex items-start gap-2 text-amber-300/90 bg-amber-500/5 border border-amber-500/20 rounded-lg px-3 py-2 text-xs">
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <span>
+                    {t('merge.skipped', { count: report.rejected.length })}{' '}
+                    {report.rejected.slice(0, 3).map(r => t('merge.lineReason', { line: r.line, reason: describeImportIssue(r.reason, t) })).join(', ')}
+                    {report.rejected.length > 3 ? '…' : ''}
+                  </span>
+                </div>
+              )}
+
+              {diff.added.length > 0 && (
+                <div>
+                  <h4 className="text-zinc-400 text-xs uppercase tracking-wider mb-2">{t('merge.addedDates')}</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {diff.added.map(point => (
+                      <span key={point.date} className="px-2 py-1 rounded bg-rose-500/10 text-rose-300 font-mono text-xs">
+                        {formatDisplayDate(point.date)} · {formatCurrency(point.value, currency)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {(diff.conflicts.length > 0 || diff.changed.length > 0) && (
+                <table className="w-full text-left text-xs border-collapse">
+                  <thead>
+                    <tr className="border-b border-zinc-800 text-zinc-500">
+                      <th className="py-2 pr-3 font-medium">{t('merge.date')}</th>
+                      <th className="py-2 pr-3 font-medium text-right">{t('merge.current')}</th>
+                      <th className="py-2 pr-3 font-medium text-right">{t('merge.incoming')}</th>
+                      <th className="py-2 font-medium text-right">{t('merge.useIncoming')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.conflicts.map(change => (
+                      <ChangeRow currency={currency} key={change.date} change={change}>
+                        <input
+                          type="checkbox"
+                          checked={acceptedConflicts.has(change.date)}
+                          onChange={() => toggleConflict(change.date)}
+                          className="accent-amber-500"
+                        />
+                      </ChangeRow>
+                    ))}
+                    {diff.changed.map(change => (
+                      <ChangeRow currency={currency} key={change.date} change={change}>
+                        <span className="text-sky-400">{t('merge.fillsGaps')}</span>
+                      </ChangeRow>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-full border border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-700 text-sm transition-all"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onApply(mergeSeries(existing, diff, acceptedConflicts))}
+            disabled={!hasChanges}
+            className="px-4 py-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-sm transition-all"
+          >
+            {t('merge.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
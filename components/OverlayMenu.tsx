@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { IndicatorSettings } from '../types';
+import { TranslationKey } from '../i18n';
+import { useSettings } from './SettingsContext';
+
+interface OverlayMenuProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+  // Price overlays share the value axis, so they only apply to the absolute view
+  priceOverlaysAvailable: boolean;
+}
+
+const MIN_WINDOW = 2;
+const MAX_WINDOW = 250;
+
+type OverlayKey = keyof IndicatorSettings;
+
+const OVERLAY_ROWS: { key: OverlayKey; label: TranslationKey; color: string; isPriceOverlay: boolean }[] = [
+  { key: 'sma', label: 'overlay.sma', color: '#facc15', isPriceOverlay: true },
+  { key: 'ema', label: 'overlay.ema', color: '#34d399', isPriceOverlay: true },
+  { key: 'bollinger', label: 'overlay.bollinger', color: '#a1a1aa', isPriceOverlay: true },
+  { key: 'rolling', label: 'overlay.rolling', color: '#fb923c', isPriceOverlay: false }
+];
+
+export const OVERLAY_COLORS = Object.fromEntries(OVERLAY_ROWS.map(row => [row.key, row.color])) as Record<OverlayKey, string>;
+
+const clampWindow = (raw: string, fallback: number) => {
+  const parsed = parseInt(raw, 10);
+  return isNaN(parsed) ? fallback : Math.min(MAX_WINDOW, Math.max(MIN_WINDOW, parsed));
+};
+
+export const OverlayMenu: React.FC<OverlayMenuProps> = ({ settings, onChange, priceOverlaysAvailable }) => {
+  const { t } = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const update = <K extends OverlayKey>(key: K, changes: Partial<IndicatorSettings[K]>) =>
+    onChange({ ...settings, [key]: { ...settings[key], ...changes } });
+
+  const activeCount = OVERLAY_ROWS.filter(row => settings[row.key].enabled && (priceOverlaysAvailable || !row.isPriceOverlay)).length;
+
+  return (
+    <div ref={menuRef} className="relative no-print">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title={t('overlay.title')}
+        className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs transition-all ${
+          activeCount > 0 ? 'bg-amber-500/10 text-amber-300' : 'text-zinc-500 hover:text-white hover:bg-zinc-800'
+        }`}
+      >
+        <Activity size={14} />
+        {activeCount > 0 && <span className="font-mono">{activeCount}</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-3 z-30 space-y-2 text-xs">
+          {OVERLAY_ROWS.map(row => {
+            const disabled = row.isPriceOverlay && !priceOverlaysAvailable;
+            const config = settings[row.key];
+            return (
+              <div key={row.key} className={`flex items-center gap-2 ${disabled ? 'opacity-40' : ''}`}>
+                <label className="flex items-center gap-2 flex-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={config.enabled}
+                    disabled={disabled}
+                    onChange={(e) => update(row.key, { enabled: e.target.checked })}
+                    className="accent-amber-500"
+                  />
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: row.color }}></span>
+                  <span className="text-zinc-300">{t(row.label)}</span>
+                </label>
+                <input
+                  type="number"
+                  min={MIN_WINDOW}
+                  max={MAX_WINDOW}
+                  value={config.window}
+                  disabled={disabled}
+                  title={t('overlay.window')}
+                  onChange={(e) => update(row.key, { window: clampWindow(e.target.value, config.window) })}
+                  className="w-14 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-right font-mono text-zinc-200 [color-scheme:dark]"
+                />
+                {row.key === 'bollinger' && (
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={4}
+                    step={0.5}
+                    value={settings.bollinger.width}
+                    disabled={disabled}
+                    title={t('overlay.width')}
+                    onChange={(e) => {
+                      const width = parseFloat(e.target.value);
+                      if (!isNaN(width) && width > 0) update('bollinger', { width });
+                    }}
+                    className="w-12 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-right font-mono text-zinc-200 [color-scheme:dark]"
+                  />
+                )}
+              </div>
+            );
+          })}
+          {!priceOverlaysAvailable && (
+            <p className="text-zinc-500 pt-1 border-t border-zinc-800">{t('overlay.valueViewOnly')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Briefcase, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Portfolio } from '../types';
+import { AGGREGATE_PORTFOLIO_ID, DEFAULT_CURRENCY, PORTFOLIO_COLORS } from '../constants';
+import { useSettings } from './SettingsContext';
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  // Currencies a dataset can be recorded in
+  currencyOptions: string[];
+  onCurrencyChange: (id: string, currency: string) => void;
+}
+
+export const PortfolioSwitcher: React.FC<PortfolioSwitcherProps> = ({
+  portfolios,
+  activeId,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+  currencyOptions,
+  onCurrencyChange
+}) => {
+  const { t } = useSettings();
+  const active = portfolios.find(p => p.id === activeId);
+  const activeIndex = portfolios.findIndex(p => p.id === activeId);
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt(t('portfolio.rename'), active.name)?.trim();
+    if (name) onRename(active.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!active) return;
+    if (window.confirm(t('portfolio.removeConfirm', { name: active.name }))) onDelete(active.id);
+  };
+
+  const iconButton = 'p-1.5 rounded-full text-zinc-500 hover:text-white hover:bg-zinc-800 transition-all';
+
+  return (
+    <div className="flex items-center gap-1 bg-zinc-900 pl-3 pr-1 py-1 rounded-full border border-zinc-800">
+      <Briefcase
+        size={16}
+        style={{ color: activeIndex >= 0 ? PORTFOLIO_COLORS[activeIndex % PORTFOLIO_COLORS.length] : '#a1a1aa' }}
+      />
+      <select
+        value={activeId}
+        onChange={(e) => onSelect(e.target.value)}
+        className="bg-transparent text-sm text-zinc-200 pl-1 pr-2 py-1 focus:outline-none cursor-pointer max-w-[180px]"
+      >
+        {portfolios.map(p => (
+          <option key={p.id} value={p.id} className="bg-zinc-900">{p.name}</option>
+        ))}
+        {portfolios.length > 1 && (
+          <option value={AGGREGATE_PORTFOLIO_ID} className="bg-zinc-900">{t('portfolio.allCombined')}</option>
+        )}
+      </select>
+      {active && (
+        <>
+          <select
+            value={active.currency ?? DEFAULT_CURRENCY}
+            onChange={(e) => onCurrencyChange(active.id, e.target.value)}
+            title={t('portfolio.currencyTitle')}
+            className="bg-transparent text-xs text-zinc-500 hover:text-zinc-200 px-1 py-1 focus:outline-none cursor-pointer"
+          >
+            {currencyOptions.map(c => <option key={c} value={c} className="bg-zinc-900">{c}</option>)}
+          </select>
+          <button onClick={handleRename} className={iconButton} title={t('portfolio.rename')}>
+            <Pencil size={14} />
+          </button>
+          {portfolios.length > 1 && (
+            <button onClick={handleDelete} className={iconButton} title={t('portfolio.remove')}>
+              <Trash2 size={14} />
+            </button>
+          )}
+        </>
+      )}
+      <label className={`${iconButton} cursor-pointer`} title={t('portfolio.add')}>
+        <Plus size={14} />
+        <input type="file" accept=".csv" onChange={onAdd} className="hidden" />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { StockDataPoint, ReturnMode } from '../types';
+import { calculateReturns, calculateRiskMetrics } from '../utils';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface ReportSummaryProps {
+  portfolioName: string;
+  data: StockDataPoint[];
+  returnMode: ReturnMode;
+  riskFreeRate: number;
+}
+
+const formatPercent = (val: number | null | undefined) =>
+  val === null || val === undefined ? '-' : `${val >= 0 ? '+' : ''}${val.toFixed(2)}%`;
+
+// Period summary heading the printable report; `data` is the selected chart window
+export const ReportSummary: React.FC<ReportSummaryProps> = ({ portfolioName, data, returnMode, riskFreeRate }) => {
+  const { t, settings } = useSettings();
+  const { formatCurrency, formatDisplayDate } = useFormatters();
+  const returns = useMemo(() => calculateReturns(data), [data]);
+  const risk = useMemo(() => calculateRiskMetrics(data, riskFreeRate), [data, riskFreeRate]);
+
+  const indexChange = useMemo(() => {
+    const withIndex = data.filter(d => d.index !== undefined);
+    if (withIndex.length < 2) return null;
+    const first = withIndex[0].index as number;
+    const last = withIndex[withIndex.length - 1].index as number;
+    return ((last - first) / first) * 100;
+  }, [data]);
+
+  if (!returns) return null;
+
+  const rows: [string, string][] = [
+    [t('report.period'), `${formatDisplayDate(returns.startDate)} – ${formatDisplayDate(returns.endDate)}`],
+    [t('report.startValue'), formatCurrency(returns.startValue)],
+    [t('report.endValue'), formatCurrency(returns.endValue)],
+    [t('report.valueChange'), `${formatCurrency(returns.valueChange)} (${formatPercent(returns.simpleReturnPercent)})`],
+    [t('report.marketIndex'), formatPercent(indexChange)]
+  ];
+  if (returnMode === 'flowAdjusted') {
+    rows.push(
+      [t('report.netFlows'), formatCurrency(returns.netFlows)],
+      [t('report.twr'), formatPercent(returns.twrPercent)],
+      [t('report.mwr'), formatPercent(returns.mwrPercent)]
+    );
+  }
+  if (risk) {
+    rows.push(
+      [t('report.volatility'), `${risk.annualizedVolatilityPercent.toFixed(2)}%`],
+      [t('report.maxDrawdown'), formatPercent(risk.maxDrawdownPercent)],
+      [t('report.sharpe'), risk.sharpeRatio === null ? '-' : risk.sharpeRatio.toFixed(2)]
+    );
+  }
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 print-break-avoid">
+      <div className="flex items-baseline justify-between mb-4 gap-4">
+        <h2 className="text-2xl font-semibold text-white tracking-tight">{t('report.title', { name: portfolioName })}</h2>
+        <span className="text-xs text-zinc-500">{t('report.generated', { time: new Date().toLocaleString(settings.numberLocale) })}</span>
+      </div>
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-10 gap-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b border-zinc-800/50 py-1.5">
+            <dt className="text-zinc-500">{label}</dt>
+            <dd className="font-mono text-zinc-200">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { StockDataPoint, PeriodGrowth, ReturnMode, MarketPalette } from '../types';
+import { calculatePeriodGrowth } from '../utils';
+import { TranslationKey } from '../i18n';
+import { useSettings } from './SettingsContext';
+
+interface ReturnsHeatmapProps {
+  data: StockDataPoint[];
+  returnMode?: ReturnMode;
+}
+
+type HeatmapMetric = 'portfolio' | 'index' | 'excess';
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i);
+
+const METRIC_OPTIONS: [HeatmapMetric, TranslationKey][] = [
+  ['portfolio', 'heatmap.portfolio'],
+  ['index', 'heatmap.index'],
+  ['excess', 'heatmap.excess']
+];
+
+const pickMetric = (bucket: PeriodGrowth | undefined, metric: HeatmapMetric) => {
+  if (!bucket) return undefined;
+  if (metric === 'index') return bucket.indexGrowthPercent;
+  if (metric === 'excess') return bucket.excessPercent;
+  return bucket.growthPercent;
+};
+
+// Gain or loss color of the market convention; opacity scales with the size of the move
+const cellStyle = (val: number | undefined, scale: number, palette: MarketPalette): React.CSSProperties | undefined => {
+  if (val === undefined || val === 0 || scale === 0) return undefined;
+  const alpha = 0.12 + 0.68 * Math.min(Math.abs(val) / scale, 1);
+  return { backgroundColor: `rgba(${val > 0 ? palette.upRgb : palette.downRgb}, ${alpha})` };
+};
+
+const formatCell = (val: number | undefined) =>
+  val === undefined ? '' : `${val >= 0 ? '+' : ''}${val.toFixed(1)}%`;
+
+export const ReturnsHeatmap: React.FC<ReturnsHeatmapProps> = ({ data, returnMode = 'value' }) => {
+  const { t, palette, settings } = useSettings();
+  const [metric, setMetric] = useState<HeatmapMetric>('portfolio');
+  const monthLabels = useMemo(
+    () => MONTHS.map(i => new Date(2000, i, 1).toLocaleString(settings.language, { month: 'short' })),
+    [settings.language]
+  );
+
+  const monthly = useMemo(() => calculatePeriodGrowth(data, 'month', returnMode), [data, returnMode]);
+  const yearly = useMemo(() => calculatePeriodGrowth(data, 'year', returnMode), [data, returnMode]);
+  const hasIndexData = useMemo(() => data.some(d => d.index !== undefined), [data]);
+
+  const rows = useMemo(() => {
+    const byMonth = new Map(monthly.map(m => [m.period, m]));
+    return yearly.map(year => ({
+      year: year.period,
+      months: MONTHS.map(i => byMonth.get(`${year.period}-${String(i + 1).padStart(2, '0')}`)),
+      total: year
+    }));
+  }, [monthly, yearly]);
+
+  // Months and years are colored on separate scales, otherwise yearly totals wash out the grid
+  const { monthScale, yearScale } = useMemo(() => {
+    const maxAbs = (buckets: PeriodGrowth[]) =>
+      buckets.reduce((acc, b) => Math.max(acc, Math.abs(pickMetric(b, metric) ?? 0)), 0);
+    return { monthScale: maxAbs(monthly), yearScale: maxAbs(yearly) };
+  }, [monthly, yearly, metric]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm print-break-avoid">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-rose-500 rounded-full"></span>
+          {t('heatmap.title')}
+          <span className="text-zinc-500 font-normal ml-2 text-sm">
+            {returnMode === 'flowAdjusted' ? t('heatmap.timeWeighted') : t('heatmap.valueChange')}
+          </span>
+        </h2>
+        {hasIndexData && (
+          <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg self-start md:self-auto no-print">
+            {METRIC_OPTIONS.map(([option, labelKey]) => (
+              <button
+                key={option}
+                onClick={() => setMetric(option)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${
+                  metric === option
+                    ? 'bg-zinc-600 text-white shadow-sm'
+                    : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+                }`}
+              >
+                {t(labelKey)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1 text-xs font-mono">
+          <thead>
+            <tr className="text-zinc-500 uppercase tracking-wider">
+              <th className="py-1 pr-2 text-left font-medium">{t('heatmap.year')}</th>
+              {monthLabels.map(label => (
+                <th key={label} className="py-1 font-medium text-center">{label}</th>
+              ))}
+              <th className="py-1 pl-2 font-medium text-center">{t('heatmap.year')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const yearValue = pickMetric(row.total, metric);
+              return (
+                <tr key={row.year}>
+                  <td className="py-2 pr-2 text-zinc-400">{row.year}</td>
+                  {row.months.map((bucket, i) => {
+                    const val = pickMetric(bucket, metric);
+                    return (
+                      <td
+                        key={i}
+                        style={cellStyle(val, monthScale, palette)}
+                        title={bucket ? `${bucket.period}: ${formatCell(val) || t('heatmap.na')}` : undefined}
+                        className={`py-2 px-1 text-center rounded min-w-[56px] ${
+                          val === undefined ? 'bg-zinc-900/40 text-zinc-700' : 'text-white'
+                        }`}
+                      >
+                        {formatCell(val)}
+                      </td>
+                    );
+                  })}
+                  <td
+                    style={cellStyle(yearValue, yearScale, palette)}
+                    className="py-2 px-2 text-center rounded min-w-[64px] font-semibold text-white border border-zinc-700/60"
+                  >
+                    {formatCell(yearValue)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { StockDataPoint } from '../types';
+import { calculateRiskMetrics } from '../utils';
+import { useFormatters, useSettings } from './SettingsContext';
+
+interface RiskPanelProps {
+  data: StockDataPoint[];
+  // Shared with the report and the analyst, so every Sharpe figure uses the same rate
+  riskFreeRate: number;
+  onRiskFreeRateChange: (rate: number) => void;
+}
+
+const formatPercent = (val: number | null) => val === null ? '-' : `${val.toFixed(2)}%`;
+const formatRatio = (val: number | null) => val === null ? '-' : val.toFixed(2);
+
+const MetricCell: React.FC<{ label: string; value: string; hint?: string; tone?: 'up' | 'down' }> = ({ label, value, hint, tone }) => {
+  const { palette } = useSettings();
+  return (
+    <div className="bg-zinc-900/50 rounded-lg border border-zinc-800/50 p-4">
+      <div className="text-zinc-500 text-xs font-medium uppercase tracking-wider mb-2">{label}</div>
+      <div className={`text-xl font-semibold font-mono tracking-tight ${
+        tone === 'up' ? palette.upText : tone === 'down' ? palette.downText : 'text-white'
+      }`}>
+        {value}
+      </div>
+      {hint && <div className="text-zinc-500 text-xs mt-1 font-mono">{hint}</div>}
+    </div>
+  );
+};
+
+export const RiskPanel: React.FC<RiskPanelProps> = ({ data, riskFreeRate, onRiskFreeRateChange }) => {
+  const { t } = useSettings();
+  const { formatDisplayDate } = useFormatters();
+  // The field keeps what is typed, including half-finished numbers; only valid rates are passed up
+  const [riskFreePercent, setRiskFreePercent] = useState<string>((riskFreeRate * 100).toString());
+
+  useEffect(() => {
+    setRiskFreePercent(current => parseFloat(current) / 100 === riskFreeRate ? current : (riskFreeRate * 100).toString());
+  }, [riskFreeRate]);
+
+  const handleRateChange = (text: string) => {
+    setRiskFreePercent(text);
+    const rate = parseFloat(text);
+    if (!isNaN(rate)) onRiskFreeRateChange(rate / 100);
+  };
+
+  const metrics = useMemo(() => calculateRiskMetrics(data, riskFreeRate), [data, riskFreeRate]);
+
+  const rangeLabel = data.length > 0 ? `${formatDisplayDate(data[0].date)} – ${formatDisplayDate(data[data.length - 1].date)}` : '';
+
+  return (
+    <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
+        <h2 className="text-xl font-light text-white flex items-center gap-2">
+          <span className="w-1 h-6 bg-amber-500 rounded-full"></span>
+          {t('risk.title')} <span className="text-zinc-500 font-normal ml-2 text-sm font-mono">{rangeLabel}</span>
+        </h2>
+        <label className="flex items-center gap-2 text-xs text-zinc-400 bg-zinc-800/30 px-3 py-1.5 rounded-lg border border-zinc-800 self-start md:self-auto">
+          {t('risk.riskFree')}
+          <input
+            type="number"
+            step="0.1"
+            value={riskFreePercent}
+            onChange={(e) => handleRateChange(e.target.value)}
+            className="bg-transparent border-none text-zinc-200 w-14 text-right font-mono focus:outline-none [color-scheme:dark]"
+          />
+          %
+        </label>
+      </div>
+
+      {!metrics ? (
+        <div className="flex items-center gap-2 text-zinc-500 text-sm">
+          <ShieldAlert size={16} />
+          {t('risk.notEnough')}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
+          <MetricCell
+            label={t('risk.volatility')}
+            value={formatPercent(metrics.annualizedVolatilityPercent)}
+            hint={t('risk.dailyReturns', { count: metrics.observations })}
+          />
+          <MetricCell
+            label={t('risk.maxDrawdown')}
+            value={formatPercent(metrics.maxDrawdownPercent)}
+            tone={metrics.maxDrawdownPercent < 0 ? 'down' : undefined}
+            hint={metrics.drawdownPeakDate
+              ? `${formatDisplayDate(metrics.drawdownPeakDate)} → ${formatDisplayDate(metrics.drawdownTroughDate ?? '')} · ${metrics.drawdownRecoveryDate
+                  ? t('risk.recovered', { date: formatDisplayDate(metrics.drawdownRecoveryDate) })
+                  : t('risk.notRecovered')}`
+              : undefined}
+          />
+          <MetricCell label={t('risk.sharpe')} value={formatRatio(metrics.sharpeRatio)} />
+          <MetricCell label={t('risk.sortino')} value={formatRatio(metrics.sortinoRatio)} />
+          <MetricCell
+            label={t('risk.return')}
+            value={formatPercent(metrics.annualizedReturnPercent)}
+            tone={metrics.annualizedReturnPercent >= 0 ? 'up' : 'down'}
+          />
+          <MetricCell label={t('risk.beta')} value={formatRatio(metrics.beta)} />
+          <MetricCell
+            label={t('risk.alpha')}
+            value={formatPercent(metrics.alphaPercent)}
+            tone={metrics.alphaPercent === null ? undefined : metrics.alphaPercent >= 0 ? 'up' : 'down'}
+          />
+          <MetricCell label={t('risk.correlation')} value={formatRatio(metrics.correlation)} />
+          <MetricCell label={t('risk.trackingError')} value={formatPercent(metrics.trackingErrorPercent)} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useContext } from 'react';
+import { DisplaySettings, Formatters, MarketPalette } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_DISPLAY_SETTINGS } from '../constants';
+import { MARKET_PALETTES } from '../theme';
+import { Translate, translate } from '../i18n';
+import { createFormatters } from '../utils';
+
+export interface SettingsContextValue {
+  settings: DisplaySettings;
+  palette: MarketPalette;
+  t: Translate;
+  // Text class for a signed change; zero stays neutral
+  tone: (value: number) => string;
+  // Amounts default to `currency` (the base currency)
+  formatters: Formatters;
+}
+
+export const createSettingsValue = (settings: DisplaySettings, currency: string): SettingsContextValue => {
+  const palette = MARKET_PALETTES[settings.colorConvention];
+  return {
+    settings,
+    palette,
+    t: (key, params) => translate(settings.language, key, params),
+    tone: (value) => value > 0 ? palette.upText : value < 0 ? palette.downText : 'text-zinc-500',
+    formatters: createFormatters({
+      currency,
+      locale: settings.numberLocale,
+      dateFormat: settings.dateFormat,
+      weekStart: settings.weekStart
+    })
+  };
+};
+
+const SettingsContext = createContext<SettingsContextValue>(createSettingsValue(DEFAULT_DISPLAY_SETTINGS, DEFAULT_CURRENCY));
+
+// App provides the value; everything below reads colors, labels and formats from it
+export const SettingsProvider: React.FC<{ value: SettingsContextValue; children: React.ReactNode }> = ({ value, children }) => (
+  <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
+);
+
+export const useSettings = () => useContext(SettingsContext);
+
+export const useFormatters = () => useContext(SettingsContext).formatters;
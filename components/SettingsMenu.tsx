@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings } from 'lucide-react';
+import { ColorConvention, DateDisplayFormat, DisplaySettings, UiLanguage, WeekStart } from '../types';
+import { NUMBER_LOCALE_OPTIONS } from '../constants';
+import { formatCanonicalDate } from '../csvImport';
+import { formatDateForInput } from '../utils';
+import { LANGUAGE_OPTIONS } from '../i18n';
+import { useSettings } from './SettingsContext';
+
+interface SettingsMenuProps {
+  onChange: (settings: DisplaySettings) => void;
+}
+
+const SAMPLE_NUMBER = 1234567.89;
+
+export const SettingsMenu: React.FC<SettingsMenuProps> = ({ onChange }) => {
+  const { settings, t } = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const update = (changes: Partial<DisplaySettings>) => onChange({ ...settings, ...changes });
+
+  // Each date option is labelled with today's date in that format
+  const today = new Date();
+  const dateOptions: [DateDisplayFormat, string][] = [
+    ['ymd', formatCanonicalDate(today)],
+    ['iso', formatDateForInput(today)],
+    ['locale', today.toLocaleDateString(settings.numberLocale)]
+  ];
+
+  const selectClass = 'w-full bg-zinc-950 border border-zinc-700 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500';
+  const labelClass = 'block space-y-1 text-[11px] text-zinc-500';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title={t('settings.title')}
+        className="p-2 rounded-full border border-zinc-800 bg-zinc-900 text-zinc-400 hover:text-white hover:border-zinc-700 transition-all"
+      >
+        <Settings size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-zinc-900 border border-zinc-700 rounded-xl shadow-xl z-30 p-3 space-y-3">
+          <label className={labelClass}>
+            <span>{t('settings.language')}</span>
+            <select value={settings.language} onChange={(e) => update({ language: e.target.value as UiLanguage })} className={selectClass}>
+              {LANGUAGE_OPTIONS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            <span>{t('settings.colors')}</span>
+            <select
+              value={settings.colorConvention}
+              onChange={(e) => update({ colorConvention: e.target.value as ColorConvention })}
+              className={selectClass}
+            >
+              <option value="eastAsian">{t('settings.eastAsian')}</option>
+              <option value="western">{t('settings.western')}</option>
+            </select>
+          </label>
+          <label className={labelClass}>
+            <span>{t('settings.numbers')}</span>
+            <select value={settings.numberLocale} onChange={(e) => update({ numberLocale: e.target.value })} className={selectClass}>
+              {NUMBER_LOCALE_OPTIONS.map(locale => (
+                <option key={locale} value={locale}>
+                  {SAMPLE_NUMBER.toLocaleString(locale, { minimumFractionDigits: 2 })} ({locale})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={labelClass}>
+            <span>{t('settings.dates')}</span>
+            <select value={settings.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as DateDisplayFormat })} className={selectClass}>
+              {dateOptions.map(([value, sample]) => <option key={value} value={value}>{sample}</option>)}
+            </select>
+          </label>
+          <label className={labelClass}>
+            <span>{t('settings.weekStart')}</span>
+            <select value={settings.weekStart} onChange={(e) => update({ weekStart: e.target.value as WeekStart })} className={selectClass}>
+              <option value="monday">{t('settings.monday')}</option>
+              <option value="sunday">{t('settings.sunday')}</option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
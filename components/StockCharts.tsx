@@ -1,4 +1,4 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import {
   AreaChart,
   Area,
@@ -12,43 +12,110 @@ import {
   Cell,
   Brush,
   LineChart,
-  Line
+  Line,
+  ReferenceLine,
+  ReferenceArea
 } from 'recharts';
-import { StockDataPoint, MonthlyGrowth } from '../types';
-import { formatCompactCurrency, formatCurrency } from '../utils';
-import { ArrowUp, ArrowDown, Minus, Calendar as CalendarIcon } from 'lucide-react';
+import { StockDataPoint, PeriodGrowth, BucketPeriod, ReturnMode, DrawdownPoint, ComparisonSeries, TimeRange, ChartRangeState, ChartAnnotation, AnnotationDraft, IndicatorSettings, DataGap } from '../types';
+import { formatDateForInput, filterByDateRange, calculateDrawdownSeries, rebaseSeries, buildComparisonRows, calculatePeriodGrowth } from '../utils';
+import { ArrowUp, ArrowDown, Minus, Calendar as CalendarIcon, Flag } from 'lucide-react';
+import { ExportMenu } from './ExportMenu';
+import { AnnotationPanel } from './AnnotationPanel';
+import { OverlayMenu, OVERLAY_COLORS } from './OverlayMenu';
+import { computeIndicators } from '../indicators';
+import { withGapBreaks } from '../tradingCalendar';
+import { DEFAULT_INDICATOR_SETTINGS } from '../constants';
+import { DataExportFormat, exportRows } from '../services/exportService';
+import { parseDateString } from '../csvImport';
+import { TranslationKey } from '../i18n';
+import { useFormatters, useSettings } from './SettingsContext';
 
 interface ChartProps {
   data: StockDataPoint[];
-  monthlyData: MonthlyGrowth[];
+  returnMode?: ReturnMode;
+  // Restored selection; the chart owns the state afterwards and reports every change
+  initialRangeState?: ChartRangeState;
+  onRangeChange?: (state: ChartRangeState) => void;
+  // Other portfolios to overlay in the comparison mode
+  comparisonSeries?: ComparisonSeries[];
+  // Notes drawn on the main chart and listed beside it
+  annotations?: ChartAnnotation[];
+  // Editing callbacks; without them the list is read-only
+  onAddAnnotation?: (draft: AnnotationDraft) => void;
+  onUpdateAnnotation?: (id: string, draft: AnnotationDraft) => void;
+  onDeleteAnnotation?: (id: string) => void;
+  // Missing trading days; the lines break there instead of joining the rows either side
+  gaps?: DataGap[];
 }
 
-const formatDateForInput = (date: Date) => {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, '0');
-  const d = String(date.getDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+const ANNOTATION_COLOR = '#a78bfa';
+// A day annotation on a weekend or holiday moves to the next trading day, but not across a gap in the data
+const MAX_SNAP_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_LABEL_CHARS = 28;
+const MAX_HOVER_CHARS = 280;
+// Labels of nearby annotations are staggered over this many rows
+const LABEL_ROWS = 3;
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Marker and short label at the top of an annotation; hovering shows the full note
+const AnnotationLabel = ({ viewBox, annotation, row }: any) => {
+  const { formatDisplayDate } = useFormatters();
+  if (!viewBox) return null;
+  const { x, y } = viewBox;
+  const { date, label, text } = annotation as ChartAnnotation;
+  const top = y + 8 + row * 14;
+  return (
+    <g style={{ cursor: 'help' }}>
+      <title>{[formatDisplayDate(date), label, text && truncate(text, MAX_HOVER_CHARS)].filter(Boolean).join('\n')}</title>
+      <circle cx={x} cy={top} r={3.5} fill={ANNOTATION_COLOR} />
+      <text x={x + 7} y={top + 4} fill={ANNOTATION_COLOR} fontSize={11}>{truncate(label, MAX_LABEL_CHARS)}</text>
+    </g>
+  );
 };
 
-const parseInputDate = (dateStr: string) => {
-  if (!dateStr) return new Date();
-  const [y, m, d] = dateStr.split('-').map(Number);
-  return new Date(y, m - 1, d);
+interface PlacedAnnotation {
+  annotation: ChartAnnotation;
+  // Category values on the date axis; x2 is set for month spans
+  x1: string;
+  x2?: string;
+}
+
+// The date axis is categorical, so a day snaps to the next trading day and a month spans its
+// first to last trading day; annotations outside the visible window are dropped. Sorted by date
+// so staggered labels alternate rows left to right.
+const placeAnnotations = (annotations: ChartAnnotation[], points: StockDataPoint[]): PlacedAnnotation[] => {
+  const position = new Map(points.map((p, i) => [p.date, i]));
+  return annotations.flatMap((annotation): PlacedAnnotation[] => {
+    const anchor = parseDateString(annotation.date, 'YMD');
+    if (!anchor) return [];
+    if (annotation.span === 'month') {
+      const inMonth = points.filter(p =>
+        p.dateObj.getFullYear() === anchor.getFullYear() && p.dateObj.getMonth() === anchor.getMonth());
+      if (inMonth.length === 0) return [];
+      return [{ annotation, x1: inMonth[0].date, x2: inMonth[inMonth.length - 1].date }];
+    }
+    const point = points.find(p => p.dateObj >= anchor);
+    return point && point.dateObj.getTime() - anchor.getTime() < MAX_SNAP_MS ? [{ annotation, x1: point.date }] : [];
+  }).sort((a, b) => (position.get(a.x1) ?? 0) - (position.get(b.x1) ?? 0));
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, isRebased }: any) => {
+  const { formatCurrency, formatDisplayDate, formatNumber } = useFormatters();
   if (active && payload && payload.length) {
     return (
       <div className="bg-zinc-900 border border-zinc-700 p-3 rounded shadow-lg text-sm z-50">
-        <p className="text-zinc-400 mb-2 border-b border-zinc-800 pb-1">{label}</p>
+        <p className="text-zinc-400 mb-2 border-b border-zinc-800 pb-1">{formatDisplayDate(label)}</p>
         {payload.map((entry: any, index: number) => (
           <div key={index} className="flex items-center gap-2 mb-1">
              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
              <span className="text-zinc-300 text-xs uppercase tracking-wider">{entry.name}:</span>
              <span className="font-mono font-medium text-white">
-               {entry.name === 'Market Index' 
-                 ? entry.value.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})
-                 : formatCurrency(entry.value)
+               {isRebased
+                 ? `${entry.value >= 0 ? '+' : ''}${entry.value.toFixed(2)}%`
+                 : entry.dataKey === 'index'
+                   ? formatNumber(entry.value)
+                   : formatCurrency(entry.value)
                }
              </span>
           </div>
@@ -59,16 +126,51 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+const DrawdownTooltip = ({ active, payload, label }: any) => {
+  const { t } = useSettings();
+  const { formatDisplayDate } = useFormatters();
+  if (active && payload && payload.length) {
+    const point = payload[0].payload as DrawdownPoint;
+    const rows = [
+      { name: t('charts.portfolio'), color: '#f43f5e', drawdown: point.drawdown, days: point.daysSincePeak },
+      ...(point.indexDrawdown !== undefined
+        ? [{ name: t('charts.marketIndex'), color: '#0ea5e9', drawdown: point.indexDrawdown, days: point.indexDaysSincePeak ?? 0 }]
+        : [])
+    ];
+    return (
+      <div className="bg-zinc-900 border border-zinc-700 p-3 rounded shadow-lg text-sm z-50">
+        <p className="text-zinc-400 mb-2 border-b border-zinc-800 pb-1">{formatDisplayDate(label)}</p>
+        {rows.map(row => (
+          <div key={row.name} className="flex items-center gap-2 mb-1">
+            <div className="w-2 h-2 rounded-full" style={{ backgroundColor: row.color }} />
+            <span className="text-zinc-300 text-xs uppercase tracking-wider">{row.name}:</span>
+            <span className="font-mono font-medium text-white">{row.drawdown.toFixed(2)}%</span>
+            <span className="text-zinc-500 text-xs">
+              {row.days === 0 ? t('charts.atPeak') : t('charts.daysSincePeak', { days: row.days })}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
 const CustomBarTooltip = ({ active, payload, label }: any) => {
+  const { t, palette } = useSettings();
+  const { formatCurrency } = useFormatters();
   if (active && payload && payload.length) {
-    const data = payload[0].payload as MonthlyGrowth;
+    const data = payload[0].payload as PeriodGrowth;
     const isPositive = data.growth >= 0;
     return (
       <div className="bg-zinc-900 border border-zinc-700 p-3 rounded shadow-lg text-sm">
         <p className="text-zinc-400 mb-1">{label}</p>
-        <p className={`font-semibold text-lg ${isPositive ? 'text-rose-400' : 'text-emerald-400'}`}>
+        <p className={`font-semibold text-lg ${isPositive ? palette.upText : palette.downText}`}>
           {formatCurrency(data.growth)} ({data.growthPercent.toFixed(2)}%)
         </p>
+        {data.netFlow ? (
+          <p className="text-xs text-zinc-500 mt-1">{t('charts.netFlows', { amount: formatCurrency(data.netFlow) })}</p>
+        ) : null}
       </div>
     );
   }
@@ -76,11 +178,12 @@ const CustomBarTooltip = ({ active, payload, label }: any) => {
 };
 
 const GrowthIndicator: React.FC<{ value: number; isCurrency?: boolean; isPercentage?: boolean }> = ({ value, isCurrency = true, isPercentage = false }) => {
+  const { palette } = useSettings();
+  const { formatCurrency, formatNumber } = useFormatters();
   if (value === 0) return <span className="text-zinc-500"><Minus size={14} /></span>;
   
   const isPositive = value > 0;
-  // Using Rose for Positive (Up) and Emerald for Negative (Down) based on app convention
-  const colorClass = isPositive ? 'text-rose-400' : 'text-emerald-400';
+  const colorClass = isPositive ? palette.upText : palette.downText;
   const Icon = isPositive ? ArrowUp : ArrowDown;
 
   return (
@@ -89,7 +192,7 @@ const GrowthIndicator: React.FC<{ value: number; isCurrency?: boolean; isPercent
       <span className="font-mono">
         {isCurrency 
             ? formatCurrency(Math.abs(value)) 
-            : Math.abs(value).toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})
+            : formatNumber(Math.abs(value))
         }
         {isPercentage ? '%' : ''}
       </span>
@@ -147,11 +250,42 @@ const DualSparkline = ({ data, hasIndex }: { data: any[], hasIndex: boolean }) =
   );
 };
 
-type TimeRange = '1D' | '7D' | '1M' | '3M' | 'YTD' | 'ALL';
+type ChartMode = 'absolute' | 'rebased' | 'compare';
+type GrowthUnit = 'amount' | 'percent';
 
-export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
-  const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
-  const [activeRange, setActiveRange] = useState<TimeRange | 'CUSTOM'>('ALL');
+const PERIOD_OPTIONS: [BucketPeriod, TranslationKey, TranslationKey][] = [
+  ['week', 'charts.periodShortWeek', 'charts.weekly'],
+  ['month', 'charts.periodShortMonth', 'charts.monthly'],
+  ['quarter', 'charts.periodShortQuarter', 'charts.quarterly'],
+  ['year', 'charts.periodShortYear', 'charts.yearly']
+];
+
+export const StockCharts: React.FC<ChartProps> = ({
+  data,
+  returnMode = 'value',
+  initialRangeState,
+  onRangeChange,
+  comparisonSeries,
+  annotations = [],
+  onAddAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  gaps = []
+}) => {
+  const { t, palette } = useSettings();
+  const { currencySymbol, formatCompactCurrency, formatCurrency, formatDisplayDate, formatMonthYear, formatNumber, format } = useFormatters();
+  const [dateRange, setDateRange] = useState(initialRangeState?.dateRange ?? { start: '', end: '' });
+  const [activeRange, setActiveRange] = useState<TimeRange | 'CUSTOM'>(initialRangeState?.activeRange ?? 'ALL');
+  const [chartMode, setChartMode] = useState<ChartMode>('absolute');
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(DEFAULT_INDICATOR_SETTINGS);
+  const [showRelativeStrength, setShowRelativeStrength] = useState(false);
+  const [growthPeriod, setGrowthPeriod] = useState<BucketPeriod>('month');
+  const [growthUnit, setGrowthUnit] = useState<GrowthUnit>('amount');
+  const mainChartRef = useRef<HTMLDivElement>(null);
+  const rollingChartRef = useRef<HTMLDivElement>(null);
+  const drawdownChartRef = useRef<HTMLDivElement>(null);
+  const barChartRef = useRef<HTMLDivElement>(null);
   
   const hasIndexData = data.some(d => d.index !== undefined);
 
@@ -214,43 +348,67 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
       }));
   };
 
+  // Let the parent follow the selected window (risk panel, analyst context, persistence)
+  useEffect(() => {
+    onRangeChange?.({ activeRange, dateRange });
+  }, [activeRange, dateRange, onRangeChange]);
+
   // Filter Logic for Main Chart
-  const chartData = useMemo(() => {
-    if (data.length === 0) return [];
-    if (!dateRange.start || !dateRange.end) return data;
+  const chartData = useMemo(() => filterByDateRange(data, dateRange), [data, dateRange]);
 
-    const start = parseInputDate(dateRange.start);
-    const end = parseInputDate(dateRange.end);
-    
-    // Set end date to end of day to be inclusive if needed, 
-    // but input is YYYY-MM-DD so comparisons are usually >= start (00:00) and <= end (00:00)
-    // Actually for <= end, if end is today 00:00, it might miss today's data depending on how parsed.
-    // parseInputDate returns 00:00:00 local time.
-    // StockDataPoint dateObj is also 00:00:00 local time.
-    // So <= comparison works perfectly for inclusive.
-
-    return data.filter(d => {
-        // Reset times to 0 to ensure clean date comparison
-        const dTime = new Date(d.dateObj);
-        dTime.setHours(0,0,0,0);
-        
-        const startTime = new Date(start);
-        startTime.setHours(0,0,0,0);
-        
-        const endTime = new Date(end);
-        endTime.setHours(0,0,0,0);
+  // Overlays look back over the full history, then share the window's rows (and Brush indices)
+  const indicatorSeries = useMemo(() => computeIndicators(data, indicatorSettings), [data, indicatorSettings]);
+  const indicatorData = useMemo(() => filterByDateRange(indicatorSeries, dateRange), [indicatorSeries, dateRange]);
 
-        return dTime.getTime() >= startTime.getTime() && dTime.getTime() <= endTime.getTime();
-    });
-  }, [data, dateRange]);
+  // Rebased view starts both series at 0% on the first day of the selected window
+  const rebasedData = useMemo(
+    () => rebaseSeries(chartData, returnMode === 'flowAdjusted'),
+    [chartData, returnMode]
+  );
+  const placedAnnotations = useMemo(() => placeAnnotations(annotations, chartData), [annotations, chartData]);
+
+  const canCompare = !!comparisonSeries && comparisonSeries.length > 1;
+  const isCompare = chartMode === 'compare' && canCompare;
+  const isRebased = chartMode === 'rebased' || isCompare;
+  const showIndexAxis = hasIndexData && !isRebased;
 
-  // Filter Monthly Data for the Bar Chart
+  // Every portfolio rebased onto the dates of the active series so the Brush indices line up
+  const comparisonData = useMemo(
+    () => isCompare && comparisonSeries ? buildComparisonRows(chartData, comparisonSeries) : [],
+    [isCompare, chartData, comparisonSeries]
+  );
+
+  // Drawdowns are measured on the full history, then cut to the same window so both charts
+  // share indices and the Brush selection stays in sync through syncId
+  const drawdownSeries = useMemo(() => calculateDrawdownSeries(data), [data]);
+  const drawdownData = useMemo(() => filterByDateRange(drawdownSeries, dateRange), [drawdownSeries, dateRange]);
+
+  // What the line charts draw: the rows above plus an empty row at each gap. All of them get the
+  // same breaks, so the synced charts keep matching indices.
+  const indicatorRows = useMemo(() => withGapBreaks(indicatorData, gaps), [indicatorData, gaps]);
+  const mainChartRows = useMemo(
+    () => isCompare ? withGapBreaks(comparisonData, gaps) : isRebased ? withGapBreaks(rebasedData, gaps) : indicatorRows,
+    [isCompare, isRebased, comparisonData, rebasedData, indicatorRows, gaps]
+  );
+  const drawdownRows = useMemo(() => withGapBreaks(drawdownData, gaps), [drawdownData, gaps]);
+
+  // Weekly buckets follow the week-start setting
+  const periodData = useMemo(
+    () => calculatePeriodGrowth(data, growthPeriod, returnMode, format.weekStart),
+    [data, growthPeriod, returnMode, format.weekStart]
+  );
+
+  // Filter Period Data for the Bar Chart
   const barChartData = useMemo(() => {
-    return monthlyData.filter((m, index) => {
+    return periodData.filter((m, index) => {
         if (index === 0 && m.growth === 0) return false;
         return true;
     });
-  }, [monthlyData]);
+  }, [periodData]);
+
+  const growthKey = growthUnit === 'percent' ? 'growthPercent' : 'growth';
+  const periodLabelKey = PERIOD_OPTIONS.find(([period]) => period === growthPeriod)?.[2];
+  const periodLabel = periodLabelKey ? t(periodLabelKey) : '';
 
   // Current Month Table Data Logic
   const { tableData, monthLabel, totalValueChange, totalIndexChange } = useMemo(() => {
@@ -262,7 +420,7 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
     const targetMonth = targetDate.getMonth();
     const targetYear = targetDate.getFullYear();
     
-    const monthLabel = targetDate.toLocaleString('default', { month: 'long', year: 'numeric' });
+    const monthLabel = formatMonthYear(targetDate);
     
     // Filter for current month
     const currentMonthItems = data.filter(d => d.dateObj.getMonth() === targetMonth && d.dateObj.getFullYear() === targetYear);
@@ -309,20 +467,77 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
         totalValueChange,
         totalIndexChange
     };
-  }, [data]);
+  }, [data, formatMonthYear]);
+
+  const rangeSuffix = dateRange.start && dateRange.end ? `_${dateRange.start}_${dateRange.end}` : '';
+
+  const exportChartData = (format: DataExportFormat) => {
+    exportRows(`portfolio${rangeSuffix}`, chartData.map(d => ({
+      date: d.date,
+      value: d.value,
+      index: d.index,
+      flow: d.flow
+    })), format, ['date', 'value', 'index', 'flow']);
+  };
+
+  const exportRollingData = (format: DataExportFormat) => {
+    exportRows(`rolling_${indicatorSettings.rolling.window}d${rangeSuffix}`, indicatorData.map(d => ({
+      date: d.date,
+      rollingReturnPercent: d.rollingReturn === undefined ? undefined : Number(d.rollingReturn.toFixed(4)),
+      rollingVolatilityPercent: d.rollingVolatility === undefined ? undefined : Number(d.rollingVolatility.toFixed(4))
+    })), format, ['date', 'rollingReturnPercent', 'rollingVolatilityPercent']);
+  };
+
+  const exportPeriodData = (format: DataExportFormat) => {
+    exportRows(`${growthPeriod}ly_growth`, periodData.map(m => ({
+      period: m.period,
+      startValue: m.startValue,
+      endValue: m.endValue,
+      growth: m.growth,
+      growthPercent: Number(m.growthPercent.toFixed(4)),
+      netFlow: m.netFlow,
+      indexGrowthPercent: m.indexGrowthPercent === undefined ? undefined : Number(m.indexGrowthPercent.toFixed(4))
+    })), format);
+  };
+
+  const exportCurrentMonth = (format: DataExportFormat) => {
+    // Oldest first, matching the other exports
+    exportRows(`current_month_${monthLabel.replace(/\s+/g, '_')}`, [...tableData].reverse().map(day => ({
+      date: day.date,
+      value: day.value,
+      valueChange: day.valueChange,
+      index: day.index,
+      indexChange: Number(day.indexChange.toFixed(2))
+    })), format);
+  };
 
   return (
     <div className="flex flex-col gap-6 w-full">
       {/* Main Area Chart */}
-      <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm min-h-[400px]">
+      <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm min-h-[400px] print-break-avoid">
         
         <div className="flex flex-col xl:flex-row xl:items-center justify-between mb-6 gap-6">
           <h2 className="text-xl font-light text-white flex items-center gap-2 whitespace-nowrap">
             <span className="w-1 h-6 bg-rose-500 rounded-full"></span>
-            Portfolio vs Market Index
+            {t('charts.title')}
           </h2>
 
-          <div className="flex flex-col sm:flex-row gap-4 w-full xl:w-auto xl:justify-end">
+          <div className="flex flex-col sm:flex-row gap-4 w-full xl:w-auto xl:justify-end items-start sm:items-center no-print">
+             <div className="flex items-center gap-1">
+               <button
+                 onClick={() => setShowAnnotations(open => !open)}
+                 title={showAnnotations ? t('charts.hideEvents') : t('charts.showEvents')}
+                 className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs transition-all ${
+                   showAnnotations ? 'bg-violet-500/10 text-violet-300' : 'text-zinc-500 hover:text-white hover:bg-zinc-800'
+                 }`}
+               >
+                 <Flag size={14} />
+                 {annotations.length > 0 && <span className="font-mono">{annotations.length}</span>}
+               </button>
+               <OverlayMenu settings={indicatorSettings} onChange={setIndicatorSettings} priceOverlaysAvailable={!isRebased} />
+               <ExportMenu baseName={`portfolio${rangeSuffix}`} onExportData={exportChartData} chartRef={mainChartRef} />
+             </div>
+
              
              {/* Date Pickers */}
              <div className="flex items-center gap-2 bg-zinc-800/30 p-1 rounded-lg border border-zinc-800">
@@ -347,6 +562,25 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
                 </div>
              </div>
 
+             {/* Chart Mode */}
+             <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg">
+                {([['absolute', 'charts.modeValue'], ['rebased', 'charts.modeRebased'], ['compare', 'charts.modeCompare']] as const)
+                    .filter(([mode]) => mode !== 'compare' || canCompare)
+                    .map(([mode, labelKey]) => (
+                    <button
+                        key={mode}
+                        onClick={() => setChartMode(mode)}
+                        className={`px-3 py-1 text-xs font-medium rounded-md transition-all whitespace-nowrap ${
+                            chartMode === mode
+                                ? 'bg-zinc-600 text-white shadow-sm'
+                                : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+                        }`}
+                    >
+                        {t(labelKey)}
+                    </button>
+                ))}
+             </div>
+
              {/* Range Selector */}
              <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg overflow-x-auto">
                 {(['1D', '7D', '1M', '3M', 'YTD', 'ALL'] as const).map((range) => (
@@ -366,24 +600,44 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
           </div>
         </div>
         
-        {hasIndexData && (
+        {(hasIndexData || isCompare) && (
              <div className="flex justify-end mb-2 text-xs">
-                <div className="flex gap-4">
-                    <div className="flex items-center gap-2">
-                        <span className="w-2 h-2 rounded-full bg-rose-500"></span>
-                        <span className="text-zinc-400">Portfolio</span>
-                    </div>
+                <div className="flex flex-wrap gap-4">
+                    {isCompare && comparisonSeries ? comparisonSeries.map(series => (
+                        <div key={series.id} className="flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: series.color }}></span>
+                            <span className="text-zinc-400">{series.name}</span>
+                        </div>
+                    )) : (
+                        <div className="flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-full bg-rose-500"></span>
+                            <span className="text-zinc-400">{t('charts.portfolio')}</span>
+                        </div>
+                    )}
                     <div className="flex items-center gap-2">
                         <span className="w-2 h-2 rounded-full bg-sky-500"></span>
-                        <span className="text-zinc-400">Index</span>
+                        <span className="text-zinc-400">{t('charts.index')}</span>
                     </div>
+                    {isRebased && !isCompare && (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={showRelativeStrength}
+                                onChange={(e) => setShowRelativeStrength(e.target.checked)}
+                                className="accent-amber-500"
+                            />
+                            <span className="w-2 h-2 rounded-full bg-amber-400"></span>
+                            <span className="text-zinc-400">{t('charts.relativeStrength')}</span>
+                        </label>
+                    )}
                 </div>
              </div>
         )}
 
-        <div className="w-full h-[350px]">
+        <div className="flex flex-col md:flex-row gap-4">
+        <div ref={mainChartRef} className="flex-1 min-w-0 h-[350px]">
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 10, right: 0, left: 0, bottom: 5 }}>
+            <AreaChart data={mainChartRows} syncId="portfolioRange" margin={{ top: 10, right: 0, left: 0, bottom: 5 }}>
               <defs>
                 <linearGradient id="colorValue" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#f43f5e" stopOpacity={0.3}/>
@@ -398,6 +652,7 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
               <XAxis 
                 dataKey="date" 
                 tick={{ fill: '#71717a', fontSize: 12 }} 
+                tickFormatter={formatDisplayDate}
                 tickLine={false}
                 axisLine={false}
                 minTickGap={30}
@@ -405,43 +660,57 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
               <YAxis 
                 yAxisId="left"
                 tick={{ fill: '#71717a', fontSize: 12 }} 
-                tickFormatter={(value) => formatCompactCurrency(value)}
+                tickFormatter={(value) => isRebased ? `${value.toFixed(0)}%` : formatCompactCurrency(value)}
                 tickLine={false}
                 axisLine={false}
                 domain={['auto', 'auto']}
                 width={60}
               />
-              {hasIndexData && (
+              {showIndexAxis && (
                 <YAxis 
                   yAxisId="right"
                   orientation="right"
                   tick={{ fill: '#71717a', fontSize: 12 }}
-                  tickFormatter={(val) => val.toLocaleString()}
+                  tickFormatter={(val) => formatNumber(val, 0)}
                   tickLine={false}
                   axisLine={false}
                   domain={['auto', 'auto']}
                   width={60}
                 />
               )}
-              <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#3f3f46', strokeWidth: 1 }} />
+              <Tooltip content={<CustomTooltip isRebased={isRebased} />} cursor={{ stroke: '#3f3f46', strokeWidth: 1 }} />
               
-              <Area 
-                yAxisId="left"
-                name="Portfolio"
-                type="monotone" 
-                dataKey="value" 
-                stroke="#f43f5e" 
-                strokeWidth={2}
-                fillOpacity={1} 
-                fill="url(#colorValue)" 
-                animationDuration={1500}
-              />
+              {isCompare && comparisonSeries ? comparisonSeries.map(series => (
+                <Area
+                  key={series.id}
+                  yAxisId="left"
+                  name={series.name}
+                  type="monotone"
+                  dataKey={series.id}
+                  stroke={series.color}
+                  strokeWidth={2}
+                  fill="none"
+                  isAnimationActive={false}
+                />
+              )) : (
+                <Area 
+                  yAxisId="left"
+                  name={t('charts.portfolio')}
+                  type="monotone" 
+                  dataKey={isRebased ? 'portfolioReturn' : 'value'} 
+                  stroke="#f43f5e" 
+                  strokeWidth={2}
+                  fillOpacity={1} 
+                  fill="url(#colorValue)" 
+                  animationDuration={1500}
+                />
+              )}
               {hasIndexData && (
                 <Area 
-                  yAxisId="right"
-                  name="Market Index"
+                  yAxisId={isRebased ? 'left' : 'right'}
+                  name={t('charts.marketIndex')}
                   type="monotone" 
-                  dataKey="index" 
+                  dataKey={isRebased ? 'indexReturn' : 'index'} 
                   stroke="#0ea5e9" 
                   strokeWidth={2}
                   fillOpacity={1} 
@@ -449,6 +718,90 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
                   animationDuration={1500}
                 />
               )}
+              {isRebased && !isCompare && hasIndexData && showRelativeStrength && (
+                <Area
+                  yAxisId="left"
+                  name={t('charts.relativeStrength')}
+                  type="monotone"
+                  dataKey="relativeStrength"
+                  stroke="#fbbf24"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  fill="none"
+                  isAnimationActive={false}
+                />
+              )}
+              {!isRebased && indicatorSettings.bollinger.enabled && (
+                <>
+                  {(['bollingerUpper', 'bollingerLower'] as const).map(key => (
+                    <Area
+                      key={key}
+                      yAxisId="left"
+                      name={key === 'bollingerUpper' ? t('charts.upperBand') : t('charts.lowerBand')}
+                      type="monotone"
+                      dataKey={key}
+                      stroke={OVERLAY_COLORS.bollinger}
+                      strokeWidth={1}
+                      strokeDasharray="3 3"
+                      fill="none"
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  <Area
+                    yAxisId="left"
+                    name={t('charts.bandSma', { window: indicatorSettings.bollinger.window })}
+                    type="monotone"
+                    dataKey="bollingerMiddle"
+                    stroke={OVERLAY_COLORS.bollinger}
+                    strokeWidth={1}
+                    strokeOpacity={0.6}
+                    fill="none"
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              {!isRebased && indicatorSettings.sma.enabled && (
+                <Area
+                  yAxisId="left"
+                  name={`SMA ${indicatorSettings.sma.window}`}
+                  type="monotone"
+                  dataKey="sma"
+                  stroke={OVERLAY_COLORS.sma}
+                  strokeWidth={1.5}
+                  fill="none"
+                  isAnimationActive={false}
+                />
+              )}
+              {!isRebased && indicatorSettings.ema.enabled && (
+                <Area
+                  yAxisId="left"
+                  name={`EMA ${indicatorSettings.ema.window}`}
+                  type="monotone"
+                  dataKey="ema"
+                  stroke={OVERLAY_COLORS.ema}
+                  strokeWidth={1.5}
+                  fill="none"
+                  isAnimationActive={false}
+                />
+              )}
+              {placedAnnotations.map(({ annotation, x1, x2 }, i) => {
+                const label = <AnnotationLabel annotation={annotation} row={i % LABEL_ROWS} />;
+                return x2 ? (
+                  <ReferenceArea
+                    key={annotation.id}
+                    yAxisId="left"
+                    x1={x1}
+                    x2={x2}
+                    fill={ANNOTATION_COLOR}
+                    fillOpacity={0.08}
+                    stroke={ANNOTATION_COLOR}
+                    strokeOpacity={0.3}
+                    label={label}
+                  />
+                ) : (
+                  <ReferenceLine key={annotation.id} yAxisId="left" x={x1} stroke={ANNOTATION_COLOR} strokeDasharray="4 3" label={label} />
+                );
+              })}
               <Brush 
                 dataKey="date"
                 height={30}
@@ -460,20 +813,192 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
             </AreaChart>
           </ResponsiveContainer>
         </div>
+        {showAnnotations && (
+          <div className="md:w-64 shrink-0 h-[240px] md:h-[350px] md:border-l border-zinc-800 md:pl-4 no-print">
+            <AnnotationPanel
+              annotations={annotations}
+              defaultDate={chartData.length > 0 ? chartData[chartData.length - 1].dateObj : new Date()}
+              onAdd={onAddAnnotation}
+              onUpdate={onUpdateAnnotation}
+              onDelete={onDeleteAnnotation}
+            />
+          </div>
+        )}
+        </div>
+
+        {/* Rolling return / volatility sub-pane */}
+        {indicatorSettings.rolling.enabled && (
+          <div className="mt-6 pt-4 border-t border-zinc-800/50">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-zinc-400">
+                {t('charts.rollingTitle', { window: indicatorSettings.rolling.window })}
+              </h3>
+              <div className="flex items-center gap-4 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OVERLAY_COLORS.rolling }}></span>
+                  <span className="text-zinc-400">{t('charts.return')}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-zinc-400"></span>
+                  <span className="text-zinc-400">{t('charts.volatilityAnn')}</span>
+                </div>
+                <ExportMenu
+                  baseName={`rolling_${indicatorSettings.rolling.window}d${rangeSuffix}`}
+                  onExportData={exportRollingData}
+                  chartRef={rollingChartRef}
+                />
+              </div>
+            </div>
+            <div ref={rollingChartRef} className="w-full h-[140px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart
+                  data={indicatorRows}
+                  syncId="portfolioRange"
+                  margin={{ top: 5, right: showIndexAxis ? 60 : 0, left: 0, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#27272a" />
+                  <XAxis dataKey="date" hide />
+                  <YAxis
+                    tick={{ fill: '#71717a', fontSize: 12 }}
+                    tickFormatter={(val) => `${val.toFixed(0)}%`}
+                    tickLine={false}
+                    axisLine={false}
+                    domain={['auto', 'auto']}
+                    width={60}
+                  />
+                  <Tooltip content={<CustomTooltip isRebased />} cursor={{ stroke: '#3f3f46', strokeWidth: 1 }} />
+                  <ReferenceLine y={0} stroke="#3f3f46" />
+                  <Area
+                    name={t('charts.return')}
+                    type="monotone"
+                    dataKey="rollingReturn"
+                    stroke={OVERLAY_COLORS.rolling}
+                    strokeWidth={1.5}
+                    fill={OVERLAY_COLORS.rolling}
+                    fillOpacity={0.1}
+                    isAnimationActive={false}
+                  />
+                  <Area
+                    name={t('charts.volatility')}
+                    type="monotone"
+                    dataKey="rollingVolatility"
+                    stroke="#a1a1aa"
+                    strokeWidth={1}
+                    strokeDasharray="4 3"
+                    fill="none"
+                    isAnimationActive={false}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {/* Underwater / Drawdown Chart */}
+        <div className="mt-6 pt-4 border-t border-zinc-800/50">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-zinc-400">{t('charts.drawdownTitle')}</h3>
+            <ExportMenu baseName={`drawdown${rangeSuffix}`} chartRef={drawdownChartRef} />
+          </div>
+          <div ref={drawdownChartRef} className="w-full h-[160px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart
+                data={drawdownRows}
+                syncId="portfolioRange"
+                // Right margin matches the index axis above so the x positions line up
+                margin={{ top: 5, right: showIndexAxis ? 60 : 0, left: 0, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#27272a" />
+                <XAxis dataKey="date" hide />
+                <YAxis
+                  tick={{ fill: '#71717a', fontSize: 12 }}
+                  tickFormatter={(val) => `${val.toFixed(0)}%`}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={['auto', 0]}
+                  width={60}
+                />
+                <Tooltip content={<DrawdownTooltip />} cursor={{ stroke: '#3f3f46', strokeWidth: 1 }} />
+                <Area
+                  name={t('charts.portfolio')}
+                  type="monotone"
+                  dataKey="drawdown"
+                  stroke="#f43f5e"
+                  strokeWidth={1.5}
+                  fill="#f43f5e"
+                  fillOpacity={0.15}
+                  isAnimationActive={false}
+                />
+                {hasIndexData && (
+                  <Area
+                    name={t('charts.marketIndex')}
+                    type="monotone"
+                    dataKey="indexDrawdown"
+                    stroke="#0ea5e9"
+                    strokeWidth={1.5}
+                    fill="#0ea5e9"
+                    fillOpacity={0.08}
+                    isAnimationActive={false}
+                  />
+                )}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
       </div>
 
-      {/* Secondary Bar Chart - Monthly Growth */}
-      <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm h-[300px]">
-        <h2 className="text-xl font-light text-white mb-6 flex items-center gap-2">
-          <span className="w-1 h-6 bg-blue-500 rounded-full"></span>
-          Monthly Growth ($)
-        </h2>
-        <div className="w-full h-[200px]">
+      {/* Secondary Bar Chart - Period Growth */}
+      <div className="bg-zinc-900/50 rounded-xl p-6 border border-zinc-800 shadow-sm backdrop-blur-sm h-[300px] print-break-avoid">
+        <div className="flex items-center justify-between mb-6 gap-4">
+          <h2 className="text-xl font-light text-white flex items-center gap-2">
+            <span className="w-1 h-6 bg-blue-500 rounded-full"></span>
+            {returnMode === 'flowAdjusted'
+              ? growthUnit === 'percent'
+                ? t('charts.periodReturnTwr', { period: periodLabel })
+                : t('charts.periodGainFlow', { period: periodLabel, unit: currencySymbol() })
+              : t('charts.periodGrowth', { period: periodLabel, unit: growthUnit === 'percent' ? '%' : currencySymbol() })}
+          </h2>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg no-print">
+              {PERIOD_OPTIONS.map(([period, shortKey, labelKey]) => (
+                <button
+                  key={period}
+                  onClick={() => setGrowthPeriod(period)}
+                  title={t(labelKey)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${
+                    growthPeriod === period
+                      ? 'bg-zinc-600 text-white shadow-sm'
+                      : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+                  }`}
+                >
+                  {t(shortKey)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center bg-zinc-800/50 p-1 rounded-lg no-print">
+              {([['amount', currencySymbol()], ['percent', '%']] as const).map(([unit, label]) => (
+                <button
+                  key={unit}
+                  onClick={() => setGrowthUnit(unit)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-md transition-all ${
+                    growthUnit === unit
+                      ? 'bg-zinc-600 text-white shadow-sm'
+                      : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700/50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <ExportMenu baseName={`${growthPeriod}ly_growth`} onExportData={exportPeriodData} chartRef={barChartRef} />
+          </div>
+        </div>
+        <div ref={barChartRef} className="w-full h-[200px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={barChartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#27272a" />
               <XAxis 
-                dataKey="month" 
+                dataKey="period" 
                 tick={{ fill: '#71717a', fontSize: 12 }} 
                 tickLine={false}
                 axisLine={false}
@@ -482,12 +1007,12 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
                 tick={{ fill: '#71717a', fontSize: 12 }} 
                 tickLine={false}
                 axisLine={false}
-                tickFormatter={(val) => formatCompactCurrency(val)}
+                tickFormatter={(val) => growthUnit === 'percent' ? `${val.toFixed(1)}%` : formatCompactCurrency(val)}
               />
               <Tooltip content={<CustomBarTooltip />} cursor={{fill: '#27272a'}} />
-              <Bar dataKey="growth" radius={[4, 4, 0, 0]}>
+              <Bar dataKey={growthKey} radius={[4, 4, 0, 0]}>
                 {barChartData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.growth >= 0 ? '#f43f5e' : '#10b981'} />
+                  <Cell key={`cell-${index}`} fill={entry[growthKey] >= 0 ? palette.upHex : palette.downHex} />
                 ))}
               </Bar>
             </BarChart>
@@ -500,19 +1025,20 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
          <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
             <h2 className="text-xl font-light text-white flex items-center gap-2">
               <span className="w-1 h-6 bg-indigo-500 rounded-full"></span>
-              Current Month Details <span className="text-zinc-500 font-normal ml-2">({monthLabel})</span>
+              {t('charts.currentMonth')} <span className="text-zinc-500 font-normal ml-2">({monthLabel})</span>
+              <ExportMenu baseName="current_month" onExportData={exportCurrentMonth} />
             </h2>
             
             {/* Display Totals */}
             {tableData.length > 0 && (
                 <div className="flex items-center gap-6 bg-zinc-900/50 px-4 py-2 rounded-lg border border-zinc-800/50 self-start md:self-auto">
                     <div className="flex items-center gap-3">
-                        <span className="text-zinc-500 text-xs font-medium uppercase tracking-wider">Total Change</span>
+                        <span className="text-zinc-500 text-xs font-medium uppercase tracking-wider">{t('charts.totalChange')}</span>
                         <GrowthIndicator value={totalValueChange} isCurrency={true} />
                     </div>
                     {hasIndexData && (
                         <div className="flex items-center gap-3 pl-6 border-l border-zinc-800">
-                            <span className="text-zinc-500 text-xs font-medium uppercase tracking-wider">Total Index</span>
+                            <span className="text-zinc-500 text-xs font-medium uppercase tracking-wider">{t('charts.totalIndex')}</span>
                             <GrowthIndicator value={totalIndexChange} isCurrency={false} />
                         </div>
                     )}
@@ -524,22 +1050,22 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
             <table className="w-full text-left border-collapse whitespace-nowrap">
                 <thead>
                     <tr className="border-b border-zinc-800 text-zinc-400 text-xs uppercase tracking-wider">
-                        <th className="py-3 pl-2 font-medium">Date</th>
-                        <th className="py-3 px-4 font-medium text-right">Net Value</th>
-                        <th className="py-3 px-4 font-medium text-right">Daily Change</th>
+                        <th className="py-3 pl-2 font-medium">{t('charts.date')}</th>
+                        <th className="py-3 px-4 font-medium text-right">{t('charts.netValue')}</th>
+                        <th className="py-3 px-4 font-medium text-right">{t('charts.dailyChange')}</th>
                         {hasIndexData && (
                             <>
-                                <th className="py-3 px-4 font-medium text-right">Index</th>
-                                <th className="py-3 px-4 font-medium text-right">Index Change</th>
+                                <th className="py-3 px-4 font-medium text-right">{t('charts.index')}</th>
+                                <th className="py-3 px-4 font-medium text-right">{t('charts.indexChange')}</th>
                             </>
                         )}
-                        <th className="py-3 pr-2 font-medium text-center">Trend (7d)</th>
+                        <th className="py-3 pr-2 font-medium text-center">{t('charts.trend')}</th>
                     </tr>
                 </thead>
                 <tbody className="text-sm">
                     {tableData.map((day) => (
                         <tr key={day.date} className="border-b border-zinc-800/50 hover:bg-zinc-800/30 transition-colors">
-                            <td className="py-3 pl-2 text-zinc-300 font-mono">{day.date}</td>
+                            <td className="py-3 pl-2 text-zinc-300 font-mono">{formatDisplayDate(day.date)}</td>
                             <td className="py-3 px-4 text-right font-mono text-white tracking-wide">
                                 {formatCurrency(day.value)}
                             </td>
@@ -549,7 +1075,7 @@ export const StockCharts: React.FC<ChartProps> = ({ data, monthlyData }) => {
                             {hasIndexData && (
                                 <>
                                     <td className="py-3 px-4 text-right font-mono text-sky-400">
-                                        {day.index?.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2}) ?? '-'}
+                                        {day.index !== undefined ? formatNumber(day.index) : '-'}
                                     </td>
                                     <td className="py-3 px-4 text-right font-mono">
                                         <GrowthIndicator value={day.indexChange} isCurrency={false} />
@@ -1,3 +1,49 @@
+import { DisplayFormat, DisplaySettings, IndicatorSettings } from './types';
+
+// Annual risk-free rate used as the Sharpe/Sortino hurdle (fraction, not percent)
+export const DEFAULT_RISK_FREE_RATE = 0.015;
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// The sample data and the index are Taiwan-market figures
+export const DEFAULT_CURRENCY = 'TWD';
+
+// Offered in the currency pickers; FX files can add others
+export const CURRENCY_OPTIONS = ['TWD', 'USD', 'EUR', 'JPY', 'HKD', 'CNY', 'GBP'];
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  language: 'en',
+  colorConvention: 'eastAsian',
+  numberLocale: 'en-US',
+  dateFormat: 'ymd',
+  weekStart: 'monday'
+};
+
+export const DEFAULT_DISPLAY_FORMAT: DisplayFormat = {
+  currency: DEFAULT_CURRENCY,
+  locale: DEFAULT_DISPLAY_SETTINGS.numberLocale,
+  dateFormat: DEFAULT_DISPLAY_SETTINGS.dateFormat,
+  weekStart: DEFAULT_DISPLAY_SETTINGS.weekStart
+};
+
+// Number formats offered in the settings menu; each is shown with a formatted sample
+export const NUMBER_LOCALE_OPTIONS = ['en-US', 'zh-TW', 'de-DE', 'fr-FR', 'en-IN', 'ja-JP'];
+
+// Pseudo portfolio id for the combined view that sums every account by date
+export const AGGREGATE_PORTFOLIO_ID = '__aggregate__';
+
+export const PORTFOLIO_COLORS = ['#f43f5e', '#a855f7', '#f59e0b', '#22c55e', '#ec4899', '#14b8a6'];
+
+// Allocation slices; the last color is kept for the "Other" bucket
+export const ALLOCATION_COLORS = ['#0ea5e9', '#f43f5e', '#a855f7', '#f59e0b', '#22c55e', '#ec4899', '#14b8a6', '#6366f1', '#84cc16', '#71717a'];
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: { enabled: false, window: 20 },
+  ema: { enabled: false, window: 50 },
+  bollinger: { enabled: false, window: 20, width: 2 },
+  rolling: { enabled: false, window: 21 }
+};
+
 export const RAW_CSV_DATA = `date,value,index
 2024/12/31,"29,274,379",22832.06
 2025/1/2,"29,022,807",22832.06
@@ -231,4 +277,7 @@ export const RAW_CSV_DATA = `date,value,index
 2025/12/4,"35,986,245",27795.71
 2025/12/5,"36,251,793",27980.89
 2025/12/8,"36,754,047",28303.78
-`;
\ No newline at end of file
+`;
+// Calendar of the bundled Taiwan Stock Exchange closures (data/twse-holidays.csv); replaced by
+// importing another exchange's holiday file
+export const TWSE_CALENDAR_NAME = 'TWSE';
@@ -0,0 +1,383 @@
+import {
+  StockDataPoint,
+  SeriesDiff,
+  SeriesChange,
+  DateFormat,
+  DuplicateDatePolicy,
+  ImportIssue,
+  ImportOptions,
+  ImportReport,
+  ImportResult,
+  RejectedRow
+} from './types';
+import { TranslationKey, Translate } from './i18n';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Lower-cased header names recognised for each column role
+export const COLUMN_ALIASES = {
+  date: ['date', 'day', 'trade date', 'trading date', '日期'],
+  value: ['value', 'net value', 'nav', 'total', 'total value', 'balance', 'market value', '淨值', '市值', '總值'],
+  index: ['index', 'benchmark', 'market index', 'taiex', '指數', '加權指數'],
+  flow: ['flow', 'flows', 'cashflow', 'cash_flow', 'cash flow', 'deposit', 'deposits', 'amount', '出入金'],
+  note: ['note', 'notes', 'event', 'events', 'annotation', 'comment', '備註', '事件']
+};
+
+// Strip a UTF-8 BOM and normalise CRLF / CR line endings
+export const normalizeCSVText = (text: string) =>
+  text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+
+// Split one line on `delimiter`, honouring quoted fields and "" escapes
+export const splitDelimitedLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+// Pick the delimiter that splits the first lines into the most, and most consistent, columns
+export const detectDelimiter = (lines: string[]): string => {
+  const sample = lines.slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const counts = sample.map(line => splitDelimitedLine(line, delimiter).length);
+    const min = Math.min(...counts);
+    if (min < 2) return;
+    const consistent = counts.every(c => c === counts[0]);
+    const score = min + (consistent ? 100 : 0);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+
+  return best;
+};
+
+const splitDateParts = (raw: string): { parts: number[]; yearFirst: boolean } | null => {
+  const cleaned = raw.replace(/"/g, '').trim().split(/[T ]/)[0];
+  if (/^\d{8}$/.test(cleaned)) {
+    return {
+      parts: [Number(cleaned.slice(0, 4)), Number(cleaned.slice(4, 6)), Number(cleaned.slice(6, 8))],
+      yearFirst: true
+    };
+  }
+  const tokens = cleaned.split(/[/\-.]/);
+  if (tokens.length !== 3 || tokens.some(t => !/^\d+$/.test(t))) return null;
+  return { parts: tokens.map(Number), yearFirst: tokens[0].length === 4 };
+};
+
+// Infer the day/month order from the whole column; unambiguous rows decide it
+export const detectDateFormat = (samples: string[]): { format: Exclude<DateFormat, 'auto'>; ambiguous: boolean } => {
+  const split = samples.map(splitDateParts).filter((s): s is NonNullable<typeof s> => s !== null);
+  if (split.length === 0) return { format: 'YMD', ambiguous: false };
+  if (split.filter(s => s.yearFirst).length * 2 >= split.length) return { format: 'YMD', ambiguous: false };
+
+  if (split.some(s => s.parts[0] > 12)) return { format: 'DMY', ambiguous: false };
+  if (split.some(s => s.parts[1] > 12)) return { format: 'MDY', ambiguous: false };
+  return { format: 'MDY', ambiguous: true };
+};
+
+// Parse a date cell in the given order; rejects impossible dates such as 2025/2/30
+export const parseDateString = (raw: string, format: Exclude<DateFormat, 'auto'>): Date | null => {
+  const split = splitDateParts(raw);
+  if (!split) return null;
+
+  const [a, b, c] = split.parts;
+  let year: number, month: number, day: number;
+  if (split.yearFirst || format === 'YMD') {
+    [year, month, day] = [a, b, c];
+  } else if (format === 'DMY') {
+    [day, month, year] = [a, b, c];
+  } else {
+    [month, day, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+// App-wide display convention, matching the bundled sample ("2025/1/2")
+export const formatCanonicalDate = (date: Date) =>
+  `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`;
+
+// A ',' is decimal if any cell has both separators with ',' last, or ',' followed by other than 3 digits
+export const detectDecimalSeparator = (samples: string[]): '.' | ',' => {
+  for (const raw of samples) {
+    const cleaned = raw.replace(/[^\d.,]/g, '');
+    const lastDot = cleaned.lastIndexOf('.');
+    const lastComma = cleaned.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) return lastComma > lastDot ? ',' : '.';
+    if (lastComma >= 0 && !/,\d{3}$/.test(cleaned)) return ',';
+    if (/^\d{1,3}(\.\d{3}){2,}$/.test(cleaned)) return ',';
+  }
+  return '.';
+};
+
+// Parse "29,274,379", "1.234,5", "$ 1,200", "(3,000)" and similar; undefined when not a number
+export const parseLocaleNumber = (raw: string | undefined, decimalSeparator: '.' | ',' = '.'): number | undefined => {
+  if (raw === undefined) return undefined;
+  let cleaned = raw.replace(/["'\s]/g, '');
+  if (cleaned === '' || cleaned === '-') return undefined;
+
+  const negative = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[^\d.,\-+]/g, '');
+  cleaned = decimalSeparator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) return undefined;
+  const parsed = parseFloat(cleaned);
+  return negative ? -parsed : parsed;
+};
+
+export const findAliasColumn = (headers: string[], aliases: string[]) => {
+  const normalized = headers.map(h => h.toLowerCase().replace(/["']/g, '').trim());
+  const idx = normalized.findIndex(h => aliases.includes(h));
+  return idx >= 0 ? idx : null;
+};
+
+const mergeDuplicates = (points: StockDataPoint[], policy: DuplicateDatePolicy): StockDataPoint => {
+  if (policy === 'first') return points[0];
+  if (policy === 'last') return points[points.length - 1];
+
+  const avg = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+  const indices = points.map(p => p.index).filter((i): i is number => i !== undefined);
+  const flows = points.map(p => p.flow).filter((f): f is number => f !== undefined);
+  const notes = points.map(p => p.note).filter((n): n is string => !!n);
+
+  return {
+    ...points[0],
+    value: Math.round(avg(points.map(p => p.value))),
+    index: indices.length > 0 ? avg(indices) : undefined,
+    // Flows are events rather than levels, so they add up
+    flow: flows.length > 0 ? flows.reduce((acc, f) => acc + f, 0) : undefined,
+    note: notes.length > 0 ? notes.join('; ') : undefined
+  };
+};
+
+export const importCSV = (text: string, options: ImportOptions = {}): ImportResult => {
+  const duplicatePolicy = options.duplicatePolicy ?? 'last';
+  const warnings: ImportIssue[] = [];
+  const rejected: RejectedRow[] = [];
+
+  const lines = normalizeCSVText(text).split('\n');
+  const delimiter = detectDelimiter(lines.filter(l => l.trim() !== ''));
+  const rows = lines.map(line => splitDelimitedLine(line, delimiter));
+
+  // A first row whose leading cell is not a date is a header
+  const hasHeader = rows.length > 0 && splitDateParts(rows[0][0] ?? '') === null;
+  const headers = hasHeader ? rows[0] : [];
+
+  const dateCol = (hasHeader ? findAliasColumn(headers, COLUMN_ALIASES.date) : null) ?? 0;
+  const valueCol = (hasHeader ? findAliasColumn(headers, COLUMN_ALIASES.value) : null) ?? 1;
+  const flowCol = hasHeader ? findAliasColumn(headers, COLUMN_ALIASES.flow) : null;
+  // Notes are only read from a named column; free text never counts as a positional column
+  const noteCol = hasHeader ? findAliasColumn(headers, COLUMN_ALIASES.note) : null;
+  let indexCol = hasHeader ? findAliasColumn(headers, COLUMN_ALIASES.index) : null;
+  // Fall back to the positional third column (date, value, index) when it isn't claimed
+  if (indexCol === null && rows.length > 0 && rows[0].length > 2 && flowCol !== 2 && noteCol !== 2 && dateCol !== 2 && valueCol !== 2) {
+    const headerName = headers[2]?.toLowerCase().trim();
+    if (!hasHeader || !headerName || !Object.values(COLUMN_ALIASES).some(a => a.includes(headerName))) {
+      indexCol = 2;
+    }
+  }
+  if (hasHeader && findAliasColumn(headers, COLUMN_ALIASES.value) === null) {
+    warnings.push({ code: 'valueColumnGuessed', params: { column: valueCol + 1, header: headers[valueCol] ?? '' } });
+  }
+
+  const firstDataLine = hasHeader ? 1 : 0;
+  const dataRows = rows.slice(firstDataLine);
+
+  const detected = detectDateFormat(dataRows.map(r => r[dateCol] ?? ''));
+  const dateFormat = options.dateFormat && options.dateFormat !== 'auto' ? options.dateFormat : detected.format;
+  if ((!options.dateFormat || options.dateFormat === 'auto') && detected.ambiguous) {
+    warnings.push({ code: 'ambiguousDayMonth' });
+  }
+
+  const numericSamples = dataRows.flatMap(r => [r[valueCol], indexCol !== null ? r[indexCol] : undefined])
+    .filter((v): v is string => v !== undefined && v !== '');
+  const decimalSeparator = options.decimalSeparator && options.decimalSeparator !== 'auto'
+    ? options.decimalSeparator
+    : detectDecimalSeparator(numericSamples);
+
+  const points: StockDataPoint[] = [];
+  let badIndexCount = 0;
+
+  dataRows.forEach((fields, i) => {
+    const line = i + firstDataLine + 1;
+    const raw = lines[i + firstDataLine];
+    if (raw.trim() === '') return;
+
+    const reject = (reason: ImportIssue) => rejected.push({ line, raw, reason });
+
+    if (fields.length <= Math.max(dateCol, valueCol)) return reject({ code: 'tooFewColumns' });
+
+    const dateObj = parseDateString(fields[dateCol], dateFormat);
+    if (!dateObj) return reject({ code: 'badDate', params: { text: fields[dateCol] } });
+
+    const value = parseLocaleNumber(fields[valueCol], decimalSeparator);
+    if (value === undefined) return reject({ code: 'badValue', params: { text: fields[valueCol] } });
+
+    const point: StockDataPoint = {
+      date: formatCanonicalDate(dateObj),
+      dateObj,
+      value: Math.round(value)
+    };
+
+    if (indexCol !== null && fields[indexCol]) {
+      const index = parseLocaleNumber(fields[indexCol], decimalSeparator);
+      if (index === undefined) badIndexCount++;
+      else point.index = index;
+    }
+
+    if (flowCol !== null && fields[flowCol]) {
+      const flow = parseLocaleNumber(fields[flowCol], decimalSeparator);
+      if (flow === undefined) warnings.push({ code: 'badFlow', params: { line, text: fields[flowCol] } });
+      else if (flow !== 0) point.flow = flow;
+    }
+
+    const note = noteCol !== null ? fields[noteCol]?.trim() : undefined;
+    if (note) point.note = note;
+
+    points.push(point);
+  });
+
+  if (badIndexCount > 0) {
+    warnings.push({ code: 'badIndex', params: { count: badIndexCount } });
+  }
+
+  // Group by calendar day and resolve duplicates with the chosen policy
+  const byDate = new Map<string, StockDataPoint[]>();
+  points.forEach(point => {
+    const group = byDate.get(point.date);
+    if (group) group.push(point);
+    else byDate.set(point.date, [point]);
+  });
+
+  const duplicateDates: string[] = [];
+  const data: StockDataPoint[] = [];
+  byDate.forEach((group, date) => {
+    if (group.length > 1) duplicateDates.push(date);
+    data.push(group.length > 1 ? mergeDuplicates(group, duplicatePolicy) : group[0]);
+  });
+
+  if (duplicateDates.length > 0) {
+    warnings.push({ code: 'duplicates', params: { count: duplicateDates.length, policy: duplicatePolicy, dates: duplicateDates.join(', ') } });
+  }
+
+  const isSorted = points.every((p, i) => i === 0 || p.dateObj.getTime() >= points[i - 1].dateObj.getTime());
+  if (!isSorted) warnings.push({ code: 'unsorted' });
+
+  data.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+
+  const report: ImportReport = {
+    delimiter,
+    hasHeader,
+    columns: { date: dateCol, value: valueCol, index: indexCol, flow: flowCol, note: noteCol },
+    dateFormat,
+    decimalSeparator,
+    rowsRead: dataRows.filter((_, i) => lines[i + firstDataLine].trim() !== '').length,
+    rowsAccepted: data.length,
+    duplicateDates,
+    rejected,
+    warnings
+  };
+
+  return { data, report };
+};
+
+const DUPLICATE_POLICY_LABELS: Record<DuplicateDatePolicy, TranslationKey> = {
+  last: 'import.keepLast',
+  first: 'import.keepFirst',
+  average: 'import.average'
+};
+
+export const describeImportIssue = (issue: ImportIssue, t: Translate) => {
+  const params = { ...issue.params };
+  if (issue.code === 'duplicates') params.policy = t(DUPLICATE_POLICY_LABELS[params.policy as DuplicateDatePolicy]);
+  return t(`importIssue.${issue.code}` as const, params);
+};
+
+const sameOptional = (a: number | undefined, b: number | undefined) => (a ?? null) === (b ?? null);
+
+// Classify incoming rows by date against the existing series
+export const diffSeries = (existing: StockDataPoint[], incoming: StockDataPoint[]): SeriesDiff => {
+  const byDate = new Map(existing.map(point => [point.date, point]));
+  const diff: SeriesDiff = { added: [], changed: [], conflicts: [], unchanged: 0 };
+
+  incoming.forEach(point => {
+    const before = byDate.get(point.date);
+    if (!before) {
+      diff.added.push(point);
+      return;
+    }
+    // Empty cells in the batch keep what we already have
+    const after: StockDataPoint = {
+      ...before,
+      value: point.value,
+      index: point.index ?? before.index,
+      flow: point.flow ?? before.flow,
+      note: point.note ?? before.note
+    };
+    const change: SeriesChange = { date: point.date, before, after };
+
+    if (before.value !== after.value) diff.conflicts.push(change);
+    else if (!sameOptional(before.index, after.index) || !sameOptional(before.flow, after.flow) || before.note !== after.note) {
+      diff.changed.push(change);
+    }
+    else diff.unchanged++;
+  });
+
+  return diff;
+};
+
+// Apply a diff. Conflicting dates take the incoming row only when listed in `acceptedConflicts`.
+export const mergeSeries = (existing: StockDataPoint[], diff: SeriesDiff, acceptedConflicts: Set<string>): StockDataPoint[] => {
+  const replacements = new Map<string, StockDataPoint>();
+  diff.changed.forEach(change => replacements.set(change.date, change.after));
+  diff.conflicts
+    .filter(change => acceptedConflicts.has(change.date))
+    .forEach(change => replacements.set(change.date, change.after));
+
+  return [...existing.map(point => replacements.get(point.date) ?? point), ...diff.added]
+    .sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+const formatCSVNumber = (val: number | undefined) => val === undefined ? '' : `"${val.toLocaleString('en-US', { maximumFractionDigits: 6 })}"`;
+
+// Write a series back to CSV in the sample's layout, so the result round-trips through parseCSV
+export const serializeCSV = (data: StockDataPoint[]): string => {
+  const hasFlow = data.some(point => point.flow !== undefined);
+  const hasNote = data.some(point => !!point.note);
+  const header = ['date', 'value', 'index', ...(hasFlow ? ['flow'] : []), ...(hasNote ? ['note'] : [])].join(',');
+  const rows = data.map(point => {
+    const cells = [point.date, formatCSVNumber(point.value), point.index === undefined ? '' : String(point.index)];
+    if (hasFlow) cells.push(formatCSVNumber(point.flow));
+    if (hasNote) cells.push(point.note ? `"${point.note.replace(/"/g, '""')}"` : '');
+    return cells.join(',');
+  });
+  return [header, ...rows].join('\n') + '\n';
+};
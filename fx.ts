@@ -0,0 +1,167 @@
+import { FxDecomposition, FxQuote, ReturnMode, StockDataPoint } from './types';
+import {
+  COLUMN_ALIASES,
+  detectDateFormat,
+  detectDecimalSeparator,
+  detectDelimiter,
+  findAliasColumn,
+  formatCanonicalDate,
+  normalizeCSVText,
+  parseDateString,
+  parseLocaleNumber,
+  splitDelimitedLine
+} from './csvImport';
+import { calculateReturns } from './utils';
+
+const FX_ALIASES = {
+  base: ['base', 'from', 'currency', 'ccy', '幣別'],
+  quote: ['quote', 'to', 'counter'],
+  rate: ['rate', 'fx', 'fx rate', 'close', 'mid', '匯率']
+};
+
+// "USD/TWD", "USD-TWD", "USDTWD" or "USD TWD"
+const parsePairHeader = (header: string) => {
+  const match = header.replace(/["']/g, '').trim().toUpperCase().match(/^([A-Z]{3})[\s/_-]?([A-Z]{3})$/);
+  return match ? { base: match[1], quote: match[2] } : null;
+};
+
+// Long (date,base,quote,rate) or wide (date plus one column per pair, e.g. USD/TWD)
+export const parseFxCSV = (text: string): FxQuote[] => {
+  const lines = normalizeCSVText(text).split('\n').filter(l => l.trim() !== '');
+  if (lines.length < 2) return [];
+  const delimiter = detectDelimiter(lines);
+  const headers = splitDelimitedLine(lines[0], delimiter);
+  const rows = lines.slice(1).map(line => splitDelimitedLine(line, delimiter));
+
+  const dateCol = findAliasColumn(headers, COLUMN_ALIASES.date) ?? 0;
+  const baseCol = findAliasColumn(headers, FX_ALIASES.base);
+  const quoteCol = findAliasColumn(headers, FX_ALIASES.quote);
+  const rateCol = findAliasColumn(headers, FX_ALIASES.rate);
+
+  // Each entry reads one rate per row along with the pair it belongs to
+  const columns: { col: number; pair: (fields: string[]) => { base: string; quote: string } | null }[] =
+    baseCol !== null && quoteCol !== null && rateCol !== null
+      ? [{
+          col: rateCol,
+          pair: fields => {
+            const base = (fields[baseCol] ?? '').trim().toUpperCase();
+            const quote = (fields[quoteCol] ?? '').trim().toUpperCase();
+            return base && quote ? { base, quote } : null;
+          }
+        }]
+      : headers
+          .map((header, col) => ({ col, pair: parsePairHeader(header) }))
+          .filter(({ col, pair }) => col !== dateCol && pair !== null)
+          .map(({ col, pair }) => ({ col, pair: () => pair }));
+
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const decimalSeparator = detectDecimalSeparator(rows.flatMap(r => columns.map(c => r[c.col] ?? '')));
+
+  const quotes: FxQuote[] = [];
+  rows.forEach(fields => {
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    if (!dateObj) return;
+    columns.forEach(({ col, pair }) => {
+      const rate = parseLocaleNumber(fields[col], decimalSeparator);
+      const names = pair(fields);
+      if (rate !== undefined && rate > 0 && names && names.base !== names.quote) {
+        quotes.push({ date: formatCanonicalDate(dateObj), dateObj, ...names, rate });
+      }
+    });
+  });
+  return quotes.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+// A re-imported pair and date replaces the stored rate
+export const mergeFxQuotes = (existing: FxQuote[], incoming: FxQuote[]): FxQuote[] => {
+  const keyOf = (q: FxQuote) => `${q.base}/${q.quote}@${q.date}`;
+  const incomingKeys = new Set(incoming.map(keyOf));
+  return [...existing.filter(q => !incomingKeys.has(keyOf(q))), ...incoming]
+    .sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+export const fxCurrencies = (quotes: FxQuote[]) => {
+  const currencies = new Set<string>();
+  quotes.forEach(q => {
+    currencies.add(q.base);
+    currencies.add(q.quote);
+  });
+  return [...currencies];
+};
+
+type RateLookup = (date: Date) => number;
+
+// Rate as of a day: the last quote on or before it, or the first quote for days before the file starts
+const pairLookup = (quotes: FxQuote[], base: string, quote: string): RateLookup | null => {
+  const direct = quotes.filter(q => q.base === base && q.quote === quote).map(q => ({ time: q.dateObj.getTime(), rate: q.rate }));
+  const inverse = quotes.filter(q => q.base === quote && q.quote === base).map(q => ({ time: q.dateObj.getTime(), rate: 1 / q.rate }));
+  const series = [...direct, ...inverse].sort((a, b) => a.time - b.time);
+  if (series.length === 0) return null;
+
+  return (date: Date) => {
+    const time = date.getTime();
+    let lo = 0;
+    let hi = series.length - 1;
+    // Binary search for the last quote at or before `time`
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (series[mid].time <= time) lo = mid;
+      else hi = mid - 1;
+    }
+    return series[lo].rate;
+  };
+};
+
+// Converter from one currency to another: a direct or inverse pair, or a cross through a currency
+// both are quoted against (e.g. TWD→EUR via USD). Null when the file has no path between them.
+export const createFxConverter = (quotes: FxQuote[], from: string, to: string): RateLookup | null => {
+  if (from === to) return () => 1;
+  const direct = pairLookup(quotes, from, to);
+  if (direct) return direct;
+
+  for (const via of fxCurrencies(quotes)) {
+    if (via === from || via === to) continue;
+    const first = pairLookup(quotes, from, via);
+    const second = first && pairLookup(quotes, via, to);
+    if (first && second) return (date: Date) => first(date) * second(date);
+  }
+  return null;
+};
+
+// Values, flows and the index at each day's rate. The index is converted too, so it stays a fair
+// benchmark for a portfolio shown in another currency. Null when no rate path exists.
+export const convertSeries = (data: StockDataPoint[], from: string, to: string, quotes: FxQuote[]): StockDataPoint[] | null => {
+  if (from === to) return data;
+  const rateOn = createFxConverter(quotes, from, to);
+  if (!rateOn) return null;
+  return data.map(point => {
+    const rate = rateOn(point.dateObj);
+    return {
+      ...point,
+      value: point.value * rate,
+      index: point.index !== undefined ? point.index * rate : undefined,
+      flow: point.flow !== undefined ? point.flow * rate : undefined
+    };
+  });
+};
+
+// Splits the base-currency return of a converted series into the local-market and currency parts.
+// The parts compound: (1 + total) = (1 + local) × (1 + fx).
+export const calculateFxDecomposition = (
+  local: StockDataPoint[],
+  converted: StockDataPoint[],
+  localCurrency: string,
+  baseCurrency: string,
+  mode: ReturnMode
+): FxDecomposition | null => {
+  const localReturns = calculateReturns(local);
+  const baseReturns = calculateReturns(converted);
+  if (!localReturns || !baseReturns) return null;
+  const pick = (r: typeof localReturns) => mode === 'flowAdjusted' ? r.twrPercent : r.simpleReturnPercent;
+  const totalPercent = pick(baseReturns);
+  const localPercent = pick(localReturns);
+  const localFactor = 1 + localPercent / 100;
+  // A series that lost everything locally has no currency return left to measure
+  const fxPercent = localFactor > 0 ? ((1 + totalPercent / 100) / localFactor - 1) * 100 : 0;
+  return { localCurrency, baseCurrency, totalPercent, localPercent, fxPercent };
+};
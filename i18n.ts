@@ -0,0 +1,429 @@
+import { UiLanguage } from './types';
+
+// UI labels as [English, Traditional Chinese]. Generated text for the analyst (prompts, tool
+// results) stays in English; the model answers in the language it is asked in.
+const STRINGS = {
+  // Risk metrics
+  'risk.title': ['Risk Metrics', '風險指標'],
+  'risk.riskFree': ['Risk-free rate', '無風險利率'],
+  'risk.notEnough': ['Select a range with at least three data points to compute risk metrics.', '請選取至少包含三個資料點的區間以計算風險指標。'],
+  'risk.volatility': ['Volatility (ann.)', '波動率（年化）'],
+  'risk.dailyReturns': ['{count} daily returns', '{count} 筆日報酬'],
+  'risk.maxDrawdown': ['Max Drawdown', '最大回撤'],
+  'risk.recovered': ['recovered {date}', '{date} 回復'],
+  'risk.notRecovered': ['not recovered', '尚未回復'],
+  'risk.sharpe': ['Sharpe', '夏普值'],
+  'risk.sortino': ['Sortino', '索提諾比率'],
+  'risk.return': ['Return (ann.)', '報酬率（年化）'],
+  'risk.beta': ['Beta', 'Beta'],
+  'risk.alpha': ['Alpha (ann.)', 'Alpha（年化）'],
+  'risk.correlation': ['Correlation', '相關係數'],
+  'risk.trackingError': ['Tracking Error', '追蹤誤差'],
+
+  // Monthly returns heatmap
+  'heatmap.title': ['Monthly Returns', '每月報酬'],
+  'heatmap.timeWeighted': ['(time-weighted)', '（時間加權）'],
+  'heatmap.valueChange': ['(value change)', '（市值變動）'],
+  'heatmap.portfolio': ['Portfolio', '投資組合'],
+  'heatmap.index': ['Index', '指數'],
+  'heatmap.excess': ['Excess', '超額報酬'],
+  'heatmap.year': ['Year', '年度'],
+  'heatmap.na': ['n/a', '無資料'],
+
+  // Printable report summary
+  'report.title': ['{name} — Performance Report', '{name} — 績效報告'],
+  'report.generated': ['Generated {time}', '產生於 {time}'],
+  'report.period': ['Period', '期間'],
+  'report.startValue': ['Start value', '期初市值'],
+  'report.endValue': ['End value', '期末市值'],
+  'report.valueChange': ['Value change', '市值變動'],
+  'report.marketIndex': ['Market index', '大盤指數'],
+  'report.netFlows': ['Net deposits / withdrawals', '淨入金／出金'],
+  'report.twr': ['Time-weighted return', '時間加權報酬率'],
+  'report.mwr': ['Money-weighted return (XIRR)', '金額加權報酬率（XIRR）'],
+  'report.volatility': ['Volatility (ann.)', '波動率（年化）'],
+  'report.maxDrawdown': ['Max drawdown', '最大回撤'],
+  'report.sharpe': ['Sharpe ratio', '夏普值'],
+
+  // Charts
+  'charts.title': ['Portfolio vs Market Index', '投資組合與大盤指數'],
+  'charts.showEvents': ['Show events', '顯示事件'],
+  'charts.hideEvents': ['Hide events', '隱藏事件'],
+  'charts.modeValue': ['Value', '市值'],
+  'charts.modeRebased': ['Rebased %', '基準化 %'],
+  'charts.modeCompare': ['Compare', '比較'],
+  'charts.portfolio': ['Portfolio', '投資組合'],
+  'charts.index': ['Index', '指數'],
+  'charts.marketIndex': ['Market Index', '大盤指數'],
+  'charts.relativeStrength': ['Relative Strength', '相對強弱'],
+  'charts.upperBand': ['Upper Band', '上軌'],
+  'charts.lowerBand': ['Lower Band', '下軌'],
+  'charts.bandSma': ['Band SMA {window}', '布林中軌 SMA {window}'],
+  'charts.rollingTitle': ['Rolling {window}-day Return & Volatility', '滾動 {window} 日報酬與波動率'],
+  'charts.return': ['Return', '報酬'],
+  'charts.volatilityAnn': ['Volatility (ann.)', '波動率（年化）'],
+  'charts.volatility': ['Volatility', '波動率'],
+  'charts.drawdownTitle': ['Drawdown from Peak', '自高點回撤'],
+  'charts.atPeak': ['at peak', '位於高點'],
+  'charts.daysSincePeak': ['{days}d since peak', '距高點 {days} 天'],
+  'charts.weekly': ['Weekly', '每週'],
+  'charts.monthly': ['Monthly', '每月'],
+  'charts.quarterly': ['Quarterly', '每季'],
+  'charts.yearly': ['Yearly', '每年'],
+  'charts.periodShortWeek': ['W', '週'],
+  'charts.periodShortMonth': ['M', '月'],
+  'charts.periodShortQuarter': ['Q', '季'],
+  'charts.periodShortYear': ['Y', '年'],
+  'charts.periodReturnTwr': ['{period} Return (%, time-weighted)', '{period}報酬（%，時間加權）'],
+  'charts.periodGainFlow': ['{period} Investment Gain ({unit}, flow-adjusted)', '{period}投資損益（{unit}，扣除資金流）'],
+  'charts.periodGrowth': ['{period} Growth ({unit})', '{period}成長（{unit}）'],
+  'charts.netFlows': ['Net flows: {amount}', '淨資金流：{amount}'],
+  'charts.currentMonth': ['Current Month Details', '本月明細'],
+  'charts.totalChange': ['Total Change', '總變動'],
+  'charts.totalIndex': ['Total Index', '指數總變動'],
+  'charts.date': ['Date', '日期'],
+  'charts.netValue': ['Net Value', '淨值'],
+  'charts.dailyChange': ['Daily Change', '日變動'],
+  'charts.indexChange': ['Index Change', '指數變動'],
+  'charts.trend': ['Trend (7d)', '走勢（7 日）'],
+
+  // Chart overlays
+  'overlay.title': ['Overlays', '疊加指標'],
+  'overlay.sma': ['SMA', 'SMA'],
+  'overlay.ema': ['EMA', 'EMA'],
+  'overlay.bollinger': ['Bollinger', '布林通道'],
+  'overlay.rolling': ['Rolling return / vol', '滾動報酬／波動'],
+  'overlay.window': ['Window (trading days)', '期間（交易日）'],
+  'overlay.width': ['Band width (standard deviations)', '通道寬度（標準差）'],
+  'overlay.valueViewOnly': ['Moving averages and bands are shown in the Value view.', '移動平均與通道僅在市值檢視中顯示。'],
+
+  // Export menu
+  'export.title': ['Export', '匯出'],
+  'export.csv': ['Data as CSV', '資料（CSV）'],
+  'export.json': ['Data as JSON', '資料（JSON）'],
+  'export.png': ['Chart as PNG', '圖表（PNG）'],
+  'export.svg': ['Chart as SVG', '圖表（SVG）'],
+
+  // Shared actions
+  'common.cancel': ['Cancel', '取消'],
+  'common.add': ['Add', '新增'],
+  'common.save': ['Save', '儲存'],
+  'common.edit': ['Edit', '編輯'],
+  'common.delete': ['Delete', '刪除'],
+  'common.dismiss': ['Dismiss', '關閉'],
+
+  // Chart events
+  'events.title': ['Events', '事件'],
+  'events.add': ['Add event', '新增事件'],
+  'events.empty': ['No events yet. Add one, pin an analyst answer, or import a CSV with a note column.', '尚無事件。可自行新增、釘選分析師的回答，或匯入含備註欄的 CSV。'],
+  'events.sourceAnalyst': ['Analyst', '分析師'],
+  'events.sourceCsv': ['CSV', 'CSV'],
+  'events.labelPlaceholder': ['Label, e.g. Rebalanced', '標籤，例如：再平衡'],
+  'events.day': ['Day', '日'],
+  'events.month': ['Month', '月'],
+  'events.notePlaceholder': ['Note (optional)', '備註（選填）'],
+
+  // Model errors, by ChatErrorKind
+  'llmError.missingApiKey': ["The analyst isn't set up: the API key is missing or was rejected. Set API_KEY (or choose another LLM_PROVIDER) and reload.", '分析師尚未設定：API 金鑰缺少或遭拒。請設定 API_KEY（或改選其他 LLM_PROVIDER）後重新載入。'],
+  'llmError.rateLimit': ['The model provider is rate limiting requests or the quota has run out. Wait a moment and try again.', '模型服務正在限制請求頻率或額度已用完，請稍候再試。'],
+  'llmError.network': ["Can't reach the model provider. Check your connection and try again.", '無法連線至模型服務，請檢查網路後再試。'],
+  'llmError.invalidResponse': ["The model sent a response the analyst couldn't read. Try again or rephrase the question.", '模型回傳了無法解讀的內容，請再試一次或換個方式提問。'],
+  'llmError.aborted': ['Stopped.', '已停止。'],
+  'llmError.unknown': ['Something went wrong while talking to the model.', '與模型通訊時發生錯誤。'],
+
+  // Analyst chat
+  'chat.welcome': ['Hello! I analyzed your portfolio data. Ask me about trends, growth, or specific dates.', '您好！我已分析您的投資組合資料，歡迎詢問趨勢、成長或特定日期的表現。'],
+  'chat.title': ['Portfolio Analyst', '投資組合分析師'],
+  'chat.poweredBy': ['Powered by {provider}', '由 {provider} 提供'],
+  'chat.flowAdjusted': ['flow-adjusted', '扣除資金流'],
+  'chat.nowLooking': ['Now looking at {view}', '目前檢視：{view}'],
+  'chat.newConversation': ['New conversation', '新對話'],
+  'chat.conversations': ['Conversations', '對話紀錄'],
+  'chat.rename': ['Rename conversation', '重新命名對話'],
+  'chat.exportMarkdown': ['Export as Markdown', '匯出為 Markdown'],
+  'chat.exportJson': ['Export as JSON', '匯出為 JSON'],
+  'chat.delete': ['Delete conversation', '刪除對話'],
+  'chat.deleteConfirm': ['Delete "{title}"?', '要刪除「{title}」嗎？'],
+  'chat.analyzing': ['Analyzing...', '分析中…'],
+  'chat.retrying': ['{message} Retrying in {seconds}s…', '{message} {seconds} 秒後重試…'],
+  'chat.stopped': ['Stopped', '已停止'],
+  'chat.pin': ['Pin to chart', '釘選到圖表'],
+  'chat.pinned': ['Pinned to chart', '已釘選到圖表'],
+  'chat.retry': ['Retry', '重試'],
+  'chat.tryAgain': ['Try again', '再試一次'],
+  'chat.placeholder': ['Ask about your portfolio...', '詢問您的投資組合…'],
+  'chat.unavailable': ['Analyst unavailable', '分析師無法使用'],
+  'chat.updating': ['Updating context...', '更新資料中…'],
+  'chat.stop': ['Stop generating', '停止產生'],
+
+  // Analyst brief
+  'brief.title': ['Analyst Brief', '分析師摘要'],
+  'brief.writtenBy': ['Written by {model}', '由 {model} 撰寫'],
+  'brief.theAnalyst': ['the analyst', '分析師'],
+  'brief.fromData': ['Summary from the data', '依資料產生的摘要'],
+  'brief.noModel': ['Summary from the data · no model configured', '依資料產生的摘要 · 未設定模型'],
+  'brief.writing': ['Writing brief…', '撰寫摘要中…'],
+  'brief.regenerate': ['Regenerate brief', '重新產生摘要'],
+  'brief.fallback': ['{message} Showing the summary from the data instead.', '{message} 改為顯示依資料產生的摘要。'],
+  'brief.leadUp': ['**{month} so far** ({days} trading days to {date}): {name} is up {amount} ({percent})', '**{month}至今**（截至 {date} 共 {days} 個交易日）：{name} 上漲 {amount}（{percent}）'],
+  'brief.leadDown': ['**{month} so far** ({days} trading days to {date}): {name} is down {amount} ({percent})', '**{month}至今**（截至 {date} 共 {days} 個交易日）：{name} 下跌 {amount}（{percent}）'],
+  'brief.aheadOfIndex': [', against {index} for the index — {points} points ahead', '，同期指數 {index}，領先 {points} 個百分點'],
+  'brief.behindIndex': [', against {index} for the index — {points} points behind', '，同期指數 {index}，落後 {points} 個百分點'],
+  'brief.leadEnd': ['.', '。'],
+  'brief.bestDay': ['**Best day:** {date}, {change} ({percent})', '**最佳單日：**{date}，{change}（{percent}）'],
+  'brief.worstDay': ['**Worst day:** {date}, {change} ({percent})', '**最差單日：**{date}，{change}（{percent}）'],
+  'brief.atHigh': ['**Drawdown:** at a new high on {date}', '**回撤：**{date} 創新高'],
+  'brief.belowPeak': ['**Drawdown:** {percent}% below the {date} peak (deepest drawdown on record {max}%)', '**回撤：**較 {date} 高點低 {percent}%（歷史最大回撤 {max}%）'],
+
+  // Import report and merge dialogs
+  'import.title': ['Import Report', '匯入報告'],
+  'import.rowsRead': ['Rows read', '讀取列數'],
+  'import.accepted': ['Accepted', '已接受'],
+  'import.rejected': ['Rejected', '已拒絕'],
+  'import.delimiter': ['Delimiter', '分隔符號'],
+  'import.comma': ['Comma', '逗號'],
+  'import.semicolon': ['Semicolon', '分號'],
+  'import.tab': ['Tab', 'Tab'],
+  'import.pipe': ['Pipe', '直線'],
+  'import.headerRow': ['Header row', '標題列'],
+  'import.yes': ['Yes', '是'],
+  'import.no': ['No', '否'],
+  'import.columns': ['Columns', '欄位'],
+  'import.decimalSeparator': ['Decimal separator', '小數點符號'],
+  'import.dateFormat': ['Date format', '日期格式'],
+  'import.auto': ['Auto ({format})', '自動（{format}）'],
+  'import.ymd': ['Year/Month/Day', '年/月/日'],
+  'import.mdy': ['Month/Day/Year (US)', '月/日/年（美式）'],
+  'import.dmy': ['Day/Month/Year (EU)', '日/月/年（歐式）'],
+  'import.duplicates': ['Duplicate dates', '重複日期'],
+  'import.keepLast': ['Keep last', '保留最後一筆'],
+  'import.keepFirst': ['Keep first', '保留第一筆'],
+  'import.average': ['Average', '取平均'],
+  'import.rejectedRows': ['Rejected rows', '已拒絕的列'],
+  'import.line': ['Line', '行號'],
+  'import.content': ['Content', '內容'],
+  'import.reason': ['Reason', '原因'],
+  'import.more': ['…and {count} more', '…另有 {count} 筆'],
+  'import.noIssues': ['No issues found.', '未發現問題。'],
+  'import.noRows': ['No usable rows', '沒有可用的資料列'],
+  'import.replace': ['Replace dataset', '取代資料集'],
+  'importIssue.tooFewColumns': ['Too few columns', '欄位不足'],
+  'importIssue.badDate': ['Unrecognised date "{text}"', '無法辨識的日期「{text}」'],
+  'importIssue.badValue': ['Invalid value "{text}"', '無效的數值「{text}」'],
+  'importIssue.badFlow': ['Line {line}: ignored invalid cash flow "{text}".', '第 {line} 行：已忽略無效的出入金「{text}」。'],
+  'importIssue.valueColumnGuessed': ['No value column header recognised; using column {column} ("{header}").', '無法辨識淨值欄位標題，改用第 {column} 欄（「{header}」）。'],
+  'importIssue.ambiguousDayMonth': ['Day/month order is ambiguous (no day above 12); assumed month/day/year.', '無法判斷日與月的順序（沒有大於 12 的日期），已假設為月/日/年。'],
+  'importIssue.badIndex': ['{count} row(s) had an unreadable index value; the index was left empty for them.', '{count} 列的指數值無法讀取，這些列的指數已留空。'],
+  'importIssue.duplicates': ['{count} duplicate date(s) resolved with "{policy}": {dates}.', '{count} 個重複日期已以「{policy}」處理：{dates}。'],
+  'importIssue.unsorted': ['Rows were not in chronological order and have been sorted by date.', '資料列未依時間排序，已依日期重新排序。'],
+  'importIssue.tooFewLines': ['The file needs a header row and at least one holding.', '檔案需要一列標題及至少一筆持股。'],
+  'importIssue.noSymbolColumn': ['No symbol column found in the header ("{header}").', '標題列中找不到代號欄位（「{header}」）。'],
+  'importIssue.noValueColumn': ['No value or quantity column found in the header.', '標題列中找不到市值或數量欄位。'],
+  'importIssue.missingSymbol': ['Missing symbol', '缺少代號'],
+  'importIssue.noPrice': ['No price for {symbol} on or before this date', '此日期（含）之前沒有 {symbol} 的價格'],
+  'importIssue.missingValue': ['Missing value and quantity', '缺少市值與數量'],
+  'merge.title': ['Merge New Rows', '合併新資料'],
+  'merge.into': ['Into {name} · matched by date', '併入 {name} · 依日期比對'],
+  'merge.paste': ['Paste rows (date,value,index) or load a CSV', '貼上資料列（日期,市值,指數）或載入 CSV'],
+  'merge.loadFile': ['Load file', '載入檔案'],
+  'merge.added': ['Added', '新增'],
+  'merge.changed': ['Changed', '變更'],
+  'merge.conflicts': ['Conflicts', '衝突'],
+  'merge.unchanged': ['Unchanged', '未變更'],
+  'merge.skipped': ['{count} row(s) could not be read and will be skipped:', '{count} 列無法讀取，將略過：'],
+  'merge.lineReason': ['line {line} ({reason})', '第 {line} 行（{reason}）'],
+  'merge.addedDates': ['Added dates', '新增日期'],
+  'merge.date': ['Date', '日期'],
+  'merge.current': ['Current (value / index)', '目前（市值 / 指數）'],
+  'merge.incoming': ['Incoming', '匯入值'],
+  'merge.useIncoming': ['Use incoming', '採用匯入值'],
+  'merge.fillsGaps': ['fills gaps', '補齊缺漏'],
+  'merge.apply': ['Apply merge', '套用合併'],
+
+  // Portfolio switcher
+  'portfolio.rename': ['Rename portfolio', '重新命名投資組合'],
+  'portfolio.removeConfirm': ['Remove "{name}" and its imported data?', '要移除「{name}」及其匯入的資料嗎？'],
+  'portfolio.allCombined': ['All accounts (combined)', '所有帳戶（合併）'],
+  'portfolio.currencyTitle': ['Currency this dataset is recorded in', '此資料集的記錄幣別'],
+  'portfolio.remove': ['Remove portfolio', '移除投資組合'],
+  'portfolio.add': ['Add portfolio from CSV', '從 CSV 新增投資組合'],
+
+  // Contribution by holding
+  'attribution.title': ['Contribution by Holding', '個股貢獻'],
+  'attribution.vsTwr': ['(vs. time-weighted growth)', '（相對時間加權成長）'],
+  'attribution.vsValue': ['(vs. value change)', '（相對市值變動）'],
+  'attribution.transactions': ['Transactions', '交易紀錄'],
+  'attribution.transactionsTitle': ['Import transactions: date, symbol, type (buy/sell/dividend/fee), quantity, price, amount', '匯入交易紀錄：日期、代號、類別（買進/賣出/股利/費用）、數量、價格、金額'],
+  'attribution.prices': ['Prices', '價格'],
+  'attribution.pricesTitle': ['Import prices: date, symbol, close — or date plus one column per symbol', '匯入價格：日期、代號、收盤價，或日期加上每個代號一欄'],
+  'attribution.remove': ['Remove ledger', '移除交易紀錄'],
+  'attribution.empty': ['Import a transactions ledger (buy, sell, dividend and fee rows by symbol) and a price file to see which holdings drove each month. Without one, the dashboard works from the daily totals alone.', '匯入交易紀錄（依代號的買進、賣出、股利與費用）及價格檔，即可查看每月由哪些持股帶動。未匯入時，儀表板僅依每日總額運作。'],
+  'attribution.month': ['Month', '月份'],
+  'attribution.other': ['Other', '其他'],
+  'attribution.cashOther': ['Cash & other', '現金及其他'],
+  'attribution.cashOtherTitle': ['Cash, deposits and anything the ledger does not cover', '現金、存款及交易紀錄未涵蓋的部分'],
+  'attribution.total': ['Total', '合計'],
+  'attribution.cellTitle': ['Start {start} · End {end} · Net bought {net} · Income {income}', '期初 {start} · 期末 {end} · 淨買進 {net} · 收入 {income}'],
+  'attribution.coverage': ['{count} holding(s) worth {holdings} on {date}, against a reported value of {reported} ({currency}).', '{date} 共 {count} 檔持股，價值 {holdings}，對照申報市值 {reported}（{currency}）。'],
+  'attribution.noPrices': [' No price file yet, so holdings are valued at their last trade price.', '尚無價格檔，持股以最後成交價估值。'],
+
+  // Allocation
+  'allocation.title': ['Allocation', '資產配置'],
+  'allocation.symbol': ['Symbol', '個股'],
+  'allocation.sector': ['Sector', '產業'],
+  'allocation.assetClass': ['Asset class', '資產類別'],
+  'allocation.donut': ['Donut', '環圈圖'],
+  'allocation.treemap': ['Treemap', '矩形樹狀圖'],
+  'allocation.holdings': ['Holdings', '持股'],
+  'allocation.holdingsTitle': ['Import holdings: date, symbol, value (or quantity and price), sector, asset class', '匯入持股：日期、代號、市值（或數量與價格）、產業、資產類別'],
+  'allocation.remove': ['Remove holdings', '移除持股'],
+  'allocation.empty': ['Import a holdings snapshot (date, symbol, value or quantity, sector, asset class) to see what the portfolio owns, how concentrated it is and how far it has drifted from your targets. Import more dates to track the mix over time.', '匯入持股快照（日期、代號、市值或數量、產業、資產類別），即可查看投資組合的持有內容、集中程度及與目標配置的偏離。匯入更多日期即可追蹤配置變化。'],
+  'allocation.target': ['target {value}%', '目標 {value}%'],
+  'allocation.top1': ['Top 1', '前 1 大'],
+  'allocation.top5': ['Top 5', '前 5 大'],
+  'allocation.hhi': ['HHI', 'HHI'],
+  'allocation.hhiTitle': ['Herfindahl index of symbol weights (0–10,000)', '個股權重的赫芬達爾指數（0–10,000）'],
+  'allocation.effectiveN': ['Effective N', '有效檔數'],
+  'allocation.targets': ['Targets', '目標配置'],
+  'allocation.addTarget': ['Add target', '新增目標'],
+  'allocation.targetPlaceholder': ['Target', '目標'],
+  'allocation.pts': ['pts', '個百分點'],
+  'allocation.noTargets': ['No targets for this breakdown yet.', '此分類尚未設定目標。'],
+  'allocation.deleteTarget': ['Delete target', '刪除目標'],
+  'allocation.overTime': ['Allocation over time', '配置變化'],
+  'allocation.importFailed': ['No holdings could be read from the file; nothing was imported.', '無法從檔案讀取任何持股，未匯入資料。'],
+  'allocation.importSkipped': ['Imported {snapshots} snapshot(s); skipped {count} row(s).', '已匯入 {snapshots} 筆快照，略過 {count} 列。'],
+
+  // Alert center
+  'alerts.title': ['Alerts', '警示'],
+  'alerts.valueBelow': ['Net value below', '淨值低於'],
+  'alerts.valueAbove': ['Net value above', '淨值高於'],
+  'alerts.dailyDrop': ['Daily drop worse than', '單日跌幅超過'],
+  'alerts.drawdown': ['Drawdown beyond', '回撤超過'],
+  'alerts.underperform': ['Trailing the index by', '落後指數超過'],
+  'alerts.overLast': ['over the last', '統計期間'],
+  'alerts.addRule': ['Add rule', '新增規則'],
+  'alerts.deletedPortfolio': ['Deleted portfolio', '已刪除的投資組合'],
+  'alerts.history': ['History', '紀錄'],
+  'alerts.rules': ['Rules ({count})', '規則（{count}）'],
+  'alerts.acknowledgeAll': ['Acknowledge all', '全部確認'],
+  'alerts.noEvents': ['No alerts yet. Rules are checked whenever data is loaded, imported or merged.', '尚無警示。每次載入、匯入或合併資料時都會檢查規則。'],
+  'alerts.acknowledge': ['Acknowledge', '確認'],
+  'alerts.noRules': ['No rules yet. Add one, e.g. "Daily drop worse than 3%" or "Drawdown beyond 10%".', '尚無規則。可新增例如「單日跌幅超過 3%」或「回撤超過 10%」。'],
+  'alerts.pause': ['Pause rule', '暫停規則'],
+  'alerts.resume': ['Resume rule', '恢復規則'],
+  'alerts.deleteRule': ['Delete rule', '刪除規則'],
+  'alerts.notificationsOn': ['Browser notifications on', '瀏覽器通知已開啟'],
+  'alerts.notificationsUnavailable': ['Browser notifications unavailable', '無法使用瀏覽器通知'],
+  'alerts.enableNotifications': ['Enable browser notifications', '開啟瀏覽器通知'],
+  'alerts.clearHistory': ['Clear history', '清除紀錄'],
+
+  // Inline analyst charts
+  'inline.value': ['Value', '市值'],
+  'inline.return': ['Return', '報酬'],
+  'inline.drawdown': ['Drawdown', '回撤'],
+  'inline.drawing': ['Drawing chart...', '繪製圖表中…'],
+  'inline.failed': ["Couldn't draw this chart: {error}.", '無法繪製此圖表：{error}。'],
+
+  // Display settings
+  'settings.title': ['Display settings', '顯示設定'],
+  'settings.language': ['Language', '語言'],
+  'settings.colors': ['Gain / loss colors', '漲跌顏色'],
+  'settings.eastAsian': ['Red up, green down', '紅漲綠跌'],
+  'settings.western': ['Green up, red down', '綠漲紅跌'],
+  'settings.numbers': ['Number format', '數字格式'],
+  'settings.dates': ['Date format', '日期格式'],
+  'settings.weekStart': ['Week starts on', '每週起始日'],
+  'settings.monday': ['Monday', '星期一'],
+  'settings.sunday': ['Sunday', '星期日'],
+
+  // Dashboard
+  'app.tagline': ['Portfolio Performance Analytics', '投資組合績效分析'],
+  'app.loading': ['Loading workspace…', '載入工作區中…'],
+  'app.print': ['Print / Save as PDF', '列印 / 另存 PDF'],
+  'app.backToDashboard': ['Back to dashboard', '返回儀表板'],
+  'app.baseCurrencyTitle': ['Show every amount in this currency', '以此幣別顯示所有金額'],
+  'app.fxTitle': ['Import FX rates: date plus pair columns (e.g. USD/TWD), or date, base, quote, rate', '匯入匯率：日期加上幣別對欄位（例如 USD/TWD），或日期、基準幣、報價幣、匯率'],
+  'app.value': ['Value', '市值'],
+  'app.flowAdjusted': ['Flow-adjusted', '扣除資金流'],
+  'app.cashFlows': ['Cash Flows', '資金流'],
+  'app.mergeTitle': ['Merge new daily rows', '合併新的每日資料'],
+  'app.merge': ['Merge', '合併'],
+  'app.undoMerge': ['Undo last merge', '復原上次合併'],
+  'app.allAccounts': ['All accounts', '所有帳戶'],
+  'app.portfolio': ['Portfolio', '投資組合'],
+  'app.reset': ['Reset to sample data', '重設為範例資料'],
+  'app.resetConfirm': ['Discard imported portfolios, chat history and saved settings, and reload the sample data?', '要捨棄匯入的投資組合、對話紀錄與已儲存的設定，並重新載入範例資料嗎？'],
+  'app.upload': ['Upload CSV', '上傳 CSV'],
+  'app.report': ['Printable report', '列印報告'],
+  'app.closeAnalyst': ['Close analyst chat', '關閉分析師對話'],
+  'app.askAnalyst': ['Ask the analyst', '詢問分析師'],
+  'app.analyst': ['Analyst', '分析師'],
+  'app.unconverted': ['No FX rates to convert {names} to {currency}; shown unconverted. Import an FX file with the missing pair.', '沒有可將 {names} 換算為 {currency} 的匯率，目前以原幣顯示。請匯入包含缺少幣別對的匯率檔。'],
+  'app.netValue': ['Net Value', '淨值'],
+  'app.currentMonth': ['Current Month Growth', '本月成長'],
+  'app.totalReturnTwr': ['Total Return (TWR)', '總報酬（時間加權）'],
+  'app.totalReturn': ['Total Return', '總報酬'],
+  'app.xirr': ['XIRR: {value}', 'XIRR：{value}'],
+  'app.netFlows': ['Net flows: {value}', '淨資金流：{value}'],
+  'app.fxSplitTitle': ['{local} return, compounded with the {local}→{base} currency move', '{local} 報酬，與 {local}→{base} 匯率變動複合計算'],
+  'app.localMarket': ['Local market:', '當地市場：'],
+  'app.fx': ['FX:', '匯率：'],
+  'app.allTimeHigh': ['All Time High', '歷史高點'],
+  'app.allocationDrift': ['Allocation Drift', '配置偏離'],
+  'app.withinBands': ['All {count} target(s) within their bands', '全部 {count} 項目標皆在容許範圍內'],
+  'app.driftChip': ['{key} {actual}% vs {target}% ({drift} pts)', '{key} {actual}% 對 {target}%（{drift} 個百分點）'],
+  'app.addPortfolio': ['Add portfolio', '新增投資組合'],
+  'app.replaceNamed': ['Replace {name}', '取代 {name}'],
+
+  // Data quality
+  'quality.title': ['Data Quality', '資料品質'],
+  'quality.calendar': ['{name} calendar · {count} holidays', '{name} 行事曆 · {count} 個休市日'],
+  'quality.holidays': ['Holidays', '休市日'],
+  'quality.holidaysTitle': ['Import exchange holidays: date, name — one closed weekday per row', '匯入交易所休市日：日期、名稱，每列一個休市的平日'],
+  'quality.resetCalendar': ['Use the bundled {name} calendar', '改用內建的 {name} 行事曆'],
+  'quality.clean': ['Every trading day has a row, no rows fall on closed days and the index moves on every trading day.', '每個交易日都有資料，沒有資料落在休市日，且指數在每個交易日皆有變動。'],
+  'quality.missing': ['Missing trading days', '缺少的交易日'],
+  'quality.missingSummary': ['{days} day(s) in {gaps} gap(s)', '共 {days} 天，分布於 {gaps} 個缺口'],
+  'quality.gapRange': ['{start} – {end} ({days} days)', '{start} – {end}（{days} 天）'],
+  'quality.nonTrading': ['Rows on closed days', '休市日的資料'],
+  'quality.weekend': ['Weekend', '週末'],
+  'quality.holiday': ['Holiday', '休市日'],
+  'quality.stale': ['Stale index values', '指數未更新'],
+  'quality.staleRun': ['{start} – {end} · {value} repeated {repeats}×', '{start} – {end} · {value} 重複 {repeats} 次'],
+  'quality.uncovered': ['The {name} calendar lists no holidays for {years}, so missing days there are not checked. Import a holiday file that covers them.', '{name} 行事曆未列出 {years} 年的休市日，因此不檢查這些年份缺少的交易日。請匯入涵蓋這些年份的休市日檔案。'],
+  'quality.none': ['None', '無'],
+  'quality.more': ['…and {count} more', '…另有 {count} 筆'],
+
+  // Alert rules and readings
+  'alerts.ruleValueBelow': ['Net value below {threshold}', '淨值低於 {threshold}'],
+  'alerts.ruleValueAbove': ['Net value above {threshold}', '淨值高於 {threshold}'],
+  'alerts.ruleDailyDrop': ['Daily move worse than -{threshold}%', '單日變動低於 -{threshold}%'],
+  'alerts.ruleDrawdown': ['Drawdown beyond {threshold}%', '回撤超過 {threshold}%'],
+  'alerts.ruleUnderperform': ['Trailing the index by {threshold}% over {period}', '{period} 內落後指數超過 {threshold}%'],
+  'alerts.readingValueBelow': ['Net value {value} fell below {threshold}', '淨值 {value} 跌破 {threshold}'],
+  'alerts.readingValueAbove': ['Net value {value} rose above {threshold}', '淨值 {value} 突破 {threshold}'],
+  'alerts.readingDailyDrop': ['Daily move {value}% (limit -{threshold}%)', '單日變動 {value}%（門檻 -{threshold}%）'],
+  'alerts.readingDrawdown': ['Drawdown {value}% (limit -{threshold}%)', '回撤 {value}%（門檻 -{threshold}%）'],
+  'alerts.readingUnderperform': ['{value} pts versus the index over {period} (limit -{threshold})', '{period} 內相對指數 {value} 個百分點（門檻 -{threshold}）'],
+  'alerts.notificationTitle': ['{name}: alert on {date}', '{name}：{date} 警示'],
+} satisfies Record<string, [string, string]>;
+
+export type TranslationKey = keyof typeof STRINGS;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const LANGUAGE_INDEX: Record<UiLanguage, 0 | 1> = { en: 0, 'zh-TW': 1 };
+
+export const LANGUAGE_OPTIONS: [UiLanguage, string][] = [
+  ['en', 'English'],
+  ['zh-TW', '繁體中文']
+];
+
+// "{name}" placeholders are filled from params
+export const translate = (language: UiLanguage, key: TranslationKey, params?: TranslationParams) => {
+  const text: string = STRINGS[key][LANGUAGE_INDEX[language]];
+  return params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+};
@@ -0,0 +1,121 @@
+import { IndicatorPoint, IndicatorSettings, StockDataPoint } from './types';
+import { TRADING_DAYS_PER_YEAR } from './constants';
+
+// Overlays are always computed on the full history and only then cut to the chart window, so a
+// 50-day average on the first visible day still looks back 50 days instead of starting empty.
+
+type Series = (number | undefined)[];
+
+// Simple moving average; undefined until `window` values are available
+export const simpleMovingAverage = (values: number[], window: number): Series => {
+  const result: Series = [];
+  let sum = 0;
+  values.forEach((v, i) => {
+    sum += v;
+    if (i >= window) sum -= values[i - window];
+    result.push(i >= window - 1 ? sum / window : undefined);
+  });
+  return result;
+};
+
+// Exponential moving average seeded with the SMA of the first window
+export const exponentialMovingAverage = (values: number[], window: number): Series => {
+  const alpha = 2 / (window + 1);
+  const result: Series = [];
+  let ema: number | undefined;
+  values.forEach((v, i) => {
+    if (i < window - 1) {
+      result.push(undefined);
+      return;
+    }
+    ema = ema === undefined
+      ? values.slice(0, window).reduce((acc, x) => acc + x, 0) / window
+      : alpha * v + (1 - alpha) * ema;
+    result.push(ema);
+  });
+  return result;
+};
+
+// Standard deviation over a trailing window: population form for Bollinger bands, sample form for volatility
+const rollingStdDev = (values: number[], window: number, sample: boolean): Series => {
+  const result: Series = [];
+  let sum = 0;
+  let sumSq = 0;
+  values.forEach((v, i) => {
+    sum += v;
+    sumSq += v * v;
+    if (i >= window) {
+      sum -= values[i - window];
+      sumSq -= values[i - window] ** 2;
+    }
+    if (i < window - 1) {
+      result.push(undefined);
+      return;
+    }
+    const mean = sum / window;
+    // Rounding can leave a tiny negative variance on flat stretches
+    const variance = Math.max(0, (sumSq - window * mean * mean) / (sample ? window - 1 : window));
+    result.push(Math.sqrt(variance));
+  });
+  return result;
+};
+
+export const bollingerBands = (values: number[], window: number, width: number) => {
+  const middle = simpleMovingAverage(values, window);
+  const deviation = rollingStdDev(values, window, false);
+  return middle.map((m, i) => {
+    const d = deviation[i];
+    return m === undefined || d === undefined
+      ? { middle: undefined, upper: undefined, lower: undefined }
+      : { middle: m, upper: m + width * d, lower: m - width * d };
+  });
+};
+
+// Daily returns net of flows; entry i is the return into day i (0 for the first day)
+const flowAdjustedReturns = (data: StockDataPoint[]) =>
+  data.map((point, i) => {
+    if (i === 0) return 0;
+    const prev = data[i - 1];
+    return prev.value !== 0 ? (point.value - (point.flow ?? 0)) / prev.value - 1 : 0;
+  });
+
+// Trailing `window`-day return (percent) and annualized volatility (percent), net of deposits/withdrawals
+export const rollingReturnStats = (data: StockDataPoint[], window: number) => {
+  const returns = flowAdjustedReturns(data);
+  const wealth: number[] = [];
+  returns.forEach((r, i) => wealth.push(i === 0 ? 1 : wealth[i - 1] * (1 + r)));
+  // Day 0 has no return, so the volatility window starts at day 1
+  const deviation = rollingStdDev(returns.slice(1), window, true);
+
+  return data.map((_, i) => ({
+    rollingReturn: i >= window ? (wealth[i] / wealth[i - window] - 1) * 100 : undefined,
+    rollingVolatility: i >= 1 && deviation[i - 1] !== undefined
+      ? (deviation[i - 1] as number) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100
+      : undefined
+  }));
+};
+
+// The enabled overlays for every point of the series
+export const computeIndicators = (data: StockDataPoint[], settings: IndicatorSettings): IndicatorPoint[] => {
+  const values = data.map(d => d.value);
+  const sma = settings.sma.enabled ? simpleMovingAverage(values, settings.sma.window) : null;
+  const ema = settings.ema.enabled ? exponentialMovingAverage(values, settings.ema.window) : null;
+  const bands = settings.bollinger.enabled ? bollingerBands(values, settings.bollinger.window, settings.bollinger.width) : null;
+  const rolling = settings.rolling.enabled ? rollingReturnStats(data, settings.rolling.window) : null;
+
+  return data.map((point, i) => {
+    const result: IndicatorPoint = { ...point };
+    if (sma) result.sma = sma[i];
+    if (ema) result.ema = ema[i];
+    if (bands) {
+      result.bollingerUpper = bands[i].upper;
+      result.bollingerMiddle = bands[i].middle;
+      result.bollingerLower = bands[i].lower;
+    }
+    if (rolling) {
+      result.rollingReturn = rolling[i].rollingReturn;
+      result.rollingVolatility = rolling[i].rollingVolatility;
+    }
+    return result;
+  });
+};
@@ -0,0 +1,244 @@
+import {
+  HoldingsLedger,
+  LedgerTransaction,
+  MonthlyAttribution,
+  MonthlyGrowth,
+  Position,
+  PositionSnapshot,
+  PriceQuote,
+  StockDataPoint,
+  SymbolContribution,
+  TransactionType
+} from './types';
+import {
+  COLUMN_ALIASES,
+  detectDateFormat,
+  detectDecimalSeparator,
+  detectDelimiter,
+  findAliasColumn,
+  formatCanonicalDate,
+  normalizeCSVText,
+  parseDateString,
+  parseLocaleNumber,
+  splitDelimitedLine
+} from './csvImport';
+import { getBucketKey } from './utils';
+
+// A ledger explains the totals: quantities come from the transactions, values from the price
+// file, and each month's growth is split into what every symbol added to it.
+
+export const LEDGER_ALIASES = {
+  symbol: ['symbol', 'ticker', 'code', 'stock', 'security', '代號', '股票代號'],
+  type: ['type', 'action', 'side', 'transaction', '類別', '交易類別'],
+  quantity: ['quantity', 'qty', 'shares', 'units', '股數', '數量'],
+  price: ['price', 'close', 'closing price', 'unit price', '價格', '收盤價', '成交價'],
+  amount: ['amount', 'total', 'net amount', 'cash', '金額']
+};
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  buy: 'buy', b: 'buy', purchase: 'buy', '買進': 'buy', '買': 'buy',
+  sell: 'sell', s: 'sell', sale: 'sell', '賣出': 'sell', '賣': 'sell',
+  dividend: 'dividend', div: 'dividend', '股利': 'dividend', '配息': 'dividend',
+  fee: 'fee', fees: 'fee', commission: 'fee', tax: 'fee', '手續費': 'fee', '交易稅': 'fee'
+};
+
+// Dividends and fees without a symbol are booked against the account as a whole
+export const ACCOUNT_SYMBOL = 'Account';
+
+const readTable = (text: string) => {
+  const lines = normalizeCSVText(text).split('\n').filter(l => l.trim() !== '');
+  if (lines.length < 2) return null;
+  const delimiter = detectDelimiter(lines);
+  return {
+    headers: splitDelimitedLine(lines[0], delimiter),
+    rows: lines.slice(1).map(line => splitDelimitedLine(line, delimiter))
+  };
+};
+
+const byDate = <T extends { dateObj: Date }>(a: T, b: T) => a.dateObj.getTime() - b.dateObj.getTime();
+
+// date,symbol,type,quantity,price[,amount]. Without a type column the sign of the quantity
+// decides between buy and sell; without an amount, trades are valued at quantity × price.
+export const parseTransactionsCSV = (text: string): LedgerTransaction[] => {
+  const table = readTable(text);
+  if (!table) return [];
+  const { headers, rows } = table;
+
+  const dateCol = findAliasColumn(headers, COLUMN_ALIASES.date) ?? 0;
+  const symbolCol = findAliasColumn(headers, LEDGER_ALIASES.symbol);
+  const typeCol = findAliasColumn(headers, LEDGER_ALIASES.type);
+  const quantityCol = findAliasColumn(headers, LEDGER_ALIASES.quantity);
+  const priceCol = findAliasColumn(headers, LEDGER_ALIASES.price);
+  const amountCol = findAliasColumn(headers, LEDGER_ALIASES.amount);
+
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const numberCols = [quantityCol, priceCol, amountCol].filter((c): c is number => c !== null);
+  const decimalSeparator = detectDecimalSeparator(rows.flatMap(r => numberCols.map(c => r[c] ?? '')));
+  const numberAt = (fields: string[], col: number | null) => col === null ? undefined : parseLocaleNumber(fields[col], decimalSeparator);
+
+  return rows.map((fields): LedgerTransaction | null => {
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    if (!dateObj) return null;
+
+    const quantity = numberAt(fields, quantityCol);
+    const price = numberAt(fields, priceCol);
+    const amount = numberAt(fields, amountCol);
+    const rawType = typeCol === null ? '' : (fields[typeCol] ?? '').trim().toLowerCase();
+    const type = typeCol === null
+      ? (quantity !== undefined && quantity < 0 ? 'sell' : 'buy')
+      : TYPE_ALIASES[rawType];
+    if (!type) return null;
+
+    const symbol = symbolCol === null ? '' : (fields[symbolCol] ?? '').trim().toUpperCase();
+    const isTrade = type === 'buy' || type === 'sell';
+    if (isTrade && (!symbol || !quantity)) return null;
+
+    const cash = amount ?? (quantity !== undefined && price !== undefined ? quantity * price : undefined);
+    if (cash === undefined) return null;
+
+    return {
+      date: formatCanonicalDate(dateObj),
+      dateObj,
+      symbol: symbol || ACCOUNT_SYMBOL,
+      type,
+      quantity: isTrade ? Math.abs(quantity as number) : 0,
+      amount: Math.abs(cash)
+    };
+  })
+    .filter((item): item is LedgerTransaction => item !== null)
+    .sort(byDate);
+};
+
+// Either long (date,symbol,close) or wide (date plus one column per symbol)
+export const parsePriceCSV = (text: string): PriceQuote[] => {
+  const table = readTable(text);
+  if (!table) return [];
+  const { headers, rows } = table;
+
+  const dateCol = findAliasColumn(headers, COLUMN_ALIASES.date) ?? 0;
+  const symbolCol = findAliasColumn(headers, LEDGER_ALIASES.symbol);
+  const closeCol = findAliasColumn(headers, LEDGER_ALIASES.price)
+    ?? headers.findIndex((_, i) => i !== dateCol && i !== symbolCol);
+
+  // Each entry maps a column to the symbol it prices; long files name the symbol per row
+  const columns: { col: number; symbol: (fields: string[]) => string }[] = symbolCol !== null
+    ? [{ col: closeCol, symbol: fields => (fields[symbolCol] ?? '').trim().toUpperCase() }]
+    : headers
+        .map((header, col) => ({ col, symbol: () => header.replace(/["']/g, '').trim().toUpperCase() }))
+        .filter(({ col }) => col !== dateCol);
+
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const decimalSeparator = detectDecimalSeparator(rows.flatMap(r => columns.map(c => r[c.col] ?? '')));
+
+  const quotes: PriceQuote[] = [];
+  rows.forEach(fields => {
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    if (!dateObj) return;
+    columns.forEach(({ col, symbol }) => {
+      const close = parseLocaleNumber(fields[col], decimalSeparator);
+      const name = symbol(fields);
+      if (close !== undefined && close > 0 && name) {
+        quotes.push({ date: formatCanonicalDate(dateObj), dateObj, symbol: name, close });
+      }
+    });
+  });
+  return quotes.sort(byDate);
+};
+
+// Holdings and their value on each of `days` (sorted). Prices are carried forward from the last
+// quote on or before the day; a symbol with no quote yet is valued at its last trade price.
+export const buildPositionSeries = (ledger: HoldingsLedger, days: { date: string; dateObj: Date }[]): PositionSnapshot[] => {
+  const quotes: Record<string, PriceQuote[]> = {};
+  ledger.prices.forEach(q => (quotes[q.symbol] ??= []).push(q));
+  const quoteCursor: Record<string, number> = {};
+
+  const quantities = new Map<string, number>();
+  const tradePrices = new Map<string, number>();
+  let next = 0;
+
+  return days.map(day => {
+    const time = day.dateObj.getTime();
+    while (next < ledger.transactions.length && ledger.transactions[next].dateObj.getTime() <= time) {
+      const tx = ledger.transactions[next++];
+      if (tx.type !== 'buy' && tx.type !== 'sell') continue;
+      quantities.set(tx.symbol, (quantities.get(tx.symbol) ?? 0) + (tx.type === 'buy' ? tx.quantity : -tx.quantity));
+      tradePrices.set(tx.symbol, tx.amount / tx.quantity);
+    }
+
+    const positions: Position[] = [];
+    quantities.forEach((quantity, symbol) => {
+      // Rounding in the ledger can leave dust after a full sale
+      if (Math.abs(quantity) < 1e-9) return;
+      const list = quotes[symbol] ?? [];
+      let cursor = quoteCursor[symbol] ?? -1;
+      while (cursor + 1 < list.length && list[cursor + 1].dateObj.getTime() <= time) cursor++;
+      quoteCursor[symbol] = cursor;
+      const price = cursor >= 0 ? list[cursor].close : tradePrices.get(symbol) ?? 0;
+      positions.push({ symbol, quantity, price, value: quantity * price });
+    });
+    positions.sort((a, b) => b.value - a.value);
+
+    return { date: day.date, dateObj: day.dateObj, positions, value: positions.reduce((acc, p) => acc + p.value, 0) };
+  });
+};
+
+// Splits each month's growth by symbol. Like calculatePeriodGrowth, a month runs from the previous
+// month's last day to its own last day; trades in between are netted out of the value change.
+export const calculateMonthlyAttribution = (
+  ledger: HoldingsLedger,
+  series: StockDataPoint[],
+  monthly: MonthlyGrowth[]
+): MonthlyAttribution[] => {
+  const snapshots = buildPositionSeries(ledger, series);
+  const months: { key: string; snapshots: PositionSnapshot[] }[] = [];
+  snapshots.forEach(snapshot => {
+    const key = getBucketKey(snapshot.dateObj, 'month');
+    if (months.length === 0 || months[months.length - 1].key !== key) months.push({ key, snapshots: [] });
+    months[months.length - 1].snapshots.push(snapshot);
+  });
+  const growthByMonth = new Map(monthly.map(m => [m.month, m]));
+
+  return months.flatMap(({ key, snapshots: inMonth }, i): MonthlyAttribution[] => {
+    const growth = growthByMonth.get(key);
+    if (!growth) return [];
+    const start = i > 0 ? months[i - 1].snapshots[months[i - 1].snapshots.length - 1] : inMonth[0];
+    const end = inMonth[inMonth.length - 1];
+    const startTime = start.dateObj.getTime();
+    const endTime = end.dateObj.getTime();
+
+    const bySymbol = new Map<string, Omit<SymbolContribution, 'contribution' | 'contributionPercent'>>();
+    const entry = (symbol: string) => {
+      if (!bySymbol.has(symbol)) bySymbol.set(symbol, { symbol, startValue: 0, endValue: 0, netPurchases: 0, income: 0 });
+      return bySymbol.get(symbol)!;
+    };
+    start.positions.forEach(p => { entry(p.symbol).startValue = p.value; });
+    end.positions.forEach(p => { entry(p.symbol).endValue = p.value; });
+    ledger.transactions.forEach(tx => {
+      const time = tx.dateObj.getTime();
+      if (time <= startTime || time > endTime) return;
+      const item = entry(tx.symbol);
+      if (tx.type === 'buy') item.netPurchases += tx.amount;
+      else if (tx.type === 'sell') item.netPurchases -= tx.amount;
+      else if (tx.type === 'dividend') item.income += tx.amount;
+      else item.income -= tx.amount;
+    });
+
+    const base = growth.startValue;
+    const contributions = [...bySymbol.values()]
+      .map(item => {
+        const contribution = item.endValue - item.startValue - item.netPurchases + item.income;
+        return { ...item, contribution, contributionPercent: base !== 0 ? (contribution / base) * 100 : 0 };
+      })
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    const explained = contributions.reduce((acc, c) => acc + c.contribution, 0);
+
+    return [{
+      month: key,
+      growth: growth.growth,
+      growthPercent: growth.growthPercent,
+      contributions,
+      unexplained: growth.growth - explained,
+      unexplainedPercent: base !== 0 ? ((growth.growth - explained) / base) * 100 : 0
+    }];
+  });
+};
@@ -0,0 +1,190 @@
+import { AlertEvent, AlertPeriod, AlertReading, AlertRule, AlertState, Formatters, StockDataPoint } from "../types";
+import { calculateDailyChanges, calculateDrawdownSeries, calculateReturns } from "../utils";
+import { parseDateString } from "../csvImport";
+import { DEFAULT_CURRENCY } from "../constants";
+import { Translate } from "../i18n";
+
+// Older events are dropped once the history grows past this
+export const MAX_ALERT_HISTORY = 200;
+
+export const ALERT_PERIODS: AlertPeriod[] = ['1W', '1M', '3M', 'YTD'];
+
+const isValueRule = (rule: Pick<AlertRule, 'kind'>) => rule.kind === 'valueBelow' || rule.kind === 'valueAbove';
+
+const formatThreshold = (rule: Pick<AlertRule, 'threshold' | 'currency'>, fmt: Formatters) =>
+  fmt.formatCurrency(rule.threshold, rule.currency ?? DEFAULT_CURRENCY);
+
+export const describeRule = (rule: Pick<AlertRule, 'kind' | 'threshold' | 'period' | 'currency'>, t: Translate, fmt: Formatters) => {
+  switch (rule.kind) {
+    case 'valueBelow': return t('alerts.ruleValueBelow', { threshold: formatThreshold(rule, fmt) });
+    case 'valueAbove': return t('alerts.ruleValueAbove', { threshold: formatThreshold(rule, fmt) });
+    case 'dailyDrop': return t('alerts.ruleDailyDrop', { threshold: rule.threshold });
+    case 'drawdown': return t('alerts.ruleDrawdown', { threshold: rule.threshold });
+    case 'underperformIndex': return t('alerts.ruleUnderperform', { threshold: rule.threshold, period: rule.period ?? '1M' });
+  }
+};
+
+const periodStart = (end: Date, period: AlertPeriod) => {
+  const start = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  if (period === '1W') start.setDate(start.getDate() - 7);
+  else if (period === '1M') start.setMonth(start.getMonth() - 1);
+  else if (period === '3M') start.setMonth(start.getMonth() - 3);
+  else start.setMonth(0, 1);
+  return start;
+};
+
+interface Reading {
+  value: number;
+  met: boolean;
+}
+
+// Rate from a value rule's currency to the currency of the series it watches, as of a day
+type ThresholdRate = (date: Date) => number;
+
+// Returns the rule's reading at point i; null where it cannot be measured (e.g. no index data)
+const createMeter = (rule: AlertRule, data: StockDataPoint[], rate: ThresholdRate): ((i: number) => Reading | null) => {
+  switch (rule.kind) {
+    case 'valueBelow':
+      return i => ({ value: data[i].value, met: data[i].value < rule.threshold * rate(data[i].dateObj) });
+    case 'valueAbove':
+      return i => ({ value: data[i].value, met: data[i].value > rule.threshold * rate(data[i].dateObj) });
+    case 'dailyDrop': {
+      const changes = calculateDailyChanges(data);
+      return i => i === 0 ? null : { value: changes[i - 1].changePercent, met: changes[i - 1].changePercent <= -rule.threshold };
+    }
+    case 'drawdown': {
+      const drawdowns = calculateDrawdownSeries(data);
+      return i => ({ value: drawdowns[i].drawdown, met: drawdowns[i].drawdown <= -rule.threshold });
+    }
+    case 'underperformIndex':
+      return i => {
+        const end = data[i];
+        const start = periodStart(end.dateObj, rule.period ?? '1M').getTime();
+        const window = data.slice(0, i + 1).filter(d => d.dateObj.getTime() >= start);
+        const first = window[0];
+        const returns = calculateReturns(window);
+        if (window.length < 2 || !returns || first.index === undefined || end.index === undefined || first.index === 0) return null;
+        const excess = returns.twrPercent - (end.index / first.index - 1) * 100;
+        return { value: excess, met: excess <= -rule.threshold };
+      };
+  }
+};
+
+const describeReading = (reading: AlertReading, t: Translate, fmt: Formatters) => {
+  const value = reading.value.toFixed(2);
+  switch (reading.kind) {
+    case 'valueBelow':
+    case 'valueAbove':
+      return t(reading.kind === 'valueBelow' ? 'alerts.readingValueBelow' : 'alerts.readingValueAbove', {
+        value: fmt.formatCurrency(reading.value, reading.valueCurrency ?? DEFAULT_CURRENCY),
+        threshold: formatThreshold(reading, fmt)
+      });
+    case 'dailyDrop':
+      return t('alerts.readingDailyDrop', { value, threshold: reading.threshold });
+    case 'drawdown':
+      return t('alerts.readingDrawdown', { value, threshold: reading.threshold });
+    case 'underperformIndex':
+      return t('alerts.readingUnderperform', { value, period: reading.period ?? '1M', threshold: reading.threshold });
+  }
+};
+
+// Events saved before readings were kept only have their English message
+export const describeEvent = (event: AlertEvent, t: Translate, fmt: Formatters) =>
+  event.reading ? describeReading(event.reading, t, fmt) : event.message ?? '';
+
+interface RuleCheck {
+  rule: AlertRule;
+  hits: { date: string; reading: Reading }[];
+}
+
+// Checks the points the rule has not seen yet, or just the latest one for a new rule. Daily drops fire
+// for every matching day; the other kinds fire when their condition starts to hold.
+const checkRule = (rule: AlertRule, data: StockDataPoint[], rate: ThresholdRate): RuleCheck => {
+  if (!rule.enabled || data.length === 0) return { rule, hits: [] };
+  const lastDate = data[data.length - 1].date;
+  if (rule.checkedThrough === lastDate) return { rule, hits: [] };
+
+  const since = rule.checkedThrough ? parseDateString(rule.checkedThrough, 'YMD') : null;
+  const first = since ? data.findIndex(d => d.dateObj.getTime() > since.getTime()) : data.length - 1;
+  // The data was replaced with an older history; nothing new to check
+  if (first === -1) return { rule: { ...rule, checkedThrough: lastDate }, hits: [] };
+
+  const measure = createMeter(rule, data, rate);
+  const hits: RuleCheck['hits'] = [];
+  let isActive = rule.isActive ?? false;
+  for (let i = first; i < data.length; i++) {
+    const reading = measure(i);
+    if (!reading) continue;
+    if (reading.met && (rule.kind === 'dailyDrop' || !isActive)) hits.push({ date: data[i].date, reading });
+    isActive = reading.met;
+  }
+  return { rule: { ...rule, checkedThrough: lastDate, isActive }, hits };
+};
+
+// Runs every rule against its portfolio's series. Value thresholds are converted with `rateFor` from
+// the rule's currency into the series' own (`currencyFor`); a rule with no rate path is left
+// unchecked until there is one. Returns null when nothing changed, so callers can skip the state
+// update; otherwise the updated state plus the newly fired events.
+export const evaluateAlertRules = (
+  state: AlertState,
+  seriesFor: (portfolioId: string) => StockDataPoint[] | undefined,
+  portfolioNameFor: (portfolioId: string) => string,
+  currencyFor: (portfolioId: string) => string,
+  rateFor: (from: string, to: string) => ThresholdRate | null
+): { state: AlertState; fired: AlertEvent[] } | null => {
+  const firedAt = new Date().toISOString();
+  const fired: AlertEvent[] = [];
+  let changed = false;
+
+  const rules = state.rules.map(rule => {
+    const data = seriesFor(rule.portfolioId);
+    if (!data) return rule;
+    const seriesCurrency = currencyFor(rule.portfolioId);
+    const rate = isValueRule(rule) ? rateFor(rule.currency ?? DEFAULT_CURRENCY, seriesCurrency) : () => 1;
+    if (!rate) return rule;
+    const check = checkRule(rule, data, rate);
+    if (check.rule !== rule) changed = true;
+    check.hits.forEach(({ date, reading }) => fired.push({
+      id: `${rule.id}:${date}`,
+      ruleId: rule.id,
+      portfolioId: rule.portfolioId,
+      portfolioName: portfolioNameFor(rule.portfolioId),
+      date,
+      reading: {
+        kind: rule.kind,
+        threshold: rule.threshold,
+        period: rule.period,
+        currency: rule.currency,
+        value: reading.value,
+        valueCurrency: isValueRule(rule) ? seriesCurrency : undefined
+      },
+      firedAt
+    }));
+    return check.rule;
+  });
+
+  // A rule fires at most once per data date, even if its history is re-checked
+  const seen = new Set(state.events.map(e => e.id));
+  const dateTime = (e: AlertEvent) => parseDateString(e.date, 'YMD')?.getTime() ?? 0;
+  const fresh = fired.filter(e => !seen.has(e.id)).sort((a, b) => dateTime(b) - dateTime(a));
+  if (!changed && fresh.length === 0) return null;
+
+  return {
+    state: { rules, events: [...fresh, ...state.events].slice(0, MAX_ALERT_HISTORY) },
+    fired: fresh
+  };
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+// Shows a browser notification when the user has allowed them; silently does nothing otherwise
+export const notifyAlert = (event: AlertEvent, t: Translate, fmt: Formatters) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    const title = t('alerts.notificationTitle', { name: event.portfolioName, date: fmt.formatDisplayDate(event.date) });
+    new Notification(title, { body: describeEvent(event, t, fmt), tag: event.id });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Browser notification failed', error);
+  }
+};
@@ -0,0 +1,130 @@
+import { AnalystContext, BriefFacts, Formatters, ReturnMode, StockDataPoint } from "../types";
+import { analystFormatters, calculateDailyChanges, calculateDrawdownSeries, calculatePeriodGrowth } from "../utils";
+import { parseDateString } from "../csvImport";
+import { Translate } from "../i18n";
+import { LLMProvider } from "./llmProvider";
+import { classifyLLMError } from "./llmErrors";
+
+const formatSigned = (val: number, digits = 2) => `${val >= 0 ? '+' : ''}${val.toFixed(digits)}%`;
+const formatSignedCurrency = (val: number, fmt: Formatters) => `${val >= 0 ? '+' : '-'}${fmt.formatCurrency(Math.abs(val))}`;
+
+// FNV-1a over everything the brief depends on: the data, the model writing it, and the locale and
+// currency its amounts are shown in. Cheap enough to run on every data change
+export const hashDataset = (series: StockDataPoint[], returnMode: ReturnMode, providerLabel: string, locale: string, currency: string) => {
+  let hash = 0x811c9dc5;
+  const feed = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+  feed(`${returnMode}|${providerLabel}|${locale}|${currency}`);
+  series.forEach(d => feed(`|${d.date}:${d.value}:${d.index ?? ''}:${d.flow ?? ''}`));
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Month-to-date move, notable days and drawdown status as of the last point; null without enough data
+export const computeBriefFacts = (series: StockDataPoint[], returnMode: ReturnMode = 'value'): BriefFacts | null => {
+  if (series.length < 2) return null;
+  const last = series[series.length - 1];
+  const inMonth = (d: { dateObj: Date }) =>
+    d.dateObj.getFullYear() === last.dateObj.getFullYear() && d.dateObj.getMonth() === last.dateObj.getMonth();
+
+  const periods = calculatePeriodGrowth(series, 'month', returnMode);
+  const month = periods[periods.length - 1];
+
+  const byDate = new Map(series.map(d => [d.date, d]));
+  const days = calculateDailyChanges(series).filter(change => {
+    const point = byDate.get(change.date);
+    return !!point && inMonth(point);
+  });
+  const best = days.reduce<typeof days[number] | undefined>((top, d) => !top || d.changePercent > top.changePercent ? d : top, undefined);
+  const worst = days.reduce<typeof days[number] | undefined>((low, d) => !low || d.changePercent < low.changePercent ? d : low, undefined);
+
+  const drawdowns = calculateDrawdownSeries(series);
+  const current = drawdowns[drawdowns.length - 1];
+  let peakIdx = drawdowns.length - 1;
+  while (peakIdx > 0 && drawdowns[peakIdx].drawdown < 0) peakIdx--;
+
+  return {
+    asOf: last.date,
+    // Goes into the English prompt; the template brief formats the month in the display locale
+    monthLabel: last.dateObj.toLocaleString('en-US', { month: 'long', year: 'numeric' }),
+    tradingDays: series.filter(inMonth).length,
+    monthGrowth: month.growth,
+    monthGrowthPercent: month.growthPercent,
+    indexMonthPercent: month.indexGrowthPercent,
+    excessPercent: month.excessPercent,
+    bestDay: best && best.changePercent > 0 ? best : undefined,
+    worstDay: worst && worst.changePercent < 0 ? worst : undefined,
+    drawdownPercent: current.drawdown,
+    peakDate: drawdowns[peakIdx].date,
+    maxDrawdownPercent: Math.min(...drawdowns.map(d => d.drawdown))
+  };
+};
+
+const describeDrawdown = (facts: BriefFacts) =>
+  facts.drawdownPercent >= 0
+    ? `at a new high on ${facts.asOf}`
+    : `${Math.abs(facts.drawdownPercent).toFixed(2)}% below the ${facts.peakDate} peak (deepest drawdown on record ${facts.maxDrawdownPercent.toFixed(2)}%)`;
+
+// Deterministic brief in the UI language, used when no model is configured and while one is writing
+export const templateBrief = (facts: BriefFacts, portfolioName: string, t: Translate, fmt: Formatters) => {
+  const { formatCurrency, formatDisplayDate, formatMonthYear } = fmt;
+  const asOf = parseDateString(facts.asOf, 'YMD');
+  let lead = t(facts.monthGrowth >= 0 ? 'brief.leadUp' : 'brief.leadDown', {
+    month: asOf ? formatMonthYear(asOf) : facts.monthLabel,
+    days: facts.tradingDays,
+    date: formatDisplayDate(facts.asOf),
+    name: portfolioName,
+    amount: formatCurrency(Math.abs(facts.monthGrowth)),
+    percent: formatSigned(facts.monthGrowthPercent)
+  });
+  if (facts.indexMonthPercent !== undefined && facts.excessPercent !== undefined) {
+    lead += t(facts.excessPercent >= 0 ? 'brief.aheadOfIndex' : 'brief.behindIndex', {
+      index: formatSigned(facts.indexMonthPercent),
+      points: Math.abs(facts.excessPercent).toFixed(2)
+    });
+  }
+
+  const day = (key: 'brief.bestDay' | 'brief.worstDay', d: NonNullable<BriefFacts['bestDay']>) =>
+    `- ${t(key, { date: formatDisplayDate(d.date), change: formatSignedCurrency(d.change, fmt), percent: formatSigned(d.changePercent) })}`;
+  const lines = [lead + t('brief.leadEnd'), ''];
+  if (facts.bestDay) lines.push(day('brief.bestDay', facts.bestDay));
+  if (facts.worstDay) lines.push(day('brief.worstDay', facts.worstDay));
+  lines.push(`- ${facts.drawdownPercent >= 0
+    ? t('brief.atHigh', { date: formatDisplayDate(facts.asOf) })
+    : t('brief.belowPeak', {
+      percent: Math.abs(facts.drawdownPercent).toFixed(2),
+      date: formatDisplayDate(facts.peakDate),
+      max: facts.maxDrawdownPercent.toFixed(2)
+    })}`);
+  return lines.join('\n');
+};
+
+const buildBriefPrompt = (facts: BriefFacts, fmt: Formatters) => {
+  const day = (label: string, d: BriefFacts['bestDay']) =>
+    d ? `- ${label}: ${d.date}, ${formatSignedCurrency(d.change, fmt)} (${formatSigned(d.changePercent)})${d.indexChangePercent !== undefined ? `, index ${formatSigned(d.indexChangePercent)}` : ''}` : `- ${label}: none`;
+  return `
+    Write a short analyst brief for the dashboard as of ${facts.asOf}: 3 to 5 markdown bullet points, under 120 words,
+    no heading and no chart blocks. Cover the month-to-date move versus the index, the notable days this month and
+    the drawdown status. Use these figures exactly; do not call tools or add figures that are not listed here.
+
+    ${facts.monthLabel}, ${facts.tradingDays} trading days so far:
+    - Month to date: ${formatSignedCurrency(facts.monthGrowth, fmt)} (${formatSigned(facts.monthGrowthPercent)})
+    - Index month to date: ${facts.indexMonthPercent !== undefined ? formatSigned(facts.indexMonthPercent) : 'no index data'}
+    - Excess over index: ${facts.excessPercent !== undefined ? `${facts.excessPercent.toFixed(2)} points` : 'n/a'}
+    ${day('Best day', facts.bestDay)}
+    ${day('Worst day', facts.worstDay)}
+    - Drawdown: ${describeDrawdown(facts)}
+  `;
+};
+
+// Ask the model for the brief in a throwaway session over the whole history
+export const generateBrief = async (provider: LLMProvider, context: AnalystContext, facts: BriefFacts, signal?: AbortSignal) => {
+  const session = await provider.createChatSession(context, []);
+  const reply = await session.sendMessage(buildBriefPrompt(facts, analystFormatters(context.currency)), () => {}, signal);
+  const text = reply.text.trim();
+  if (!text) throw classifyLLMError(new Error('Invalid response: the brief came back empty'));
+  return text;
+};
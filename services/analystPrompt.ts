@@ -0,0 +1,162 @@
+import { AnalystContext, ChartAnnotation, ChatMessage, RiskMetrics } from "../types";
+import { analystFormatters, calculateReturns, hasCashFlows } from "../utils";
+import { parseDateString } from "../csvImport";
+
+const formatRatio = (val: number | null) => val === null ? 'n/a' : val.toFixed(2);
+const formatPercent = (val: number | null) => val === null ? 'n/a' : `${val.toFixed(2)}%`;
+
+const describeRisk = (risk: RiskMetrics | null) => {
+  if (!risk) return 'Risk Metrics: not enough data points in the selected range.';
+  return `
+        Risk Metrics (selected range, ${risk.observations} daily returns):
+        - Annualized Return: ${formatPercent(risk.annualizedReturnPercent)}
+        - Annualized Volatility: ${formatPercent(risk.annualizedVolatilityPercent)}
+        - Max Drawdown: ${formatPercent(risk.maxDrawdownPercent)}${risk.drawdownPeakDate ? ` (peak ${risk.drawdownPeakDate}, trough ${risk.drawdownTroughDate}, ${risk.drawdownRecoveryDate ? `recovered ${risk.drawdownRecoveryDate}` : 'not yet recovered'})` : ''}
+        - Sharpe Ratio: ${formatRatio(risk.sharpeRatio)}
+        - Sortino Ratio: ${formatRatio(risk.sortinoRatio)}
+        - Beta vs Index: ${formatRatio(risk.beta)}
+        - Alpha (annualized): ${formatPercent(risk.alphaPercent)}
+        - Correlation with Index: ${formatRatio(risk.correlation)}
+        - Tracking Error: ${formatPercent(risk.trackingErrorPercent)}
+        `;
+};
+
+const describeCurrency = (context: AnalystContext) => {
+  const { fx } = context;
+  if (!fx) return '';
+  return `
+        Currency: the portfolio is held in ${fx.localCurrency} and converted to ${fx.baseCurrency} at each day's FX rate.
+        - Return in ${fx.baseCurrency}: ${fx.totalPercent.toFixed(2)}%
+        - Local-market return (${fx.localCurrency}): ${fx.localPercent.toFixed(2)}%
+        - Currency effect: ${fx.fxPercent.toFixed(2)}% (compounds with the local return into the total)
+        `;
+};
+
+// Most recent events only, so a long list doesn't crowd out the data
+const MAX_PROMPT_ANNOTATIONS = 30;
+
+const describeAnnotations = (annotations: ChartAnnotation[] = []) => {
+  if (annotations.length === 0) return '';
+  const recent = [...annotations]
+    .sort((a, b) => (parseDateString(b.date, 'YMD')?.getTime() ?? 0) - (parseDateString(a.date, 'YMD')?.getTime() ?? 0))
+    .slice(0, MAX_PROMPT_ANNOTATIONS);
+  const lines = recent.map(a => {
+    const when = a.span === 'month' ? `month of ${a.date}` : a.date;
+    // Pinned answers repeat the analyst's own words, so only their label is useful background
+    const detail = a.text && a.source !== 'analyst' ? ` — ${a.text}` : '';
+    return `        - ${when}: ${a.label}${detail}`;
+  });
+  return `
+        Events the user marked on the chart (context for moves around those dates, not data):
+${lines.join('\n')}
+        `;
+};
+
+type HistoryTurn = { role: 'user' | 'model'; text: string };
+
+// Provider-neutral conversation turns. Local notices, the greeting and failed exchanges are left
+// out, and back-to-back turns from one side (e.g. after a stopped reply) are joined so roles alternate.
+export const toHistoryTurns = (messages: ChatMessage[]): HistoryTurn[] => {
+  const turns: HistoryTurn[] = [];
+  messages.forEach(m => {
+    if (m.role === 'system') return;
+    if (m.error) {
+      if (turns[turns.length - 1]?.role === 'user') turns.pop();
+      return;
+    }
+    if (m.text.trim() === '') return;
+    const role = m.role === 'user' ? 'user' : 'model';
+    if (turns.length === 0 && role === 'model') return;
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.text += `\n\n${m.text}`;
+    else turns.push({ role, text: m.text });
+  });
+  return turns;
+};
+
+// System prompt shared by every provider; `context.data` must not be empty
+export const buildSystemInstruction = (context: AnalystContext) => {
+  const { portfolioName, returnMode, data: stockData, series, risk } = context;
+  const { formatCurrency } = analystFormatters(context.currency);
+  // The chart fills dateRange in even for "ALL", so compare what is in view with the history
+  const isFullHistory = series.length === 0 ||
+    (stockData[0].date === series[0].date && stockData[stockData.length - 1].date === series[series.length - 1].date);
+
+  // Prepare a summarized context string
+  const latestValue = stockData[stockData.length - 1].value;
+  const startValue = stockData[0].value;
+  const totalGrowth = latestValue - startValue;
+  const totalGrowthPercent = ((totalGrowth / startValue) * 100).toFixed(2);
+  
+  let indexContext = '';
+  const firstPoint = stockData[0];
+  const lastPoint = stockData[stockData.length - 1];
+
+  if (firstPoint.index !== undefined && lastPoint.index !== undefined) {
+    const indexGrowth = lastPoint.index - firstPoint.index;
+    const indexGrowthPercent = ((indexGrowth / firstPoint.index) * 100).toFixed(2);
+    indexContext = `
+      Market Index Analysis:
+      - Start Index: ${firstPoint.index}
+      - Current Index: ${lastPoint.index}
+      - Index Growth: ${indexGrowthPercent}%
+      
+      Compare the user's portfolio growth (${totalGrowthPercent}%) against the market index growth (${indexGrowthPercent}%).
+    `;
+  }
+
+  let flowContext = '';
+  const returns = calculateReturns(stockData);
+  if (returns && hasCashFlows(stockData)) {
+    flowContext = `
+      Cash Flows (deposits/withdrawals are included in the raw value change):
+      - Net Deposits/Withdrawals: ${formatCurrency(returns.netFlows)}
+      - Investment Gain excluding flows: ${formatCurrency(returns.investmentGain)}
+      - Time-Weighted Return (TWR): ${returns.twrPercent.toFixed(2)}%
+      - Money-Weighted Return (XIRR, annualized): ${returns.mwrPercent !== null ? `${returns.mwrPercent.toFixed(2)}%` : 'n/a'}
+    `;
+  }
+
+  return `
+    You are an expert financial analyst assistant. You are analyzing a user's stock investment portfolio.
+
+    The user is looking at the "${portfolioName}" portfolio, ${isFullHistory ? 'over its full history' : 'zoomed into a selected date range'}.
+    All figures below cover only that view; say so if a question needs data outside it.${context.currency ? `
+    All amounts are in ${context.currency}.` : ''}
+    
+    Here is the summary of the data:
+    - Portfolio Value at End of View: ${formatCurrency(latestValue)}
+    - Starting Value: ${formatCurrency(startValue)}
+    - Total Gain/Loss: ${formatCurrency(totalGrowth)} (${totalGrowthPercent}%)
+    - Date Range: ${stockData[0].date} to ${stockData[stockData.length - 1].date}
+
+    ${indexContext}
+    ${flowContext}
+    ${describeCurrency(context)}
+    ${describeRisk(risk)}
+    ${describeAnnotations(context.annotations)}
+
+    Tools:
+    The summary above is only a headline. For values on specific dates, returns over other ranges, drawdowns,
+    best/worst days, weekly/monthly/quarterly/yearly returns or index comparisons, call the tools; they read the
+    full history${returnMode === 'flowAdjusted' ? ' and treat deposits/withdrawals as flows, not gains' : ''}. Dates are written YYYY/M/D.
+    Never estimate a figure a tool can return.
+
+    Formatting and charts:
+    Replies are rendered as markdown: use short paragraphs, lists and tables (e.g. for period returns); HTML is not rendered.
+    To show a chart, add a fenced code block with the language "chart" whose body is JSON:
+    \`\`\`chart
+    {"metric": "return", "series": "both", "start": "2024/1/2", "end": "2024/6/28", "title": "Portfolio vs index"}
+    \`\`\`
+    "metric" is "value", "return" (rebased to the start date) or "drawdown"; "series" is "portfolio", "index" or "both";
+    "start"/"end" are optional YYYY/M/D dates and default to the whole history. The app draws the chart from the real
+    data, so never put numbers in the block and only chart dates inside the data.
+
+    Rules:
+    1. Be concise, professional, and helpful.
+    2. Use the provided data and tool results to answer questions accurately.
+    3. Format currency properly (e.g., ${formatCurrency(35000000)}).${context.currency ? ` Amounts from tools are in ${context.currency} too.` : ''}
+    4. If the user asks for future predictions, give a standard disclaimer that past performance is not indicative of future results, but you can analyze trends.
+    5. Keep responses short and easy to read.
+  `;
+};
@@ -0,0 +1,273 @@
+import { AnalystContext, BucketPeriod, StockDataPoint, ToolCallRecord } from "../types";
+import {
+  calculateReturns,
+  calculateRiskMetrics,
+  calculateDailyChanges,
+  calculatePeriodGrowth,
+  analystFormatters
+} from "../utils";
+import { parseDateString } from "../csvImport";
+
+type ToolArgs = Record<string, unknown>;
+
+// Provider-neutral tool definition; `parameters` is a JSON Schema object
+export interface AnalystToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+interface ToolOutput {
+  // Sent back to the model
+  result: Record<string, unknown>;
+  // Shown under the reply in the chat
+  summary: string;
+}
+
+interface AnalystTool {
+  spec: AnalystToolSpec;
+  run: (args: ToolArgs, context: AnalystContext) => ToolOutput;
+}
+
+const MAX_RANKED_DAYS = 20;
+const PERIODS: BucketPeriod[] = ['week', 'month', 'quarter', 'year'];
+
+const round = (val: number | null | undefined, digits = 2) =>
+  val === null || val === undefined ? null : Number(val.toFixed(digits));
+
+const formatSigned = (val: number) => `${val >= 0 ? '+' : ''}${val.toFixed(2)}%`;
+
+const readDate = (args: ToolArgs, key: string): Date | undefined => {
+  const raw = args[key];
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const date = typeof raw === 'string' ? parseDateString(raw, 'YMD') : null;
+  if (!date) throw new Error(`"${key}" must be a date like 2025/3/11, got ${JSON.stringify(raw)}`);
+  return date;
+};
+
+// Explicit bounds win; otherwise fall back to the window the user is looking at
+const resolveWindow = (args: ToolArgs, context: AnalystContext): StockDataPoint[] => {
+  const start = readDate(args, 'start_date') ?? context.data[0]?.dateObj;
+  const end = readDate(args, 'end_date') ?? context.data[context.data.length - 1]?.dateObj;
+  if (!start || !end) throw new Error('No data is loaded');
+  if (start > end) throw new Error('start_date is after end_date');
+
+  const points = context.series.filter(d => d.dateObj >= start && d.dateObj <= end);
+  if (points.length === 0) throw new Error('No trading days in that range');
+  return points;
+};
+
+const indexReturnPercent = (points: StockDataPoint[]) => {
+  const withIndex = points.filter(d => d.index !== undefined);
+  if (withIndex.length < 2) return null;
+  const first = withIndex[0].index as number;
+  const last = withIndex[withIndex.length - 1].index as number;
+  return first !== 0 ? (last / first - 1) * 100 : null;
+};
+
+const windowArgs = {
+  start_date: { type: 'string', description: 'Inclusive start date, YYYY/M/D. Defaults to the start of the selected view.' },
+  end_date: { type: 'string', description: 'Inclusive end date, YYYY/M/D. Defaults to the end of the selected view.' }
+};
+
+const TOOLS: Record<string, AnalystTool> = {
+  get_value_on_date: {
+    spec: {
+      name: 'get_value_on_date',
+      description: 'Portfolio value, market index level and cash flow on a date. Non-trading days resolve to the last trading day before them.',
+      parameters: {
+        type: 'object',
+        properties: { date: { type: 'string', description: 'Date, YYYY/M/D' } },
+        required: ['date']
+      }
+    },
+    run: (args, context) => {
+      const date = readDate(args, 'date');
+      if (!date) throw new Error('"date" is required');
+      const point = [...context.series].reverse().find(d => d.dateObj <= date);
+      if (!point) throw new Error(`No data on or before ${args.date}; history starts ${context.series[0]?.date}`);
+      return {
+        result: {
+          date: point.date,
+          exactMatch: point.dateObj.getTime() === date.getTime(),
+          value: point.value,
+          index: point.index ?? null,
+          flow: point.flow ?? null
+        },
+        summary: `${point.date}: ${analystFormatters(context.currency).formatCurrency(point.value)}`
+      };
+    }
+  },
+
+  get_range_return: {
+    spec: {
+      name: 'get_range_return',
+      description: 'Portfolio return between two dates: value change, simple return, net cash flows, time-weighted and money-weighted return, and the index return.',
+      parameters: { type: 'object', properties: windowArgs }
+    },
+    run: (args, context) => {
+      const points = resolveWindow(args, context);
+      const returns = calculateReturns(points);
+      if (!returns) throw new Error('Not enough data in that range');
+      const indexReturn = indexReturnPercent(points);
+      return {
+        result: {
+          startDate: returns.startDate,
+          endDate: returns.endDate,
+          startValue: returns.startValue,
+          endValue: returns.endValue,
+          valueChange: round(returns.valueChange),
+          simpleReturnPercent: round(returns.simpleReturnPercent),
+          netFlows: round(returns.netFlows),
+          investmentGain: round(returns.investmentGain),
+          twrPercent: round(returns.twrPercent),
+          mwrPercent: round(returns.mwrPercent),
+          indexReturnPercent: round(indexReturn)
+        },
+        summary: `${returns.startDate} – ${returns.endDate}: ${formatSigned(returns.simpleReturnPercent)}`
+      };
+    }
+  },
+
+  get_max_drawdown: {
+    spec: {
+      name: 'get_max_drawdown',
+      description: 'Largest peak-to-trough decline between two dates, with peak, trough and recovery dates.',
+      parameters: { type: 'object', properties: windowArgs }
+    },
+    run: (args, context) => {
+      const points = resolveWindow(args, context);
+      const risk = calculateRiskMetrics(points);
+      if (!risk) throw new Error('Need at least three trading days to measure a drawdown');
+      return {
+        result: {
+          maxDrawdownPercent: round(risk.maxDrawdownPercent),
+          peakDate: risk.drawdownPeakDate,
+          troughDate: risk.drawdownTroughDate,
+          recoveryDate: risk.drawdownRecoveryDate
+        },
+        summary: risk.drawdownTroughDate
+          ? `${risk.maxDrawdownPercent.toFixed(2)}% (${risk.drawdownPeakDate} → ${risk.drawdownTroughDate})`
+          : 'No drawdown'
+      };
+    }
+  },
+
+  get_best_worst_days: {
+    spec: {
+      name: 'get_best_worst_days',
+      description: 'Largest single-day gains and drops between two dates, ranked by percent change net of cash flows.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...windowArgs,
+          count: { type: 'integer', description: `Days to return on each side, 1-${MAX_RANKED_DAYS}. Defaults to 5.` }
+        }
+      }
+    },
+    run: (args, context) => {
+      const points = resolveWindow(args, context);
+      const count = Math.min(Math.max(Math.round(Number(args.count ?? 5)) || 5, 1), MAX_RANKED_DAYS);
+      const changes = calculateDailyChanges(points);
+      if (changes.length === 0) throw new Error('Need at least two trading days');
+
+      const ranked = [...changes].sort((a, b) => b.changePercent - a.changePercent);
+      const toRow = (c: typeof changes[number]) => ({
+        date: c.date,
+        value: c.value,
+        change: round(c.change),
+        changePercent: round(c.changePercent),
+        indexChangePercent: round(c.indexChangePercent)
+      });
+      const best = ranked.slice(0, count).map(toRow);
+      const worst = ranked.slice(-count).reverse().map(toRow);
+      return {
+        result: { best, worst },
+        summary: `Best ${best[0].date} (${formatSigned(best[0].changePercent ?? 0)}), worst ${worst[0].date} (${formatSigned(worst[0].changePercent ?? 0)})`
+      };
+    }
+  },
+
+  compare_with_index: {
+    spec: {
+      name: 'compare_with_index',
+      description: 'Portfolio versus the market index between two dates: both returns, excess return, beta, alpha, correlation and tracking error.',
+      parameters: { type: 'object', properties: windowArgs }
+    },
+    run: (args, context) => {
+      const points = resolveWindow(args, context);
+      const returns = calculateReturns(points);
+      const indexReturn = indexReturnPercent(points);
+      if (!returns || indexReturn === null) throw new Error('No market index data in that range');
+      const risk = calculateRiskMetrics(points);
+      const portfolioReturn = context.returnMode === 'flowAdjusted' ? returns.twrPercent : returns.simpleReturnPercent;
+      return {
+        result: {
+          startDate: returns.startDate,
+          endDate: returns.endDate,
+          portfolioReturnPercent: round(portfolioReturn),
+          indexReturnPercent: round(indexReturn),
+          excessReturnPercent: round(portfolioReturn - indexReturn),
+          beta: round(risk?.beta),
+          alphaPercent: round(risk?.alphaPercent),
+          correlation: round(risk?.correlation),
+          trackingErrorPercent: round(risk?.trackingErrorPercent)
+        },
+        summary: `Portfolio ${formatSigned(portfolioReturn)} vs index ${formatSigned(indexReturn)}`
+      };
+    }
+  },
+
+  get_period_returns: {
+    spec: {
+      name: 'get_period_returns',
+      description: 'Returns bucketed by calendar week, month, quarter or year between two dates, with the index return for each bucket.',
+      parameters: {
+        type: 'object',
+        properties: {
+          ...windowArgs,
+          period: { type: 'string', enum: PERIODS, description: 'Bucket size' }
+        },
+        required: ['period']
+      }
+    },
+    run: (args, context) => {
+      const period = args.period as BucketPeriod;
+      if (!PERIODS.includes(period)) throw new Error(`"period" must be one of ${PERIODS.join(', ')}`);
+      const buckets = calculatePeriodGrowth(resolveWindow(args, context), period, context.returnMode, context.weekStart);
+      return {
+        result: {
+          buckets: buckets.map(b => ({
+            period: b.period,
+            endValue: b.endValue,
+            growth: round(b.growth),
+            growthPercent: round(b.growthPercent),
+            netFlow: round(b.netFlow),
+            indexGrowthPercent: round(b.indexGrowthPercent)
+          }))
+        },
+        summary: `${buckets.length} ${period} bucket(s)`
+      };
+    }
+  }
+};
+
+export const analystToolSpecs: AnalystToolSpec[] = Object.values(TOOLS).map(tool => tool.spec);
+
+// Run a tool the model asked for. Failures go back to the model as an error so it can retry
+// or explain, rather than ending the reply.
+export const runAnalystTool = (
+  name: string,
+  args: ToolArgs,
+  context: AnalystContext
+): { response: Record<string, unknown>; record: ToolCallRecord } => {
+  const tool = TOOLS[name];
+  try {
+    if (!tool) throw new Error(`Unknown tool "${name}"`);
+    const { result, summary } = tool.run(args, context);
+    return { response: { output: result }, record: { name, args, summary } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { response: { error: message }, record: { name, args, summary: message, isError: true } };
+  }
+};
@@ -0,0 +1,62 @@
+import { ChatMessage, ChatThread } from "../types";
+import { downloadFile } from "./exportService";
+
+export type ThreadExportFormat = 'markdown' | 'json';
+
+const DEFAULT_TITLE = 'New conversation';
+const MAX_TITLE_LENGTH = 48;
+
+export const createThread = (messages: ChatMessage[]): ChatThread => {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: DEFAULT_TITLE,
+    messages,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Threads are named after their first question until the user renames them
+export const deriveThreadTitle = (messages: ChatMessage[]) => {
+  const question = messages.find(m => m.role === 'user')?.text.trim().replace(/\s+/g, ' ');
+  if (!question) return DEFAULT_TITLE;
+  return question.length > MAX_TITLE_LENGTH ? `${question.slice(0, MAX_TITLE_LENGTH - 1)}…` : question;
+};
+
+const ROLE_HEADINGS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  model: 'Analyst',
+  system: 'Note'
+};
+
+export const threadToMarkdown = (thread: ChatThread, portfolioName: string) => {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_${portfolioName} · started ${new Date(thread.createdAt).toLocaleString()}_`,
+    ''
+  ];
+  thread.messages.forEach(msg => {
+    if (msg.role === 'system') {
+      lines.push(`> ${msg.text}`, '');
+      return;
+    }
+    lines.push(`### ${ROLE_HEADINGS[msg.role]}`, '', msg.text || (msg.error ? '_(failed)_' : ''), '');
+    msg.toolCalls?.forEach(call => lines.push(`- \`${call.name}\` → ${call.summary}`));
+    if (msg.toolCalls?.length) lines.push('');
+  });
+  return lines.join('\n');
+};
+
+const toFileName = (title: string) =>
+  `chat_${title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'thread'}`;
+
+export const exportThread = (thread: ChatThread, portfolioName: string, format: ThreadExportFormat) => {
+  const baseName = toFileName(thread.title);
+  if (format === 'markdown') {
+    downloadFile(`${baseName}.md`, threadToMarkdown(thread, portfolioName), 'text/markdown;charset=utf-8');
+  } else {
+    downloadFile(`${baseName}.json`, JSON.stringify({ portfolioName, ...thread }, null, 2), 'application/json');
+  }
+};
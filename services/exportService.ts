@@ -0,0 +1,94 @@
+export type DataExportFormat = 'csv' | 'json';
+export type ImageExportFormat = 'png' | 'svg';
+
+type ExportRow = Record<string, string | number | boolean | null | undefined>;
+
+// Chart background, so exported images match the dashboard instead of being transparent
+const SNAPSHOT_BACKGROUND = '#09090b';
+const PNG_SCALE = 2;
+
+const escapeCSVCell = (val: ExportRow[string]) => {
+  if (val === undefined || val === null) return '';
+  const str = String(val);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const rowsToCSV = (rows: ExportRow[], columns?: string[]) => {
+  const headers = columns ?? Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = rows.map(row => headers.map(h => escapeCSVCell(row[h])).join(','));
+  return [headers.join(','), ...lines].join('\n') + '\n';
+};
+
+export const downloadFile = (fileName: string, content: Blob | string, mimeType: string) => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportRows = (baseName: string, rows: ExportRow[], format: DataExportFormat, columns?: string[]) => {
+  if (format === 'csv') {
+    downloadFile(`${baseName}.csv`, rowsToCSV(rows, columns), 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(`${baseName}.json`, JSON.stringify(rows, null, 2), 'application/json');
+  }
+};
+
+// Serialize the main recharts <svg> inside `container` as a standalone document
+const serializeChartSvg = (container: HTMLElement) => {
+  const svg = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!svg) throw new Error('No chart found to export');
+
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', SNAPSHOT_BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const exportChartImage = async (container: HTMLElement, baseName: string, format: ImageExportFormat) => {
+  const { markup, width, height } = serializeChartSvg(container);
+
+  if (format === 'svg') {
+    downloadFile(`${baseName}.svg`, markup, 'image/svg+xml');
+    return;
+  }
+
+  const svgUrl = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Could not render chart snapshot'));
+      img.src = svgUrl;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.scale(PNG_SCALE, PNG_SCALE);
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode PNG');
+    downloadFile(`${baseName}.png`, blob, 'image/png');
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+};
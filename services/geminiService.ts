@@ -1,72 +1,61 @@
-import { GoogleGenAI } from "@google/genai";
-import { StockDataPoint, MonthlyGrowth } from "../types";
-import { formatCurrency } from "../utils";
-
-export class GeminiService {
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Part } from "@google/genai";
+import { AnalystContext, ChatMessage } from "../types";
+import { analystToolSpecs } from "./analystTools";
+import { buildSystemInstruction, toHistoryTurns } from "./analystPrompt";
+import { AnalystChatSession, LLMProvider, RequestedToolCall, runToolLoop } from "./llmProvider";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
+
+// Visible text of a streamed chunk; reading `.text` directly warns when the chunk also holds function calls
+const chunkText = (chunk: GenerateContentResponse) =>
+  (chunk.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => typeof part.text === 'string' && !part.thought)
+    .map(part => part.text)
+    .join('');
+
+export class GeminiService implements LLMProvider {
   private ai: GoogleGenAI;
-  private modelId = 'gemini-3-pro-preview';
+  readonly label: string;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  constructor(apiKey: string, private modelId: string = DEFAULT_GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+    this.label = modelId;
   }
 
-  async createChatSession(stockData: StockDataPoint[], monthlyData: MonthlyGrowth[]) {
-    // Prepare a summarized context string
-    const latestValue = stockData[stockData.length - 1].value;
-    const startValue = stockData[0].value;
-    const totalGrowth = latestValue - startValue;
-    const totalGrowthPercent = ((totalGrowth / startValue) * 100).toFixed(2);
-    
-    let indexContext = '';
-    const firstPoint = stockData[0];
-    const lastPoint = stockData[stockData.length - 1];
-
-    if (firstPoint.index !== undefined && lastPoint.index !== undefined) {
-        const indexGrowth = lastPoint.index - firstPoint.index;
-        const indexGrowthPercent = ((indexGrowth / firstPoint.index) * 100).toFixed(2);
-        indexContext = `
-        Market Index Analysis:
-        - Start Index: ${firstPoint.index}
-        - Current Index: ${lastPoint.index}
-        - Index Growth: ${indexGrowthPercent}%
-        
-        Compare the user's portfolio growth (${totalGrowthPercent}%) against the market index growth (${indexGrowthPercent}%).
-        `;
-    }
-
-    const monthlySummary = monthlyData.map(m => 
-      `${m.month}: ${m.growthPercent.toFixed(2)}% growth (${formatCurrency(m.growth)})`
-    ).join('\n');
-
-    const systemInstruction = `
-      You are an expert financial analyst assistant. You are analyzing a user's stock investment portfolio.
-      
-      Here is the summary of the data:
-      - Current Portfolio Value: ${formatCurrency(latestValue)}
-      - Starting Value: ${formatCurrency(startValue)}
-      - Total Gain/Loss: ${formatCurrency(totalGrowth)} (${totalGrowthPercent}%)
-      - Date Range: ${stockData[0].date} to ${stockData[stockData.length - 1].date}
-
-      ${indexContext}
-
-      Monthly Performance:
-      ${monthlySummary}
-
-      Rules:
-      1. Be concise, professional, and helpful.
-      2. Use the provided data to answer questions accurately.
-      3. Format currency properly (e.g., $35,000,000).
-      4. If the user asks for future predictions, give a standard disclaimer that past performance is not indicative of future results, but you can analyze trends.
-      5. Keep responses short and easy to read.
-    `;
-
-    return this.ai.chats.create({
+  async createChatSession(context: AnalystContext, history: ChatMessage[] = []): Promise<AnalystChatSession> {
+    const config: GenerateContentConfig = {
+      systemInstruction: buildSystemInstruction(context),
+      tools: [{
+        functionDeclarations: analystToolSpecs.map(spec => ({
+          name: spec.name,
+          description: spec.description,
+          parametersJsonSchema: spec.parameters
+        }))
+      }],
+    };
+    const chat = this.ai.chats.create({
       model: this.modelId,
-      config: {
-        systemInstruction,
-      },
+      config,
+      history: toHistoryTurns(history).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
     });
+
+    return {
+      sendMessage: (message, onUpdate, signal) => runToolLoop(context, message, async (input, onText) => {
+        const payload: string | Part[] = typeof input === 'string'
+          ? input
+          : input.map(({ call, response }) => ({ functionResponse: { id: call.id, name: call.name, response } }));
+        // A per-message config replaces the session's, so repeat it alongside the signal
+        const stream = await chat.sendMessageStream({ message: payload, config: { ...config, abortSignal: signal } });
+
+        const calls: RequestedToolCall[] = [];
+        for await (const chunk of stream) {
+          if (signal?.aborted) break;
+          const text = chunkText(chunk);
+          if (text) onText(text);
+          chunk.functionCalls?.forEach(call => calls.push({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+        }
+        return calls;
+      }, onUpdate, signal)
+    };
   }
 }
-
-export const geminiService = new GeminiService();
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { ChatErrorKind } from "../types";
+
+const RETRY_BASE_DELAY_MS = 1000;
+export const MAX_RETRIES = 3;
+
+// Failure from a model provider, sorted into the cases the chat explains differently
+export class LLMError extends Error {
+  constructor(readonly kind: ChatErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  // Worth retrying automatically with backoff; the other kinds won't change on their own
+  get isTransient() {
+    return this.kind === 'rateLimit' || this.kind === 'network';
+  }
+}
+
+export const abortError = () => new LLMError('aborted', 'The request was cancelled');
+
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Map SDK, fetch and parsing failures onto an LLMError
+export const classifyLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+
+  if (error instanceof DOMException && error.name === 'AbortError') return new LLMError('aborted', message, error);
+  if (status === 401 || status === 403 || /api[_ ]?key/i.test(message)) return new LLMError('missingApiKey', message, error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) return new LLMError('rateLimit', message, error);
+  if (status !== undefined && status >= 500) return new LLMError('network', message, error);
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) ||
+      (error instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+    return new LLMError('network', message, error);
+  }
+  if (error instanceof SyntaxError || /JSON|unexpected token|invalid response/i.test(message)) {
+    return new LLMError('invalidResponse', message, error);
+  }
+  return new LLMError('unknown', message, error);
+};
+
+// Error for a non-2xx HTTP response from a provider
+export const httpError = (status: number, message: string) =>
+  classifyLLMError(Object.assign(new Error(message), { status }));
+
+// Exponential backoff: 1s, 2s, 4s…
+export const retryDelayMs = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+// Resolves after `ms`, or rejects with an abort error as soon as `signal` fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
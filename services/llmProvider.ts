@@ -0,0 +1,85 @@
+import { AnalystContext, ChatMessage, ToolCallRecord } from "../types";
+import { runAnalystTool } from "./analystTools";
+import { abortError, classifyLLMError } from "./llmErrors";
+
+// Upper bound on model → tool → model round trips for a single question
+const MAX_TOOL_ROUNDS = 5;
+
+export interface AnalystReply {
+  text: string;
+  toolCalls: ToolCallRecord[];
+}
+
+// A tool call requested by the model, normalized across providers
+export interface RequestedToolCall {
+  // Provider-assigned id, echoed back with the result where the API needs it
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  call: RequestedToolCall;
+  // Payload sent back to the model: { output } or { error }
+  response: Record<string, unknown>;
+  record: ToolCallRecord;
+}
+
+export interface AnalystChatSession {
+  // Stream a reply, running any tools the model asks for; `onUpdate` gets the reply so far after every change.
+  // Rejects with an LLMError; aborting `signal` stops generation with kind 'aborted'.
+  sendMessage(message: string, onUpdate: (reply: AnalystReply) => void, signal?: AbortSignal): Promise<AnalystReply>;
+}
+
+export interface LLMProvider {
+  // Shown in the chat header
+  readonly label: string;
+  // Sessions are cheap to create; callers rebuild one whenever the context changes and pass the
+  // conversation so far as history so the analyst never answers from a stale summary
+  createChatSession(context: AnalystContext, history: ChatMessage[]): Promise<AnalystChatSession>;
+}
+
+// One model turn: send the user message or the previous round's tool results, stream any text
+// through `onText`, and return the tool calls the model made (none means it has answered)
+export type ModelTurn = (
+  input: string | ToolResult[],
+  onText: (delta: string) => void,
+  signal?: AbortSignal
+) => Promise<RequestedToolCall[]>;
+
+// Shared tool loop so providers only implement the wire format of a single turn
+export const runToolLoop = async (
+  context: AnalystContext,
+  message: string,
+  turn: ModelTurn,
+  onUpdate: (reply: AnalystReply) => void,
+  signal?: AbortSignal
+): Promise<AnalystReply> => {
+  const reply: AnalystReply = { text: '', toolCalls: [] };
+  let input: string | ToolResult[] = message;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    if (signal?.aborted) throw abortError();
+    let calls: RequestedToolCall[];
+    try {
+      calls = await turn(input, delta => {
+        // Providers may still flush buffered chunks after an abort
+        if (signal?.aborted) return;
+        reply.text += delta;
+        onUpdate({ ...reply });
+      }, signal);
+    } catch (error) {
+      throw signal?.aborted ? abortError() : classifyLLMError(error);
+    }
+    if (calls.length === 0) return reply;
+
+    input = calls.map(call => {
+      const { response, record } = runAnalystTool(call.name, call.args, context);
+      reply.toolCalls = [...reply.toolCalls, record];
+      return { call, response, record };
+    });
+    onUpdate({ ...reply });
+  }
+
+  throw classifyLLMError(new Error(`Invalid response: still calling tools after ${MAX_TOOL_ROUNDS} rounds`));
+};
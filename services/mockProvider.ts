@@ -0,0 +1,104 @@
+import { AnalystContext, ChatErrorKind, ChatMessage } from "../types";
+import { AnalystChatSession, LLMProvider, RequestedToolCall, ToolResult, runToolLoop } from "./llmProvider";
+import { LLMError, abortError, sleep } from "./llmErrors";
+
+// One scripted model turn: stream some text, call tools and continue with their results, or fail
+export type MockStep =
+  | { text: string | ((results: ToolResult[]) => string) }
+  | { toolCalls: { name: string; args?: Record<string, unknown> }[] }
+  | { error: ChatErrorKind };
+
+// Decides the steps for a user message; must be deterministic for a given input
+export type MockScript = (message: string, context: AnalystContext, history: ChatMessage[]) => MockStep[];
+
+const DATE_PATTERN = /\d{4}[/-]\d{1,2}[/-]\d{1,2}/g;
+// "/fail rateLimit" and friends simulate provider failures
+const FAIL_COMMAND = /^\/fail\s+(missingApiKey|rateLimit|network|invalidResponse|unknown)\b/;
+
+const describeResults = (results: ToolResult[]) =>
+  results.map(({ record }) => `- ${record.name}: ${record.isError ? `failed (${record.summary})` : record.summary}`).join('\n');
+
+const answerFromTools = (calls: { name: string; args?: Record<string, unknown> }[]): MockStep[] => [
+  { toolCalls: calls },
+  { text: results => `Here is what the data shows:\n${describeResults(results)}` }
+];
+
+// Keyword router over the analyst tools; enough to exercise streaming, tool calls and errors offline
+export const defaultMockScript: MockScript = (message, context) => {
+  const failure = message.trim().match(FAIL_COMMAND);
+  if (failure) return [{ error: failure[1] as ChatErrorKind }];
+
+  const text = message.toLowerCase();
+  const dates = message.match(DATE_PATTERN) ?? [];
+  const period = (['week', 'month', 'quarter', 'year'] as const).find(p => text.includes(p));
+
+  if (/chart|plot|graph/.test(text)) {
+    const metric = /drawdown/.test(text) ? 'drawdown' : /return|perform/.test(text) ? 'return' : 'value';
+    const spec = {
+      metric,
+      series: /index|benchmark|market/.test(text) ? 'both' : 'portfolio',
+      start: dates[0] ?? context.data[0].date,
+      end: dates[1] ?? context.data[context.data.length - 1].date
+    };
+    return [{ text: `Here is the ${metric} chart you asked for:\n\n\`\`\`chart\n${JSON.stringify(spec)}\n\`\`\`` }];
+  }
+  if (dates.length >= 2) return answerFromTools([{ name: 'get_range_return', args: { start_date: dates[0], end_date: dates[1] } }]);
+  if (dates.length === 1) return answerFromTools([{ name: 'get_value_on_date', args: { date: dates[0] } }]);
+  if (/drawdown|decline|peak/.test(text)) return answerFromTools([{ name: 'get_max_drawdown' }]);
+  if (/best|worst|drop|jump|biggest|largest/.test(text)) return answerFromTools([{ name: 'get_best_worst_days', args: { count: 3 } }]);
+  if (/index|benchmark|market|beta/.test(text)) return answerFromTools([{ name: 'compare_with_index' }]);
+  if (period) return answerFromTools([{ name: 'get_period_returns', args: { period } }]);
+  if (/return|perform|gain/.test(text)) return answerFromTools([{ name: 'get_range_return' }]);
+
+  const first = context.data[0];
+  const last = context.data[context.data.length - 1];
+  return [{
+    text: `(Offline mock) You are viewing ${context.portfolioName} from ${first.date} to ${last.date}. ` +
+      'Ask about a value on a date, returns between two dates, drawdowns, best/worst days, the index, monthly returns, or for a chart.'
+  }];
+};
+
+// Words and their trailing whitespace, so streamed chunks rejoin to the exact text
+const toChunks = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+// Deterministic offline provider for developing the chat without network access or an API key
+export class MockProvider implements LLMProvider {
+  readonly label = 'offline mock';
+
+  constructor(private script: MockScript = defaultMockScript, private chunkDelayMs: number = 15) {}
+
+  private async stream(text: string, onText: (delta: string) => void, signal?: AbortSignal) {
+    for (const chunk of toChunks(text)) {
+      if (this.chunkDelayMs > 0) await sleep(this.chunkDelayMs, signal);
+      else if (signal?.aborted) throw abortError();
+      onText(chunk);
+    }
+  }
+
+  async createChatSession(context: AnalystContext, history: ChatMessage[] = []): Promise<AnalystChatSession> {
+    return {
+      sendMessage: (message, onUpdate, signal) => {
+        const steps = this.script(message, context, history);
+        let cursor = 0;
+
+        return runToolLoop(context, message, async (input, onText) => {
+          const results = typeof input === 'string' ? [] : input;
+          // Play text steps until the next tool call, which ends this turn
+          while (cursor < steps.length) {
+            const step = steps[cursor++];
+            if ('error' in step) throw new LLMError(step.error, `Mock failure: ${step.error}`);
+            if ('toolCalls' in step) {
+              return step.toolCalls.map((call, i): RequestedToolCall => ({
+                id: `mock_${cursor}_${i}`,
+                name: call.name,
+                args: call.args ?? {}
+              }));
+            }
+            await this.stream(typeof step.text === 'function' ? step.text(results) : step.text, onText, signal);
+          }
+          return [];
+        }, onUpdate, signal);
+      }
+    };
+  }
+}
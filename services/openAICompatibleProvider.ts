@@ -0,0 +1,145 @@
+import { AnalystContext, ChatMessage } from "../types";
+import { analystToolSpecs } from "./analystTools";
+import { buildSystemInstruction, toHistoryTurns } from "./analystPrompt";
+import { AnalystChatSession, LLMProvider, RequestedToolCall, runToolLoop } from "./llmProvider";
+import { httpError } from "./llmErrors";
+
+// Subset of the /chat/completions message format we send
+type WireMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: WireToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface WireToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface StreamDelta {
+  content?: string | null;
+  tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+}
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    // Malformed arguments reach the tool as empty and come back as a validation error
+    return {};
+  }
+};
+
+// Read a server-sent event stream, calling `onData` with each `data:` payload until [DONE]
+const readEventStream = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+      onData(data);
+    }
+  }
+};
+
+// Any server speaking the OpenAI chat completions API: llama.cpp, Ollama, LM Studio, vLLM…
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly label: string;
+
+  constructor(private baseUrl: string, private modelId: string, private apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.label = modelId;
+  }
+
+  private async streamCompletion(messages: WireMessage[], onDelta: (delta: StreamDelta) => void, signal?: AbortSignal) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.modelId,
+        messages,
+        stream: true,
+        tools: analystToolSpecs.map(spec => ({
+          type: 'function',
+          function: { name: spec.name, description: spec.description, parameters: spec.parameters }
+        }))
+      })
+    });
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw httpError(response.status, `Model server returned ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    await readEventStream(response.body, data => {
+      const delta = JSON.parse(data).choices?.[0]?.delta as StreamDelta | undefined;
+      if (delta) onDelta(delta);
+    });
+  }
+
+  async createChatSession(context: AnalystContext, history: ChatMessage[] = []): Promise<AnalystChatSession> {
+    const messages: WireMessage[] = [
+      { role: 'system', content: buildSystemInstruction(context) },
+      ...toHistoryTurns(history).map((turn): WireMessage =>
+        turn.role === 'user' ? { role: 'user', content: turn.text } : { role: 'assistant', content: turn.text }
+      )
+    ];
+
+    return {
+      sendMessage: (message, onUpdate, signal) => runToolLoop(context, message, async (input, onText) => {
+        if (typeof input === 'string') {
+          messages.push({ role: 'user', content: input });
+        } else {
+          input.forEach(({ call, response }) => {
+            messages.push({ role: 'tool', tool_call_id: call.id ?? call.name, content: JSON.stringify(response) });
+          });
+        }
+
+        let text = '';
+        // Tool calls arrive in fragments keyed by index; names first, then the arguments string
+        const pending: WireToolCall[] = [];
+        await this.streamCompletion(messages, delta => {
+          if (delta.content) {
+            text += delta.content;
+            onText(delta.content);
+          }
+          delta.tool_calls?.forEach(fragment => {
+            if (!pending[fragment.index]) {
+              pending[fragment.index] = {
+                id: fragment.id ?? `call_${fragment.index}`,
+                type: 'function',
+                function: { name: '', arguments: '' }
+              };
+            }
+            const call = pending[fragment.index];
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+          });
+        }, signal);
+
+        const toolCalls = pending.filter(Boolean);
+        messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+        return toolCalls.map((call): RequestedToolCall => ({
+          id: call.id,
+          name: call.function.name,
+          args: parseArguments(call.function.arguments)
+        }));
+      }, onUpdate, signal)
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { LLMProvider } from "./llmProvider";
+import { LLMError } from "./llmErrors";
+import { DEFAULT_GEMINI_MODEL, GeminiService } from "./geminiService";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { MockProvider } from "./mockProvider";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model?: string;
+  apiKey?: string;
+  // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+}
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock'];
+
+// Build-time settings; without LLM_PROVIDER, use Gemini when a key is configured and the offline mock otherwise
+export const readProviderConfig = (): ProviderConfig => {
+  const env = typeof process !== 'undefined' ? process.env : {} as NodeJS.ProcessEnv;
+  const requested = env.LLM_PROVIDER as ProviderId | undefined;
+  const provider = requested && PROVIDER_IDS.includes(requested) ? requested : env.API_KEY ? 'gemini' : 'mock';
+
+  if (provider === 'openai') {
+    return { provider, baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL, apiKey: env.OPENAI_API_KEY };
+  }
+  return { provider, model: env.GEMINI_MODEL, apiKey: env.API_KEY };
+};
+
+export const createLLMProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) throw new LLMError('missingApiKey', 'The Gemini provider needs API_KEY');
+      return new GeminiService(config.apiKey, config.model || DEFAULT_GEMINI_MODEL);
+    case 'openai':
+      if (!config.baseUrl || !config.model) {
+        throw new LLMError('missingApiKey', 'The OpenAI-compatible provider needs OPENAI_BASE_URL and OPENAI_MODEL');
+      }
+      return new OpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+    case 'mock':
+      return new MockProvider();
+  }
+};
+
+// Stands in for a provider that couldn't be built, so the chat can explain why instead of the app failing
+class UnavailableProvider implements LLMProvider {
+  readonly label = 'not configured';
+
+  constructor(private error: LLMError) {}
+
+  async createChatSession(): Promise<never> {
+    throw this.error;
+  }
+}
+
+export const createConfiguredProvider = (): LLMProvider => {
+  try {
+    return createLLMProvider(readProviderConfig());
+  } catch (error) {
+    console.error('Analyst provider is not configured', error);
+    return new UnavailableProvider(error instanceof LLMError ? error : new LLMError('unknown', String(error), error));
+  }
+};
+
+// A real model is behind the provider; the offline mock and a misconfigured provider can't write prose
+export const isLiveProvider = (provider: LLMProvider) =>
+  !(provider instanceof UnavailableProvider) && !(provider instanceof MockProvider);
@@ -0,0 +1,202 @@
+import { AlertState, AnalystBrief, ChartRangeState, ChatMessage, ChatThreadStore, DisplaySettings, Portfolio, WorkspaceState } from "../types";
+
+const DB_NAME = 'stockvision';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+const WORKSPACE_KEY = 'workspace';
+// Kept apart from the workspace so dragging the range doesn't rewrite every portfolio
+const CHART_RANGE_KEY = 'chartRange';
+const CHAT_KEY_PREFIX = 'chat:';
+const BRIEF_KEY_PREFIX = 'brief:';
+const ALERTS_KEY = 'alerts';
+const SETTINGS_KEY = 'settings';
+
+// Version of the records we write. To change their shape, bump this and add a step to
+// MIGRATIONS keyed by the version it upgrades *from*; stored records are upgraded on read.
+export const STORAGE_SCHEMA_VERSION = 2;
+
+interface StoredRecord<T> {
+  schemaVersion: number;
+  savedAt: string;
+  payload: T;
+}
+
+// Takes the payload as written by the version it upgrades from; null when it is not in that shape
+type Migration = (payload: unknown) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const MIGRATIONS: Record<string, Record<number, Migration>> = {
+  [WORKSPACE_KEY]: {
+    // v2: portfolios carry chart annotations
+    1: (payload) => {
+      if (!isRecord(payload) || !Array.isArray(payload.portfolios)) return null;
+      const portfolios: Portfolio[] = payload.portfolios;
+      return { ...payload, portfolios: portfolios.map(p => ({ ...p, annotations: p.annotations ?? [] })) };
+    }
+  },
+  [CHAT_KEY_PREFIX]: {
+    // v2: a single conversation became a list of threads
+    1: (payload): ChatThreadStore | null => {
+      if (!Array.isArray(payload)) return null;
+      const messages: ChatMessage[] = payload;
+      const now = new Date().toISOString();
+      return {
+        threads: [{ id: 'migrated', title: 'Conversation', messages, createdAt: now, updatedAt: now }],
+        activeThreadId: 'migrated'
+      };
+    }
+  },
+  // Briefs are a cache; older ones are dropped rather than migrated
+  [BRIEF_KEY_PREFIX]: {},
+  // Added in v2
+  [ALERTS_KEY]: {},
+  [SETTINGS_KEY]: {},
+  [CHART_RANGE_KEY]: {}
+};
+
+export class StorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDb(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Object store layout changes go here, stepping through event.oldVersion
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call retry if opening failed (e.g. blocked in a private window)
+    this.dbPromise.catch(() => { this.dbPromise = null; });
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = action(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private migrate<T>(migrationKey: string, record: StoredRecord<unknown>): T | null {
+    let { schemaVersion, payload } = record;
+    const steps = MIGRATIONS[migrationKey] ?? {};
+
+    while (schemaVersion < STORAGE_SCHEMA_VERSION) {
+      const step = steps[schemaVersion];
+      if (!step) {
+        console.warn(`No storage migration from v${schemaVersion} for "${migrationKey}"; discarding record`);
+        return null;
+      }
+      payload = step(payload);
+      if (payload === null) {
+        console.warn(`Unreadable v${schemaVersion} record for "${migrationKey}"; discarding it`);
+        return null;
+      }
+      schemaVersion++;
+    }
+    // Written by a newer build; safer to ignore than to misread
+    if (schemaVersion > STORAGE_SCHEMA_VERSION) return null;
+    return payload as T;
+  }
+
+  private async read<T>(key: string, migrationKey: string): Promise<T | null> {
+    try {
+      const record = await this.run<StoredRecord<unknown> | undefined>('readonly', store => store.get(key));
+      if (!record) return null;
+      return this.migrate<T>(migrationKey, record);
+    } catch (error) {
+      console.error(`Failed to read "${key}" from storage`, error);
+      return null;
+    }
+  }
+
+  private async write<T>(key: string, payload: T): Promise<void> {
+    const record: StoredRecord<T> = {
+      schemaVersion: STORAGE_SCHEMA_VERSION,
+      savedAt: new Date().toISOString(),
+      payload
+    };
+    try {
+      await this.run('readwrite', store => store.put(record, key));
+    } catch (error) {
+      console.error(`Failed to write "${key}" to storage`, error);
+    }
+  }
+
+  loadWorkspace() {
+    return this.read<WorkspaceState>(WORKSPACE_KEY, WORKSPACE_KEY);
+  }
+
+  saveWorkspace(state: WorkspaceState) {
+    return this.write(WORKSPACE_KEY, state);
+  }
+
+  loadChartRange() {
+    return this.read<ChartRangeState>(CHART_RANGE_KEY, CHART_RANGE_KEY);
+  }
+
+  saveChartRange(range: ChartRangeState) {
+    return this.write(CHART_RANGE_KEY, range);
+  }
+
+  loadChatThreads(historyKey: string) {
+    return this.read<ChatThreadStore>(CHAT_KEY_PREFIX + historyKey, CHAT_KEY_PREFIX);
+  }
+
+  saveChatThreads(historyKey: string, store: ChatThreadStore) {
+    return this.write(CHAT_KEY_PREFIX + historyKey, store);
+  }
+
+  loadBrief(datasetHash: string) {
+    return this.read<AnalystBrief>(BRIEF_KEY_PREFIX + datasetHash, BRIEF_KEY_PREFIX);
+  }
+
+  saveBrief(brief: AnalystBrief) {
+    return this.write(BRIEF_KEY_PREFIX + brief.datasetHash, brief);
+  }
+
+  loadAlerts() {
+    return this.read<AlertState>(ALERTS_KEY, ALERTS_KEY);
+  }
+
+  saveAlerts(state: AlertState) {
+    return this.write(ALERTS_KEY, state);
+  }
+
+  loadSettings() {
+    return this.read<DisplaySettings>(SETTINGS_KEY, SETTINGS_KEY);
+  }
+
+  saveSettings(settings: DisplaySettings) {
+    return this.write(SETTINGS_KEY, settings);
+  }
+
+  // Drop everything, used by "reset to sample data"
+  async clear(): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.clear());
+    } catch (error) {
+      console.error('Failed to clear storage', error);
+    }
+  }
+}
+
+export const storageService = new StorageService();
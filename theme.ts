@@ -0,0 +1,43 @@
+import { ColorConvention, MarketPalette } from './types';
+
+const RED = {
+  text: 'text-rose-400',
+  soft: 'bg-rose-500/10 text-rose-500',
+  bar: 'bg-rose-500',
+  button: 'bg-rose-600 hover:bg-rose-500',
+  glow: 'from-rose-500/5',
+  hex: '#f43f5e',
+  rgb: '244, 63, 94'
+};
+
+const GREEN = {
+  text: 'text-emerald-400',
+  soft: 'bg-emerald-500/10 text-emerald-500',
+  bar: 'bg-emerald-500',
+  button: 'bg-emerald-600 hover:bg-emerald-500',
+  glow: 'from-emerald-500/5',
+  hex: '#10b981',
+  rgb: '16, 185, 129'
+};
+
+const paletteOf = (up: typeof RED, down: typeof RED): MarketPalette => ({
+  upText: up.text,
+  downText: down.text,
+  upSoft: up.soft,
+  downSoft: down.soft,
+  upBar: up.bar,
+  downBar: down.bar,
+  accentButton: up.button,
+  accentGlow: up.glow,
+  upHex: up.hex,
+  downHex: down.hex,
+  upRgb: up.rgb,
+  downRgb: down.rgb
+});
+
+// Gains and losses follow the convention, and so do the header and card accents, which take the gain
+// color; the rose portfolio line is the brand color
+export const MARKET_PALETTES: Record<ColorConvention, MarketPalette> = {
+  eastAsian: paletteOf(RED, GREEN),
+  western: paletteOf(GREEN, RED)
+};
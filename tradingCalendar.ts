@@ -0,0 +1,125 @@
+import { CalendarReport, ChartGapBreak, DataGap, ExchangeHoliday, NonTradingRow, StaleIndexRun, TradingCalendar } from './types';
+import {
+  COLUMN_ALIASES,
+  detectDateFormat,
+  detectDelimiter,
+  findAliasColumn,
+  formatCanonicalDate,
+  normalizeCSVText,
+  parseDateString,
+  splitDelimitedLine
+} from './csvImport';
+import { TWSE_CALENDAR_NAME } from './constants';
+import TWSE_HOLIDAYS_CSV from './data/twse-holidays.csv?raw';
+
+const HOLIDAY_NAME_ALIASES = ['name', 'holiday', 'description', 'reason', 'note', '名稱', '假日', '說明'];
+
+// date[,name]. The header row is optional; a file of bare dates is read as one holiday per line.
+export const parseHolidayCSV = (text: string): ExchangeHoliday[] => {
+  const lines = normalizeCSVText(text).split('\n').filter(l => l.trim() !== '');
+  if (lines.length === 0) return [];
+  const delimiter = detectDelimiter(lines);
+  const table = lines.map(line => splitDelimitedLine(line, delimiter));
+
+  const headerDateCol = findAliasColumn(table[0], COLUMN_ALIASES.date);
+  const firstCell = table[0][0] ?? '';
+  const hasHeader = headerDateCol !== null || parseDateString(firstCell, detectDateFormat([firstCell]).format) === null;
+  const rows = hasHeader ? table.slice(1) : table;
+  const dateCol = headerDateCol ?? 0;
+  const nameCol = hasHeader ? findAliasColumn(table[0], HOLIDAY_NAME_ALIASES) ?? (dateCol === 0 ? 1 : 0) : 1;
+
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const byDate = new Map<string, ExchangeHoliday>();
+  rows.forEach(fields => {
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    if (!dateObj) return;
+    const date = formatCanonicalDate(dateObj);
+    byDate.set(date, { date, dateObj, name: (fields[nameCol] ?? '').trim() });
+  });
+  return [...byDate.values()].sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+export const DEFAULT_TRADING_CALENDAR: TradingCalendar = {
+  name: TWSE_CALENDAR_NAME,
+  holidays: parseHolidayCSV(TWSE_HOLIDAYS_CSV)
+};
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const nextDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// Checks a series against the calendar: weekdays that are not holidays should each have a row,
+// and no row should fall on a weekend or holiday. Stale index runs only count trading-day rows,
+// since a row on a closed day repeating the last close is already reported as a non-trading row.
+// A year the calendar lists no holidays for is taken as not covered: every weekday in it could be
+// a closure, so missing days there are left out and the year is reported instead.
+export const analyzeTradingCalendar = (
+  data: { date: string; dateObj: Date; index?: number }[],
+  calendar: TradingCalendar
+): CalendarReport => {
+  const holidays = new Map(calendar.holidays.map(h => [h.date, h.name]));
+  const coveredYears = new Set(calendar.holidays.map(h => h.dateObj.getFullYear()));
+  const isTradingDay = (date: Date) => !isWeekend(date) && !holidays.has(formatCanonicalDate(date));
+
+  const gaps: DataGap[] = [];
+  const nonTradingRows: NonTradingRow[] = [];
+  const staleIndex: StaleIndexRun[] = [];
+  let previousTrading: { date: string; index?: number } | null = null;
+  let run: StaleIndexRun | null = null;
+
+  data.forEach((point, i) => {
+    if (i > 0) {
+      const missing: string[] = [];
+      for (let day = nextDay(data[i - 1].dateObj); day < point.dateObj; day = nextDay(day)) {
+        if (coveredYears.has(day.getFullYear()) && isTradingDay(day)) missing.push(formatCanonicalDate(day));
+      }
+      if (missing.length > 0) gaps.push({ after: data[i - 1].date, before: point.date, missing });
+    }
+
+    if (!isTradingDay(point.dateObj)) {
+      nonTradingRows.push(isWeekend(point.dateObj)
+        ? { date: point.date, reason: 'weekend' }
+        : { date: point.date, reason: 'holiday', holiday: holidays.get(point.date) });
+      return;
+    }
+
+    if (point.index !== undefined && previousTrading?.index === point.index) {
+      if (run && run.end === previousTrading.date) {
+        run.end = point.date;
+        run.repeats++;
+      } else {
+        run = { start: previousTrading.date, end: point.date, repeats: 1, value: point.index };
+        staleIndex.push(run);
+      }
+    }
+    previousTrading = point;
+  });
+
+  const uncoveredYears: number[] = [];
+  if (data.length > 0) {
+    for (let year = data[0].dateObj.getFullYear(); year <= data[data.length - 1].dateObj.getFullYear(); year++) {
+      if (!coveredYears.has(year)) uncoveredYears.push(year);
+    }
+  }
+
+  return {
+    gaps,
+    missingDays: gaps.reduce((acc, gap) => acc + gap.missing.length, 0),
+    nonTradingRows,
+    staleIndex,
+    uncoveredYears
+  };
+};
+
+// Adds an empty row at each gap that falls inside `rows`, so lines stop at the last row before a
+// gap and restart after it. Every chart sharing a Brush needs the same rows for its indices to match.
+export const withGapBreaks = <T extends { date: string }>(rows: T[], gaps: DataGap[]): (T | ChartGapBreak)[] => {
+  if (gaps.length === 0) return rows;
+  const gapBefore = new Map(gaps.map(gap => [gap.before, gap]));
+  return rows.flatMap((row, i) => {
+    const gap = gapBefore.get(row.date);
+    return gap && i > 0 && rows[i - 1].date === gap.after
+      ? [{ date: gap.missing[0], missingDays: gap.missing.length }, row]
+      : [row];
+  });
+};
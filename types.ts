@@ -3,6 +3,10 @@ export interface StockDataPoint {
   dateObj: Date;
   value: number;
   index?: number;
+  // External cash flow on this date (deposit > 0, withdrawal < 0), already included in `value`
+  flow?: number;
+  // Event text from the CSV's note column, shown as a chart annotation
+  note?: string;
 }
 
 export interface MonthlyGrowth {
@@ -11,11 +15,683 @@ export interface MonthlyGrowth {
   endValue: number;
   growth: number;
   growthPercent: number;
+  netFlow?: number;
 }
 
+// Inclusive date window in YYYY-MM-DD (date input) format; empty strings mean unbounded
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type TimeRange = '1D' | '7D' | '1M' | '3M' | 'YTD' | 'ALL';
+
+// Range selection of the main chart: a preset, or CUSTOM when the dates were edited by hand
+export interface ChartRangeState {
+  activeRange: TimeRange | 'CUSTOM';
+  dateRange: DateRange;
+}
+
+export interface RiskMetrics {
+  observations: number;
+  annualizedReturnPercent: number;
+  annualizedVolatilityPercent: number;
+  maxDrawdownPercent: number;
+  drawdownPeakDate: string | null;
+  drawdownTroughDate: string | null;
+  // null while the series has not yet regained the drawdown peak
+  drawdownRecoveryDate: string | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  beta: number | null;
+  alphaPercent: number | null;
+  correlation: number | null;
+  trackingErrorPercent: number | null;
+}
+
+export interface DrawdownPoint extends StockDataPoint {
+  // Percent below the running peak (0 at a new high, negative otherwise)
+  drawdown: number;
+  daysSincePeak: number;
+  indexDrawdown?: number;
+  indexDaysSincePeak?: number;
+}
+
+// Which technical overlays are drawn and their look-back windows (in trading days)
+export interface IndicatorSettings {
+  sma: { enabled: boolean; window: number };
+  ema: { enabled: boolean; window: number };
+  // Bands `width` standard deviations around a `window`-day SMA
+  bollinger: { enabled: boolean; window: number; width: number };
+  // Rolling return and volatility, drawn in a sub-pane
+  rolling: { enabled: boolean; window: number };
+}
+
+// A point with the enabled overlays computed over the full history; unset until a window has filled
+export interface IndicatorPoint extends StockDataPoint {
+  sma?: number;
+  ema?: number;
+  bollingerUpper?: number;
+  bollingerMiddle?: number;
+  bollingerLower?: number;
+  // Flow-adjusted return over the last `window` days, in percent
+  rollingReturn?: number;
+  // Annualized volatility of daily returns over the last `window` days, in percent
+  rollingVolatility?: number;
+}
+
+// Cumulative percent returns since the first point of a window
+export interface RebasedPoint extends StockDataPoint {
+  portfolioReturn: number;
+  indexReturn?: number;
+  // Portfolio growth ÷ index growth, minus 1 (percent); > 0 means outperforming
+  relativeStrength?: number;
+}
+
+export type BucketPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+// Growth over one calendar bucket, measured from the previous bucket's close
+export interface PeriodGrowth {
+  // Sortable key: 2025-W03, 2025-04, 2025-Q2 or 2025
+  period: string;
+  startValue: number;
+  endValue: number;
+  growth: number;
+  growthPercent: number;
+  netFlow?: number;
+  indexGrowthPercent?: number;
+  // Portfolio minus index, in percentage points
+  excessPercent?: number;
+}
+
+export interface DailyChange {
+  date: string;
+  value: number;
+  // Change versus the previous trading day, net of that day's flow
+  change: number;
+  changePercent: number;
+  indexChangePercent?: number;
+}
+
+// Figures behind the analyst brief, all from the latest month of a dataset
+export interface BriefFacts {
+  asOf: string;
+  // e.g. "April 2025"
+  monthLabel: string;
+  tradingDays: number;
+  monthGrowth: number;
+  monthGrowthPercent: number;
+  indexMonthPercent?: number;
+  // Portfolio minus index, in percentage points
+  excessPercent?: number;
+  // Biggest up and down days of the month; unset when the month had none
+  bestDay?: DailyChange;
+  worstDay?: DailyChange;
+  // Current distance below the running peak (0 at a new high)
+  drawdownPercent: number;
+  peakDate: string;
+  maxDrawdownPercent: number;
+}
+
+export interface AnalystBrief {
+  // Hash of the series and return mode the brief was written for
+  datasetHash: string;
+  // Markdown
+  text: string;
+  // 'template' is the deterministic fallback used without a model
+  source: 'llm' | 'template';
+  // Model that wrote it, for 'llm' briefs
+  model?: string;
+  generatedAt: string;
+}
+
+export interface CashFlow {
+  date: string;
+  dateObj: Date;
+  amount: number;
+}
+
+export type ReturnMode = 'value' | 'flowAdjusted';
+
+// Exchange rate on a day: one unit of `base` buys `rate` units of `quote`
+export interface FxQuote {
+  date: string;
+  dateObj: Date;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+// A return in the base currency split into the local-market move and the currency move
+export interface FxDecomposition {
+  localCurrency: string;
+  baseCurrency: string;
+  totalPercent: number;
+  localPercent: number;
+  // Return of the currency alone; compounds with the local return into the total
+  fxPercent: number;
+}
+
+// A day the exchange is closed on a weekday
+export interface ExchangeHoliday {
+  date: string;
+  dateObj: Date;
+  name: string;
+}
+
+export interface TradingCalendar {
+  // Exchange or file the holidays came from
+  name: string;
+  holidays: ExchangeHoliday[];
+}
+
+// Trading days with no row between two consecutive rows of a series
+export interface DataGap {
+  // Last row before the gap and first row after it
+  after: string;
+  before: string;
+  missing: string[];
+}
+
+export interface NonTradingRow {
+  date: string;
+  reason: 'weekend' | 'holiday';
+  // Holiday name, for holiday rows
+  holiday?: string;
+}
+
+// Consecutive trading-day rows whose index did not move
+export interface StaleIndexRun {
+  start: string;
+  end: string;
+  // Rows after `start` that repeat its value
+  repeats: number;
+  value: number;
+}
+
+// Placeholder row drawn where a gap is, so chart lines break instead of bridging it
+export interface ChartGapBreak {
+  // First missing trading day
+  date: string;
+  missingDays: number;
+}
+
+export interface CalendarReport {
+  gaps: DataGap[];
+  missingDays: number;
+  nonTradingRows: NonTradingRow[];
+  staleIndex: StaleIndexRun[];
+  // Years of the series the calendar lists no holidays for; their weekdays are not checked for gaps
+  uncoveredYears: number[];
+}
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'fee';
+
+// One row of a transactions ledger
+export interface LedgerTransaction {
+  date: string;
+  dateObj: Date;
+  symbol: string;
+  type: TransactionType;
+  // Shares bought or sold; 0 for dividends and fees
+  quantity: number;
+  // Cash amount, always positive: trade cost or proceeds, dividend received, fee paid
+  amount: number;
+}
+
+// Closing price of a symbol on a day
+export interface PriceQuote {
+  date: string;
+  dateObj: Date;
+  symbol: string;
+  close: number;
+}
+
+export interface HoldingsLedger {
+  transactions: LedgerTransaction[];
+  prices: PriceQuote[];
+}
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  // Last known close on or before the day; falls back to the last trade price
+  price: number;
+  value: number;
+}
+
+// Holdings reconstructed from the ledger as of one day
+export interface PositionSnapshot {
+  date: string;
+  dateObj: Date;
+  positions: Position[];
+  // Sum of the position values
+  value: number;
+}
+
+// How much one symbol added to a month's growth
+export interface SymbolContribution {
+  symbol: string;
+  startValue: number;
+  endValue: number;
+  // Bought minus sold during the month, taken out so trades don't read as gains
+  netPurchases: number;
+  // Dividends minus fees
+  income: number;
+  contribution: number;
+  // Contribution relative to the portfolio's value at the start of the month
+  contributionPercent: number;
+}
+
+export interface MonthlyAttribution {
+  month: string;
+  growth: number;
+  growthPercent: number;
+  contributions: SymbolContribution[];
+  // Growth not explained by the holdings: cash, deposits, or gaps in the ledger
+  unexplained: number;
+  unexplainedPercent: number;
+}
+
+export interface PeriodReturns {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  valueChange: number;
+  simpleReturnPercent: number;
+  netFlows: number;
+  // Value change with deposits/withdrawals removed
+  investmentGain: number;
+  // Time-weighted return, chained daily sub-periods
+  twrPercent: number;
+  // Money-weighted return (annualized XIRR); null when it cannot be solved
+  mwrPercent: number | null;
+}
+
+export type DuplicateDatePolicy = 'last' | 'first' | 'average';
+export type DateFormat = 'auto' | 'YMD' | 'MDY' | 'DMY';
+
+export interface ImportOptions {
+  duplicatePolicy?: DuplicateDatePolicy;
+  dateFormat?: DateFormat;
+  // 'auto' inspects the file; ',' is typical for EU exports ("1.234.567,89")
+  decimalSeparator?: 'auto' | '.' | ',';
+}
+
+// Problems the CSV importers report, as a code plus the values the message quotes; the UI
+// words them in the selected language
+export type ImportIssueCode =
+  | 'tooFewColumns'
+  | 'badDate'
+  | 'badValue'
+  | 'badFlow'
+  | 'valueColumnGuessed'
+  | 'ambiguousDayMonth'
+  | 'badIndex'
+  | 'duplicates'
+  | 'unsorted'
+  | 'tooFewLines'
+  | 'noSymbolColumn'
+  | 'noValueColumn'
+  | 'missingSymbol'
+  | 'noPrice'
+  | 'missingValue';
+
+export interface ImportIssue {
+  code: ImportIssueCode;
+  params?: Record<string, string | number>;
+}
+
+export interface RejectedRow {
+  line: number;
+  raw: string;
+  reason: ImportIssue;
+}
+
+export interface ImportReport {
+  delimiter: string;
+  hasHeader: boolean;
+  columns: { date: number; value: number; index: number | null; flow: number | null; note: number | null };
+  dateFormat: Exclude<DateFormat, 'auto'>;
+  decimalSeparator: '.' | ',';
+  rowsRead: number;
+  rowsAccepted: number;
+  duplicateDates: string[];
+  rejected: RejectedRow[];
+  warnings: ImportIssue[];
+}
+
+export interface ImportResult {
+  data: StockDataPoint[];
+  report: ImportReport;
+}
+
+export interface SeriesChange {
+  date: string;
+  before: StockDataPoint;
+  after: StockDataPoint;
+}
+
+// Result of comparing an incoming batch of rows against the current series
+export interface SeriesDiff {
+  added: StockDataPoint[];
+  // Same value, but the batch fills or updates the index / cash flow / note
+  changed: SeriesChange[];
+  // The batch disagrees with the stored value for the date
+  conflicts: SeriesChange[];
+  unchanged: number;
+}
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  // ISO 4217 code the dataset is recorded in; DEFAULT_CURRENCY when unset
+  currency?: string;
+  csvContent: string;
+  importOptions: ImportOptions;
+  cashFlows: CashFlow[];
+  annotations: ChartAnnotation[];
+  // Optional transactions and prices behind the totals; portfolios with only totals leave it unset
+  ledger?: HoldingsLedger;
+  // Optional dated holdings snapshots, oldest first
+  holdings?: HoldingsSnapshot[];
+  allocationTargets?: AllocationTarget[];
+}
+
+// One line of a holdings snapshot
+export interface HoldingRecord {
+  symbol: string;
+  quantity?: number;
+  value: number;
+  sector: string;
+  assetClass: string;
+}
+
+// What the portfolio held on one day
+export interface HoldingsSnapshot {
+  date: string;
+  dateObj: Date;
+  holdings: HoldingRecord[];
+  total: number;
+}
+
+// Outcome of reading a holdings file; `warnings` are file-level problems such as a missing column
+export interface HoldingsImport {
+  snapshots: HoldingsSnapshot[];
+  rejected: RejectedRow[];
+  warnings: ImportIssue[];
+}
+
+export type AllocationDimension = 'symbol' | 'sector' | 'assetClass';
+
+export interface AllocationSlice {
+  key: string;
+  value: number;
+  // Percent of the snapshot total
+  weight: number;
+}
+
+export interface ConcentrationMetrics {
+  holdings: number;
+  // Combined weight (percent) of the largest 1, 5 and 10 holdings
+  top1: number;
+  top5: number;
+  top10: number;
+  // Sum of squared weights on the 0–10,000 scale; 10,000 is a single holding
+  herfindahl: number;
+  // Number of equal-weight holdings with the same concentration (10,000 / herfindahl)
+  effectiveHoldings: number;
+}
+
+// Desired weight of one symbol, sector or asset class, with a tolerance band around it
+export interface AllocationTarget {
+  id: string;
+  dimension: AllocationDimension;
+  key: string;
+  // Percent of the portfolio
+  target: number;
+  // Allowed drift either side, in percentage points
+  band: number;
+}
+
+export interface AllocationDrift {
+  target: AllocationTarget;
+  actual: number;
+  // Actual minus target, in percentage points
+  drift: number;
+  isOutsideBand: boolean;
+}
+
+// Note drawn on the main chart, attached to a single day or a whole month
+export interface ChartAnnotation {
+  id: string;
+  // YYYY/M/D; for a month, the first day of it
+  date: string;
+  span: 'day' | 'month';
+  // Short label shown on the chart
+  label: string;
+  // Longer text, e.g. the analyst answer it was pinned from
+  text?: string;
+  // 'csv' annotations come from the dataset's note column and are edited in the file, not the app
+  source: 'user' | 'analyst' | 'csv';
+  // Unset for 'csv' annotations
+  createdAt?: string;
+}
+
+// The editable part of an annotation
+export type AnnotationDraft = Pick<ChartAnnotation, 'date' | 'span' | 'label' | 'text'>;
+
+// A named series overlaid in the comparison chart
+export interface ComparisonSeries {
+  id: string;
+  name: string;
+  color: string;
+  data: StockDataPoint[];
+}
+
+// Which color marks a gain: red in East-Asian markets, green in Western ones
+export type ColorConvention = 'eastAsian' | 'western';
+
+// How dates are shown; storage, CSV export and the analyst keep the canonical YYYY/M/D
+export type DateDisplayFormat = 'ymd' | 'iso' | 'locale';
+
+export type UiLanguage = 'en' | 'zh-TW';
+
+// First day of a weekly bucket
+export type WeekStart = 'monday' | 'sunday';
+
+// Per-user display preferences, kept apart from the workspace data
+export interface DisplaySettings {
+  language: UiLanguage;
+  colorConvention: ColorConvention;
+  // BCP 47 tag for numbers, compact amounts and locale-formatted dates
+  numberLocale: string;
+  dateFormat: DateDisplayFormat;
+  weekStart: WeekStart;
+}
+
+// How amounts, numbers and dates are written out: the display settings plus the currency amounts are in
+export interface DisplayFormat {
+  // Amounts are shown in this currency unless a caller names another
+  currency: string;
+  locale: string;
+  dateFormat: DateDisplayFormat;
+  weekStart: WeekStart;
+}
+
+// Formatting functions bound to one DisplayFormat
+export interface Formatters {
+  format: DisplayFormat;
+  formatDisplayDate: (value: string | Date) => string;
+  formatMonthYear: (date: Date, month?: 'long' | 'short') => string;
+  formatNumber: (val: number, fractionDigits?: number) => string;
+  formatCurrency: (val: number, currency?: string) => string;
+  currencySymbol: (currency?: string) => string;
+  formatCompactCurrency: (val: number, currency?: string) => string;
+}
+
+// Gain and loss colors under one convention: Tailwind classes plus raw colors for charts
+export interface MarketPalette {
+  upText: string;
+  downText: string;
+  upSoft: string;
+  downSoft: string;
+  upBar: string;
+  downBar: string;
+  // Primary button and card background fade, in the gain color
+  accentButton: string;
+  accentGlow: string;
+  upHex: string;
+  downHex: string;
+  // "r, g, b" for heatmap shades
+  upRgb: string;
+  downRgb: string;
+}
+
+// What the dashboard restores on reload
+export interface WorkspaceState {
+  portfolios: Portfolio[];
+  activePortfolioId: string;
+  returnMode: ReturnMode;
+  // Only in records saved before the range got its own storage key
+  chartRange?: ChartRangeState;
+  // Currency every amount is converted to; DEFAULT_CURRENCY when unset
+  baseCurrency?: string;
+  fxRates?: FxQuote[];
+  // Exchange holidays used for gap checks; the bundled list when unset
+  tradingCalendar?: TradingCalendar;
+  // Annual rate (0.015 = 1.5%) behind Sharpe, Sortino and alpha; DEFAULT_RISK_FREE_RATE when unset
+  riskFreeRate?: number;
+}
+
+// What the analyst chat is looking at; mirrors the dashboard's current selection
+export interface AnalystContext {
+  portfolioName: string;
+  returnMode: ReturnMode;
+  // Selected chart window; the chart fills it in for the full history too
+  dateRange: DateRange;
+  // Points inside dateRange
+  data: StockDataPoint[];
+  // Full history of the portfolio, so tools can answer about dates outside the view
+  series: StockDataPoint[];
+  risk: RiskMetrics | null;
+  // Events marked on the chart, shared with the model as background
+  annotations?: ChartAnnotation[];
+  // Currency of every amount in `data` and `series`
+  currency?: string;
+  // Set when the portfolio was converted from another currency
+  fx?: FxDecomposition | null;
+  // First day of weekly buckets, as on the charts
+  weekStart?: WeekStart;
+}
+
+// One analyst tool invocation, kept on the reply it fed into
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  // Short readable outcome, or the error message when the call failed
+  summary: string;
+  isError?: boolean;
+}
+
+// Chart the analyst can embed in a reply as a ```chart block; always drawn from our own data
+export interface ChartBlockSpec {
+  metric: 'value' | 'return' | 'drawdown';
+  series: 'portfolio' | 'index' | 'both';
+  // Inclusive bounds, YYYY/M/D; default to the whole history
+  start?: string;
+  end?: string;
+  title?: string;
+}
+
+export type ChatErrorKind = 'missingApiKey' | 'rateLimit' | 'network' | 'invalidResponse' | 'aborted' | 'unknown';
+
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'model';
+  // 'system' entries are local notices (e.g. context changes) and are never sent to the model
+  role: 'user' | 'model' | 'system';
   text: string;
   isThinking?: boolean;
-}
\ No newline at end of file
+  // Tools the model called while producing this reply
+  toolCalls?: ToolCallRecord[];
+  // Set on a reply that failed; it is shown with a retry action and never sent back to the model
+  error?: ChatErrorKind;
+  // Reply cut short by the user; the partial text is kept
+  isStopped?: boolean;
+  // Annotation this reply was pinned to on the dashboard
+  pinnedAnnotationId?: string;
+}
+
+// A named conversation with the analyst; each portfolio keeps its own list
+export interface ChatThread {
+  id: string;
+  title: string;
+  // Renamed by the user, so it is no longer derived from the first question
+  hasCustomTitle?: boolean;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatThreadStore {
+  threads: ChatThread[];
+  activeThreadId: string;
+}
+
+export type AlertRuleKind = 'valueBelow' | 'valueAbove' | 'dailyDrop' | 'drawdown' | 'underperformIndex';
+
+// Look-back for rules that compare performance over a period
+export type AlertPeriod = '1W' | '1M' | '3M' | 'YTD';
+
+// User-defined condition checked whenever a portfolio's data loads or changes
+export interface AlertRule {
+  id: string;
+  // Portfolio it watches; AGGREGATE_PORTFOLIO_ID for the combined view
+  portfolioId: string;
+  kind: AlertRuleKind;
+  // Currency amount for the value rules; a positive percent for the others ("drop worse than 3%")
+  threshold: number;
+  // Only used by underperformIndex
+  period?: AlertPeriod;
+  // Currency a value rule's threshold is in; DEFAULT_CURRENCY for rules saved before currencies existed
+  currency?: string;
+  enabled: boolean;
+  createdAt: string;
+  // Last data date (YYYY/M/D) the rule was checked against; later points are checked on the next run
+  checkedThrough?: string;
+  // Level rules fire when their condition starts to hold, not again while it keeps holding
+  isActive?: boolean;
+}
+
+// The editable part of a rule
+export type AlertRuleDraft = Pick<AlertRule, 'portfolioId' | 'kind' | 'threshold' | 'period'>;
+
+// A rule's settings at the time it fired, plus the value it saw
+export interface AlertReading extends Pick<AlertRule, 'kind' | 'threshold' | 'period' | 'currency'> {
+  value: number;
+  // Currency of `value` for the value rules, i.e. of the series the rule watched
+  valueCurrency?: string;
+}
+
+// A rule that fired, kept in the alert center's history
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  portfolioId: string;
+  // Kept so the history still reads right after a rename or delete
+  portfolioName: string;
+  // Data date (YYYY/M/D) the condition was met on
+  date: string;
+  // What the rule measured, so the message is worded in the language shown at the time
+  reading?: AlertReading;
+  // English message of events saved before readings were kept
+  message?: string;
+  firedAt: string;
+  acknowledgedAt?: string;
+}
+
+export interface AlertState {
+  rules: AlertRule[];
+  events: AlertEvent[];
+}
@@ -1,105 +1,638 @@
-import { StockDataPoint, MonthlyGrowth } from './types';
-import { RAW_CSV_DATA } from './constants';
-
-export const parseCSV = (csvContent: string = RAW_CSV_DATA): StockDataPoint[] => {
-  const lines = csvContent.trim().split('\n');
-  // Skip header
-  const dataLines = lines.slice(1);
-  
-  const parsedData = dataLines.map((line): StockDataPoint | null => {
-    // Regex to handle quoted numbers with commas
-    const matches = line.match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g);
-    
-    if (!matches || matches.length < 2) return null;
-
-    const dateStr = matches[0];
-    const valueStr = matches[1].replace(/"/g, '').replace(/,/g, '');
-    
-    // Parse Date "2024/12/31"
-    const [year, month, day] = dateStr.split('/').map(Number);
-    const dateObj = new Date(year, month - 1, day);
-
-    // Parse Index if available (3rd column)
-    let indexVal: number | undefined = undefined;
-    if (matches.length >= 3) {
-        const indexStr = matches[2].replace(/"/g, '').replace(/,/g, '');
-        const parsed = parseFloat(indexStr);
-        if (!isNaN(parsed)) {
-            indexVal = parsed;
-        }
+import {
+  StockDataPoint,
+  MonthlyGrowth,
+  CashFlow,
+  PeriodReturns,
+  ReturnMode,
+  DateRange,
+  RiskMetrics,
+  DrawdownPoint,
+  RebasedPoint,
+  ImportOptions,
+  ComparisonSeries,
+  BucketPeriod,
+  PeriodGrowth,
+  DailyChange,
+  ChartAnnotation,
+  DisplayFormat,
+  Formatters,
+  WeekStart
+} from './types';
+import { RAW_CSV_DATA, DEFAULT_RISK_FREE_RATE, TRADING_DAYS_PER_YEAR, DEFAULT_CURRENCY, DEFAULT_DISPLAY_FORMAT } from './constants';
+import {
+  importCSV,
+  normalizeCSVText,
+  detectDelimiter,
+  splitDelimitedLine,
+  detectDateFormat,
+  detectDecimalSeparator,
+  parseDateString,
+  parseLocaleNumber,
+  formatCanonicalDate,
+  COLUMN_ALIASES
+} from './csvImport';
+
+// Sorted, de-duplicated series from a CSV; see importCSV for the validation report
+export const parseCSV = (csvContent: string = RAW_CSV_DATA, options?: ImportOptions): StockDataPoint[] => {
+  return importCSV(csvContent, options).data;
+};
+
+// Parse a standalone deposits/withdrawals file: date,amount
+export const parseCashFlowCSV = (csvContent: string): CashFlow[] => {
+  const lines = normalizeCSVText(csvContent).split('\n').filter(l => l.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const delimiter = detectDelimiter(lines);
+  const headers = splitDelimitedLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const dateIdx = headers.findIndex(h => COLUMN_ALIASES.date.includes(h));
+  const amountIdx = headers.findIndex(h => COLUMN_ALIASES.flow.includes(h));
+  const dateCol = dateIdx >= 0 ? dateIdx : 0;
+  const amountCol = amountIdx >= 0 ? amountIdx : 1;
+
+  const rows = lines.slice(1).map(line => splitDelimitedLine(line, delimiter));
+  const { format } = detectDateFormat(rows.map(r => r[dateCol] ?? ''));
+  const decimalSeparator = detectDecimalSeparator(rows.map(r => r[amountCol] ?? ''));
+
+  return rows.map((fields): CashFlow | null => {
+    const dateObj = parseDateString(fields[dateCol] ?? '', format);
+    const amount = parseLocaleNumber(fields[amountCol], decimalSeparator);
+    if (!dateObj || amount === undefined) return null;
+
+    return { date: formatCanonicalDate(dateObj), dateObj, amount };
+  })
+    .filter((item): item is CashFlow => item !== null)
+    .sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+};
+
+// Attach cash flows to the series. A flow on a non-trading date lands on the next
+// available data point, since that is the first value that includes it.
+export const applyCashFlows = (data: StockDataPoint[], flows: CashFlow[]): StockDataPoint[] => {
+  const result = data.map(point => ({ ...point }));
+  if (result.length === 0) return result;
+
+  flows.forEach(flow => {
+    const target = result.find(point => point.dateObj.getTime() >= flow.dateObj.getTime());
+    if (!target) return;
+    target.flow = (target.flow ?? 0) + flow.amount;
+  });
+
+  return result;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound for the XIRR search (100,000,000% a year); short periods annualize steeply
+const MAX_XIRR_RATE = 1e6;
+
+// Solve the annualized rate that zeroes the NPV of dated cash flows (investor perspective)
+const solveXIRR = (cashFlows: { amount: number; dateObj: Date }[]): number | null => {
+  if (cashFlows.length < 2) return null;
+  const t0 = cashFlows[0].dateObj.getTime();
+  const years = cashFlows.map(cf => (cf.dateObj.getTime() - t0) / DAY_MS / 365);
+  if (years[years.length - 1] <= 0) return null;
+
+  const npv = (rate: number) =>
+    cashFlows.reduce((acc, cf, i) => acc + cf.amount / Math.pow(1 + rate, years[i]), 0);
+
+  // Bisection is slow but cannot diverge, unlike Newton on short or lumpy series
+  let low = -0.9999;
+  let high = 10;
+  let npvLow = npv(low);
+  // Widen the bracket until the NPV changes sign
+  while (npvLow * npv(high) > 0) {
+    if (high >= MAX_XIRR_RATE) return null;
+    high *= 2;
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < 1e-6 || high - low < 1e-10) return mid;
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
     }
+  }
+  return (low + high) / 2;
+};
 
-    return {
-      date: dateStr,
-      dateObj: dateObj,
-      value: parseInt(valueStr, 10),
-      index: indexVal
-    };
-  }).filter((item): item is StockDataPoint => item !== null);
+// Returns for a chronologically sorted series. The first point is the base: flows recorded
+// on it happened before the period starts and are ignored.
+const computeReturns = (points: StockDataPoint[]): PeriodReturns | null => {
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let netFlows = 0;
+  let twrFactor = 1;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const flow = points[i].flow ?? 0;
+    netFlows += flow;
+    if (prev.value !== 0) {
+      twrFactor *= (points[i].value - flow) / prev.value;
+    }
+  }
+
+  const xirrFlows = [
+    { amount: -first.value, dateObj: first.dateObj },
+    ...points.slice(1).filter(p => p.flow).map(p => ({ amount: -(p.flow as number), dateObj: p.dateObj })),
+    { amount: last.value, dateObj: last.dateObj }
+  ];
+  const xirr = solveXIRR(xirrFlows);
+
+  const valueChange = last.value - first.value;
+
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    startValue: first.value,
+    endValue: last.value,
+    valueChange,
+    simpleReturnPercent: first.value !== 0 ? (valueChange / first.value) * 100 : 0,
+    netFlows,
+    investmentGain: valueChange - netFlows,
+    twrPercent: (twrFactor - 1) * 100,
+    mwrPercent: xirr === null ? null : xirr * 100
+  };
+};
 
-  return parsedData.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
+// Raw, time-weighted and money-weighted returns over [start, end] (inclusive, both optional)
+export const calculateReturns = (data: StockDataPoint[], start?: Date, end?: Date): PeriodReturns | null => {
+  const points = data.filter(d =>
+    (!start || d.dateObj.getTime() >= start.getTime()) &&
+    (!end || d.dateObj.getTime() <= end.getTime())
+  );
+  return computeReturns(points);
 };
 
-export const calculateMonthlyGrowth = (data: StockDataPoint[]): MonthlyGrowth[] => {
+export const hasCashFlows = (data: StockDataPoint[]) => data.some(d => d.flow !== undefined && d.flow !== 0);
+
+// ISO 8601 week: weeks start on Monday and belong to the year of their Thursday
+const isoWeekKey = (date: Date) => {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / DAY_MS - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+  return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+export const getBucketKey = (date: Date, period: BucketPeriod, weekStart: WeekStart = DEFAULT_DISPLAY_FORMAT.weekStart) => {
+  const year = date.getFullYear();
+  switch (period) {
+    case 'week':
+      // A Sunday-start week is the ISO week of its Monday, so Sunday joins the days after it
+      return isoWeekKey(weekStart === 'sunday'
+        ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+        : date);
+    case 'month':
+      return `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'year':
+      return String(year);
+  }
+};
+
+export const calculatePeriodGrowth = (
+  data: StockDataPoint[],
+  period: BucketPeriod,
+  mode: ReturnMode = 'value',
+  weekStart?: WeekStart
+): PeriodGrowth[] => {
   const grouped: Record<string, StockDataPoint[]> = {};
 
   data.forEach(point => {
-    const key = `${point.dateObj.getFullYear()}-${String(point.dateObj.getMonth() + 1).padStart(2, '0')}`;
+    const key = getBucketKey(point.dateObj, period, weekStart);
     if (!grouped[key]) grouped[key] = [];
     grouped[key].push(point);
   });
 
   // Get sorted keys to ensure chronological order
-  const monthKeys = Object.keys(grouped).sort();
+  const bucketKeys = Object.keys(grouped).sort();
 
-  const monthlyGrowth: MonthlyGrowth[] = monthKeys.map((monthKey, index) => {
-    const points = grouped[monthKey];
-    // Sort points by date within the month to be safe
+  return bucketKeys.map((bucketKey, index) => {
+    const points = grouped[bucketKey];
+    // Sort points by date within the bucket to be safe
     points.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
-    
-    const currentEndValue = points[points.length - 1].value;
-    let previousEndValue: number;
 
-    if (index === 0) {
-      // First month: compare last value vs first value of this month
-      previousEndValue = points[0].value;
-    } else {
-      // Subsequent months: compare last value of this month vs last value of previous month
-      const prevMonthKey = monthKeys[index - 1];
-      const prevPoints = grouped[prevMonthKey];
-      // Ensure previous month points are sorted
+    // First bucket: compare against its own first value
+    // Subsequent buckets: compare against the last value of the previous bucket
+    let periodPoints = points;
+    if (index > 0) {
+      const prevPoints = grouped[bucketKeys[index - 1]];
+      // Ensure previous bucket points are sorted
       prevPoints.sort((a, b) => a.dateObj.getTime() - b.dateObj.getTime());
-      previousEndValue = prevPoints[prevPoints.length - 1].value;
+      periodPoints = [prevPoints[prevPoints.length - 1], ...points];
+    }
+
+    const returns = computeReturns(periodPoints) as PeriodReturns;
+    const isFlowAdjusted = mode === 'flowAdjusted';
+    const growthPercent = isFlowAdjusted ? returns.twrPercent : returns.simpleReturnPercent;
+
+    const result: PeriodGrowth = {
+      period: bucketKey,
+      startValue: returns.startValue,
+      endValue: returns.endValue,
+      growth: isFlowAdjusted ? returns.investmentGain : returns.valueChange,
+      growthPercent,
+      netFlow: returns.netFlows
+    };
+
+    const indexStart = periodPoints.find(p => p.index !== undefined)?.index;
+    const indexEnd = [...periodPoints].reverse().find(p => p.index !== undefined)?.index;
+    if (indexStart && indexEnd !== undefined) {
+      result.indexGrowthPercent = (indexEnd / indexStart - 1) * 100;
+      result.excessPercent = growthPercent - result.indexGrowthPercent;
+    }
+
+    return result;
+  });
+};
+
+export const calculateMonthlyGrowth = (data: StockDataPoint[], mode: ReturnMode = 'value'): MonthlyGrowth[] => {
+  return calculatePeriodGrowth(data, 'month', mode).map(bucket => ({
+    month: bucket.period,
+    startValue: bucket.startValue,
+    endValue: bucket.endValue,
+    growth: bucket.growth,
+    growthPercent: bucket.growthPercent,
+    netFlow: bucket.netFlow
+  }));
+};
+
+// Daily flow-adjusted returns; index returns are null where either day lacks an index value
+const dailyReturns = (data: StockDataPoint[]) => {
+  const portfolio: number[] = [];
+  const index: (number | null)[] = [];
+
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const curr = data[i];
+    portfolio.push(prev.value !== 0 ? (curr.value - (curr.flow ?? 0)) / prev.value - 1 : 0);
+    index.push(prev.index !== undefined && curr.index !== undefined && prev.index !== 0
+      ? curr.index / prev.index - 1
+      : null);
+  }
+
+  return { portfolio, index };
+};
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+const covariance = (a: number[], b: number[]) => {
+  if (a.length < 2) return 0;
+  const avgA = mean(a);
+  const avgB = mean(b);
+  return a.reduce((acc, v, i) => acc + (v - avgA) * (b[i] - avgB), 0) / (a.length - 1);
+};
+
+// Max drawdown on the flow-adjusted wealth curve, so deposits don't mask losses
+const maxDrawdown = (data: StockDataPoint[], returns: number[]) => {
+  let wealth = 1;
+  let peak = 1;
+  let peakIdx = 0;
+  let maxDd = 0;
+  let ddPeakIdx: number | null = null;
+  let ddTroughIdx: number | null = null;
+
+  returns.forEach((r, i) => {
+    wealth *= 1 + r;
+    if (wealth >= peak) {
+      peak = wealth;
+      peakIdx = i + 1;
     }
+    const dd = wealth / peak - 1;
+    if (dd < maxDd) {
+      maxDd = dd;
+      ddPeakIdx = peakIdx;
+      ddTroughIdx = i + 1;
+    }
+  });
+
+  let recoveryIdx: number | null = null;
+  if (ddPeakIdx !== null && ddTroughIdx !== null) {
+    // Walk forward from the trough until the wealth curve is back at the old peak
+    let w = 1;
+    let peakWealth = 1;
+    returns.forEach((r, i) => {
+      w *= 1 + r;
+      if (i + 1 === ddPeakIdx) peakWealth = w;
+      if (recoveryIdx === null && i + 1 > (ddTroughIdx as number) && w >= peakWealth) recoveryIdx = i + 1;
+    });
+  }
+
+  return {
+    maxDrawdownPercent: maxDd * 100,
+    drawdownPeakDate: ddPeakIdx !== null ? data[ddPeakIdx].date : null,
+    drawdownTroughDate: ddTroughIdx !== null ? data[ddTroughIdx].date : null,
+    drawdownRecoveryDate: recoveryIdx !== null ? data[recoveryIdx].date : null
+  };
+};
+
+// Day-over-day moves; deposits and withdrawals are taken out so they don't read as gains or losses
+export const calculateDailyChanges = (data: StockDataPoint[]): DailyChange[] => {
+  const changes: DailyChange[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const prev = data[i - 1];
+    const curr = data[i];
+    const change = curr.value - (curr.flow ?? 0) - prev.value;
+    changes.push({
+      date: curr.date,
+      value: curr.value,
+      change,
+      changePercent: prev.value !== 0 ? (change / prev.value) * 100 : 0,
+      indexChangePercent: prev.index !== undefined && curr.index !== undefined && prev.index !== 0
+        ? (curr.index / prev.index - 1) * 100
+        : undefined
+    });
+  }
+  return changes;
+};
+
+export const calculateRiskMetrics = (
+  data: StockDataPoint[],
+  riskFreeRate: number = DEFAULT_RISK_FREE_RATE
+): RiskMetrics | null => {
+  if (data.length < 3) return null;
+
+  const { portfolio, index } = dailyReturns(data);
+  const dailyRf = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const sqrtYear = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const annualizedReturn = mean(portfolio) * TRADING_DAYS_PER_YEAR;
+  const annualizedVol = stdDev(portfolio) * sqrtYear;
+
+  const excess = portfolio.map(r => r - dailyRf);
+  const downside = excess.map(r => Math.min(0, r));
+  const downsideDev = Math.sqrt(mean(downside.map(r => r * r))) * sqrtYear;
+
+  const sharpeRatio = annualizedVol > 0 ? (annualizedReturn - riskFreeRate) / annualizedVol : null;
+  const sortinoRatio = downsideDev > 0 ? (annualizedReturn - riskFreeRate) / downsideDev : null;
+
+  // Benchmark statistics only on days where both series have a return
+  const paired = portfolio
+    .map((r, i) => ({ p: r, b: index[i] }))
+    .filter((pair): pair is { p: number; b: number } => pair.b !== null);
+
+  let beta: number | null = null;
+  let alphaPercent: number | null = null;
+  let correlation: number | null = null;
+  let trackingErrorPercent: number | null = null;
 
-    const growth = currentEndValue - previousEndValue;
-    const growthPercent = previousEndValue !== 0 ? (growth / previousEndValue) * 100 : 0;
+  if (paired.length >= 2) {
+    const p = paired.map(x => x.p);
+    const b = paired.map(x => x.b);
+    const varB = stdDev(b) ** 2;
+    const cov = covariance(p, b);
 
-    return {
-      month: monthKey,
-      startValue: previousEndValue,
-      endValue: currentEndValue,
-      growth,
-      growthPercent
+    if (varB > 0) {
+      beta = cov / varB;
+      // Jensen's alpha, annualized
+      const annualP = mean(p) * TRADING_DAYS_PER_YEAR;
+      const annualB = mean(b) * TRADING_DAYS_PER_YEAR;
+      alphaPercent = (annualP - (riskFreeRate + beta * (annualB - riskFreeRate))) * 100;
+    }
+    const sdP = stdDev(p);
+    const sdB = stdDev(b);
+    if (sdP > 0 && sdB > 0) correlation = cov / (sdP * sdB);
+    trackingErrorPercent = stdDev(p.map((r, i) => r - b[i])) * sqrtYear * 100;
+  }
+
+  return {
+    observations: portfolio.length,
+    annualizedReturnPercent: annualizedReturn * 100,
+    annualizedVolatilityPercent: annualizedVol * 100,
+    ...maxDrawdown(data, portfolio),
+    sharpeRatio,
+    sortinoRatio,
+    beta,
+    alphaPercent,
+    correlation,
+    trackingErrorPercent
+  };
+};
+
+// Underwater series over the full history, so a window that opens mid-drawdown still
+// measures against the earlier peak. Portfolio uses the flow-adjusted wealth curve.
+export const calculateDrawdownSeries = (data: StockDataPoint[]): DrawdownPoint[] => {
+  let wealth = 1;
+  let peakWealth = 1;
+  let peakTime = data.length > 0 ? data[0].dateObj.getTime() : 0;
+  let indexPeak: number | undefined;
+  let indexPeakTime = peakTime;
+
+  return data.map((point, i) => {
+    if (i > 0) {
+      const prev = data[i - 1];
+      if (prev.value !== 0) wealth *= (point.value - (point.flow ?? 0)) / prev.value;
+    }
+    if (wealth >= peakWealth) {
+      peakWealth = wealth;
+      peakTime = point.dateObj.getTime();
+    }
+
+    const result: DrawdownPoint = {
+      ...point,
+      drawdown: (wealth / peakWealth - 1) * 100,
+      daysSincePeak: Math.round((point.dateObj.getTime() - peakTime) / DAY_MS)
     };
+
+    if (point.index !== undefined) {
+      if (indexPeak === undefined || point.index >= indexPeak) {
+        indexPeak = point.index;
+        indexPeakTime = point.dateObj.getTime();
+      }
+      result.indexDrawdown = (point.index / indexPeak - 1) * 100;
+      result.indexDaysSincePeak = Math.round((point.dateObj.getTime() - indexPeakTime) / DAY_MS);
+    }
+
+    return result;
+  });
+};
+
+// Rebase a window so both series start at 0%. With flowAdjusted the portfolio follows its
+// time-weighted wealth curve instead of raw value.
+export const rebaseSeries = (data: StockDataPoint[], flowAdjusted: boolean = false): RebasedPoint[] => {
+  if (data.length === 0) return [];
+  const baseValue = data[0].value;
+  const baseIndex = data.find(d => d.index !== undefined)?.index;
+  let wealth = 1;
+
+  return data.map((point, i) => {
+    if (i > 0 && flowAdjusted) {
+      const prev = data[i - 1];
+      if (prev.value !== 0) wealth *= (point.value - (point.flow ?? 0)) / prev.value;
+    }
+    const portfolioGrowth = flowAdjusted ? wealth : (baseValue !== 0 ? point.value / baseValue : 1);
+    const result: RebasedPoint = { ...point, portfolioReturn: (portfolioGrowth - 1) * 100 };
+
+    if (point.index !== undefined && baseIndex) {
+      const indexGrowth = point.index / baseIndex;
+      result.indexReturn = (indexGrowth - 1) * 100;
+      result.relativeStrength = (portfolioGrowth / indexGrowth - 1) * 100;
+    }
+    return result;
+  });
+};
+
+// Value of a sorted series as of a date (last point on or before it)
+const valueAsOf = (series: StockDataPoint[], time: number, cursor: { i: number }) => {
+  while (cursor.i + 1 < series.length && series[cursor.i + 1].dateObj.getTime() <= time) cursor.i++;
+  return series[cursor.i] && series[cursor.i].dateObj.getTime() <= time ? series[cursor.i] : null;
+};
+
+// Sum several accounts by date. Each account's last value is carried forward across dates it
+// doesn't report; an account joining later enters as a deposit so flow-adjusted returns ignore it.
+export const aggregatePortfolios = (seriesList: StockDataPoint[][]): StockDataPoint[] => {
+  const nonEmpty = seriesList.filter(series => series.length > 0);
+  if (nonEmpty.length === 0) return [];
+  if (nonEmpty.length === 1) return nonEmpty[0];
+
+  const times = Array.from(new Set(nonEmpty.flatMap(series => series.map(p => p.dateObj.getTime())))).sort((a, b) => a - b);
+  const cursors = nonEmpty.map(() => ({ i: 0 }));
+  const started = nonEmpty.map(() => false);
+
+  return times.map((time, t) => {
+    let value = 0;
+    let flow = 0;
+    let index: number | undefined;
+
+    nonEmpty.forEach((series, s) => {
+      const point = valueAsOf(series, time, cursors[s]);
+      if (!point) return;
+      value += point.value;
+      if (!started[s]) {
+        started[s] = true;
+        if (t > 0) flow += point.value;
+      } else if (point.dateObj.getTime() === time) {
+        flow += point.flow ?? 0;
+      }
+      if (index === undefined && point.dateObj.getTime() === time) index = point.index;
+    });
+
+    const dateObj = new Date(time);
+    const result: StockDataPoint = { date: formatCanonicalDate(dateObj), dateObj, value, index };
+    if (flow !== 0) result.flow = flow;
+    return result;
+  });
+};
+
+// Rebase each series onto the dates of `base`, carrying values forward. Rows hold one
+// cumulative % return per series id, plus the base index return.
+export const buildComparisonRows = (base: StockDataPoint[], series: ComparisonSeries[]) => {
+  if (base.length === 0) return [];
+  const startTime = base[0].dateObj.getTime();
+  const baseIndex = base.find(p => p.index !== undefined)?.index;
+
+  const cursors = series.map(() => ({ i: 0 }));
+  const startValues = series.map((s, i) => {
+    const point = valueAsOf(s.data, startTime, cursors[i]) ?? s.data.find(p => p.dateObj.getTime() >= startTime);
+    return point ? point.value : null;
   });
+  series.forEach((_, i) => { cursors[i].i = 0; });
+
+  return base.map(point => {
+    const row: { date: string } & Record<string, number | string | undefined> = { date: point.date };
+    series.forEach((s, i) => {
+      const asOf = valueAsOf(s.data, point.dateObj.getTime(), cursors[i]);
+      const startValue = startValues[i];
+      if (asOf && startValue) row[s.id] = (asOf.value / startValue - 1) * 100;
+    });
+    if (point.index !== undefined && baseIndex) row.indexReturn = (point.index / baseIndex - 1) * 100;
+    return row;
+  });
+};
+
+// Day annotations for the CSV's note column; ids follow the date so they stay stable across re-parses
+export const annotationsFromNotes = (data: StockDataPoint[]): ChartAnnotation[] =>
+  data.filter(point => point.note).map(point => ({
+    id: `csv:${point.date}`,
+    date: point.date,
+    span: 'day',
+    label: point.note as string,
+    source: 'csv'
+  }));
 
-  return monthlyGrowth;
+export const formatDateForInput = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const parseInputDate = (dateStr: string) => {
+  if (!dateStr) return new Date();
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Inclusive filter; both parseInputDate and StockDataPoint.dateObj are local midnight
+export const filterByDateRange = <T extends StockDataPoint>(data: T[], range: DateRange): T[] => {
+  if (data.length === 0) return [];
+  if (!range.start || !range.end) return data;
+
+  const startTime = parseInputDate(range.start).getTime();
+  const endTime = parseInputDate(range.end).getTime();
+
+  return data.filter(d => {
+    // Reset times to 0 to ensure clean date comparison
+    const dTime = new Date(d.dateObj);
+    dTime.setHours(0, 0, 0, 0);
+    return dTime.getTime() >= startTime && dTime.getTime() <= endTime;
+  });
 };
 
-export const formatCurrency = (val: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: 0
-  }).format(val);
+// Formatters bound to one display format. Components get theirs from useFormatters(); text for
+// the analyst uses fixed ones (see analystFormatters), since prompts stay in English
+export const createFormatters = (format: DisplayFormat): Formatters => {
+  const { locale, dateFormat } = format;
+  return {
+    format,
+    // A canonical YYYY/M/D date (or a Date) in the chosen display format
+    formatDisplayDate: (value) => {
+      const date = typeof value === 'string' ? parseDateString(value, 'YMD') : value;
+      if (!date) return String(value);
+      switch (dateFormat) {
+        case 'iso':
+          return formatDateForInput(date);
+        case 'locale':
+          return date.toLocaleDateString(locale);
+        default:
+          return formatCanonicalDate(date);
+      }
+    },
+    // e.g. "January 2025"
+    formatMonthYear: (date, month = 'long') => date.toLocaleString(locale, { month, year: 'numeric' }),
+    formatNumber: (val, fractionDigits = 2) =>
+      val.toLocaleString(locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }),
+    formatCurrency: (val, currency = format.currency) => new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0
+    }).format(val),
+    // e.g. "NT$" for TWD, "$" for USD
+    currencySymbol: (currency = format.currency) =>
+      new Intl.NumberFormat(locale, { style: 'currency', currency })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value ?? currency,
+    formatCompactCurrency: (val, currency = format.currency) => new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1
+    }).format(val)
+  };
 };
 
-export const formatCompactCurrency = (val: number) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    notation: "compact",
-    maximumFractionDigits: 1
-  }).format(val);
-};
\ No newline at end of file
+// Amounts in analyst prompts and tool results: default number format, canonical dates
+export const analystFormatters = (currency: string = DEFAULT_CURRENCY) =>
+  createFormatters({ ...DEFAULT_DISPLAY_FORMAT, currency });
\ No newline at end of file
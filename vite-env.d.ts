@@ -1,6 +1,14 @@
+/// <reference types="vite/client" />
+
 declare namespace NodeJS {
   interface ProcessEnv {
     API_KEY: string;
+    // Analyst chat provider: 'gemini' | 'openai' | 'mock'
+    LLM_PROVIDER?: string;
+    GEMINI_MODEL?: string;
+    OPENAI_BASE_URL?: string;
+    OPENAI_MODEL?: string;
+    OPENAI_API_KEY?: string;
     [key: string]: string | undefined;
   }
 }